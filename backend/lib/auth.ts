@@ -0,0 +1,258 @@
+/**
+ * Authentication for Pastebin API
+ * Optional accounts - login sessions and personal API keys share the Bearer header
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from './prisma';
+import { generateToken, hashToken } from './security';
+import { ErrorCodes } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export const API_SCOPES = ['paste:create', 'paste:read', 'paste:delete', 'admin:stats'] as const;
+
+export type ApiScope = typeof API_SCOPES[number];
+
+export interface AuthUser {
+    id: string;
+    email: string;
+}
+
+export interface AuthApiKey {
+    id: string;
+    scopes: ApiScope[];
+    rateLimit: number | null; // requests per minute, null for the default
+}
+
+declare global {
+    namespace Express {
+        interface Request {
+            user?: AuthUser;
+            apiKey?: AuthApiKey; // set when the request used an API key rather than a session
+        }
+    }
+}
+
+// ============================================
+// Tokens
+// ============================================
+
+/**
+ * API keys carry a prefix so they can be told apart from session tokens
+ */
+export const API_KEY_PREFIX = 'pb_';
+
+/**
+ * Characters of an API key kept in clear text to identify it in listings
+ */
+const API_KEY_DISPLAY_LENGTH = 10;
+
+/**
+ * Scopes granted when a key is created without any
+ */
+export const DEFAULT_API_SCOPES: ApiScope[] = ['paste:create', 'paste:read', 'paste:delete'];
+
+/**
+ * Per-key quotas in requests per minute (IP-based limits don't apply to keys)
+ */
+export const API_KEY_DEFAULT_CREATE_LIMIT = 60;
+export const API_KEY_DEFAULT_READ_LIMIT = 300;
+export const API_KEY_MAX_RATE_LIMIT = 1000;
+
+/**
+ * Login sessions last 30 days
+ */
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Generate a personal API key - only its hash is stored
+ */
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+    const key = `${API_KEY_PREFIX}${generateToken()}`;
+    return {
+        key,
+        prefix: key.slice(0, API_KEY_DISPLAY_LENGTH),
+        keyHash: hashToken(key),
+    };
+}
+
+/**
+ * Start a login session and return its token
+ */
+export async function createSession(userId: string): Promise<{ token: string; expiresAt: Date }> {
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+    await prisma.session.create({
+        data: {
+            userId,
+            tokenHash: hashToken(token),
+            expiresAt,
+        },
+    });
+
+    return { token, expiresAt };
+}
+
+/**
+ * Read the token from an "Authorization: Bearer <token>" header
+ */
+export function getBearerToken(req: Request): string | null {
+    const header = req.headers.authorization;
+    const match = header?.match(/^Bearer\s+(\S+)$/i);
+    return match ? match[1] : null;
+}
+
+/**
+ * Check whether an account may hold admin scopes (ADMIN_EMAILS, comma separated)
+ */
+export function isAdmin(email: string): boolean {
+    const admins = (process.env.ADMIN_EMAILS || '')
+        .split(',')
+        .map(admin => admin.trim().toLowerCase())
+        .filter(Boolean);
+
+    return admins.includes(email.toLowerCase());
+}
+
+/**
+ * Resolve a session token or API key to its user
+ */
+async function findUserByToken(token: string): Promise<{ user: AuthUser; apiKey?: AuthApiKey } | null> {
+    const tokenHash = hashToken(token);
+
+    if (token.startsWith(API_KEY_PREFIX)) {
+        const apiKey = await prisma.apiKey.findUnique({
+            where: { keyHash: tokenHash },
+            include: { user: { select: { id: true, email: true } } },
+        });
+
+        if (!apiKey) {
+            return null;
+        }
+
+        await prisma.apiKey.update({
+            where: { id: apiKey.id },
+            data: { lastUsedAt: new Date() },
+        });
+
+        return {
+            user: apiKey.user,
+            apiKey: {
+                id: apiKey.id,
+                scopes: apiKey.scopes.filter((scope): scope is ApiScope =>
+                    (API_SCOPES as readonly string[]).includes(scope)
+                ),
+                rateLimit: apiKey.rateLimit,
+            },
+        };
+    }
+
+    const session = await prisma.session.findUnique({
+        where: { tokenHash },
+        include: { user: { select: { id: true, email: true } } },
+    });
+
+    if (!session || session.expiresAt <= new Date()) {
+        return null;
+    }
+
+    return { user: session.user };
+}
+
+// ============================================
+// Middleware
+// ============================================
+
+/**
+ * Attach the signed-in user to req.user when a token is sent
+ * Anonymous requests pass through; a bad token is rejected rather than
+ * silently treated as anonymous
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+    const token = getBearerToken(req);
+
+    if (!token) {
+        return next();
+    }
+
+    try {
+        const auth = await findUserByToken(token);
+
+        if (!auth) {
+            return res.status(401).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.UNAUTHORIZED,
+                    message: 'Invalid or expired credentials',
+                },
+            });
+        }
+
+        req.user = auth.user;
+        req.apiKey = auth.apiKey;
+        next();
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * Reject requests without a signed-in user
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+    if (!req.user) {
+        return res.status(401).json({
+            success: false,
+            error: {
+                code: ErrorCodes.UNAUTHORIZED,
+                message: 'Sign in or send an API key in the Authorization header',
+            },
+        });
+    }
+
+    next();
+}
+
+/**
+ * Reject API keys that lack any of the given scopes
+ * Sessions and anonymous requests aren't scoped - other checks still apply
+ */
+export function requireScope(...scopes: ApiScope[]) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const missing = req.apiKey ? scopes.filter(scope => !req.apiKey!.scopes.includes(scope)) : [];
+
+        if (missing.length > 0) {
+            return res.status(403).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.FORBIDDEN,
+                    message: `API key is missing the ${missing.join(', ')} scope`,
+                },
+            });
+        }
+
+        next();
+    };
+}
+
+/**
+ * Reject requests not made from a signed-in session
+ * Used where a leaked API key must not be enough, e.g. minting more keys
+ */
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+    if (!req.user || req.apiKey) {
+        return res.status(401).json({
+            success: false,
+            error: {
+                code: ErrorCodes.UNAUTHORIZED,
+                message: 'Sign in to manage API keys',
+            },
+        });
+    }
+
+    next();
+}
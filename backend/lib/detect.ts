@@ -0,0 +1,442 @@
+/**
+ * Language Detection
+ * Heuristic guess at a paste's language from shebangs, structure and keywords
+ */
+
+import { SupportedLanguage } from './languages';
+
+// ============================================
+// Types
+// ============================================
+
+export interface LanguageDetection {
+    language: SupportedLanguage;
+    confidence: number; // 0-1
+    confident: boolean; // high enough to be stored on create
+}
+
+/**
+ * Pastes detected below this confidence are stored without a language
+ */
+export const MIN_DETECTION_CONFIDENCE = 0.5;
+
+/**
+ * Score at which keyword matches alone count as a certain match
+ */
+const STRONG_SCORE = 10;
+
+/**
+ * Only the start of a paste is inspected - enough to tell, and bounded in cost
+ */
+const SAMPLE_SIZE = 20 * 1024;
+
+// ============================================
+// Signatures
+// ============================================
+
+interface Signature {
+    pattern: RegExp;
+    weight: number;
+}
+
+interface LanguageRules {
+    signatures: Signature[];
+    // Superset of another language - adds that language's score once it has its own
+    extends?: SupportedLanguage;
+}
+
+const sig = (pattern: RegExp, weight: number): Signature => ({ pattern, weight });
+
+/**
+ * Each signature counts once however often it matches, so long pastes don't
+ * outscore short ones just by repeating a common keyword
+ */
+const RULES: Partial<Record<SupportedLanguage, LanguageRules>> = {
+    javascript: {
+        signatures: [
+            sig(/\b(const|let)\s+\w+\s*=/, 2),
+            sig(/\bfunction\s*\w*\s*\([^)$]*\)\s*\{/, 2),
+            sig(/=>\s*[{(\w]/, 2),
+            sig(/\bconsole\.(log|error|warn)\(/, 4),
+            sig(/\brequire\(['"][\w@./-]+['"]\)/, 4),
+            sig(/\bmodule\.exports\b|\bexport\s+(default|const|function|class)\b/, 4),
+            sig(/^[^\S\n]*import\b.{1,200}?\bfrom[^\S\n]+['"][^'"\n]+['"];?[^\S\n]*$/m, 3),
+            sig(/\b(document|window)\.\w+/, 3),
+            sig(/===|!==/, 2),
+            sig(/\b(async\s+function|await\s+\w+)/, 1),
+        ],
+    },
+    typescript: {
+        extends: 'javascript',
+        signatures: [
+            sig(/\w\??:\s*(string|number|boolean|any|void|unknown|never)(\[\])?\b/, 4),
+            sig(/^[^\S\n]*(export\s+)?interface\s+\w+(<[^<>]+>)?\s*(extends\s+[\w<>, ]+)?\{/m, 4),
+            sig(/^[^\S\n]*(export\s+)?type\s+\w+(<[^<>]+>)?\s*=/m, 4),
+            sig(/\b(private|public|protected|readonly)\s+\w+\s*[?:]/, 3),
+            sig(/\bas\s+(const|string|number|unknown|any)\b/, 3),
+            sig(/^[^\S\n]*import\s+type\s+/m, 5),
+        ],
+    },
+    python: {
+        signatures: [
+            sig(/^[^\S\n]*def\s+\w+\s*\([^)]*\)\s*(->\s*[^:]+)?:[^\S\n]*$/m, 5),
+            sig(/^[^\S\n]*class\s+\w+(\([^)]*\))?:[^\S\n]*$/m, 4),
+            sig(/^[^\S\n]*(from\s+[\w.]+\s+)?import\s+[\w.]+(\s+as\s+\w+)?(\s*,\s*[\w.]+)*[^\S\n]*$/m, 2),
+            sig(/\bself\.\w+/, 3),
+            sig(/^[^\S\n]*(elif\s+.+|else|try|finally|except(\s+.+)?):[^\S\n]*$/m, 4),
+            sig(/if\s+__name__\s*==\s*['"]__main__['"]/, 5),
+            sig(/\b(None|True|False)\b/, 1),
+            sig(/\bprint\(/, 1),
+            sig(/^[^\S\n]*@\w+(\.\w+)*(\(.*\))?[^\S\n]*$/m, 1),
+        ],
+    },
+    java: {
+        signatures: [
+            sig(/\bSystem\.(out|err)\.print(ln)?\(/, 5),
+            sig(/^[^\S\n]*import\s+java(x)?\.[\w.*]+;/m, 5),
+            sig(/\bpublic\s+static\s+void\s+main\s*\(\s*String/, 5),
+            sig(/^[^\S\n]*package\s+[\w.]+;[^\S\n]*$/m, 4),
+            sig(/\b(public|private|protected)\s+(static\s+)?(final\s+)?(class|interface|enum)\s+\w+/, 3),
+            sig(/@Override\b/, 3),
+            sig(/\bString\[\]/, 2),
+            sig(/\bnew\s+\w+(<[\w<>, ]*>)?\(/, 1),
+        ],
+    },
+    csharp: {
+        signatures: [
+            sig(/^[^\S\n]*using\s+System(\.\w+)*;/m, 5),
+            sig(/\bConsole\.(Write|WriteLine|ReadLine)\(/, 5),
+            sig(/\{\s*get;\s*(private\s+)?(set;|init;)?\s*\}/, 5),
+            sig(/^[^\S\n]*namespace\s+[\w.]+\s*[{;]?[^\S\n]*$/m, 3),
+            sig(/\b(public|private|internal)\s+(async\s+)?Task(<[^<>]+>)?\s+\w+\(/, 4),
+            sig(/\bvar\s+\w+\s*=\s*new\b/, 2),
+            sig(/\b(public|private|protected|internal)\s+(static\s+)?(partial\s+)?class\s+\w+/, 2),
+        ],
+    },
+    c: {
+        signatures: [
+            sig(/^[^\S\n]*#include\s*<\w+\.h>/m, 4),
+            sig(/^[^\S\n]*#(define|ifndef|ifdef|endif)\b/m, 2),
+            sig(/\bprintf\s*\(/, 2),
+            sig(/\bint\s+main\s*\(/, 3),
+            sig(/\b(malloc|calloc|free|sizeof)\s*\(/, 3),
+            sig(/\b(struct|typedef)\s+\w+/, 1),
+        ],
+    },
+    cpp: {
+        extends: 'c',
+        signatures: [
+            sig(/^[^\S\n]*#include\s*<(iostream|vector|string|map|memory|algorithm|unordered_map)>/m, 5),
+            sig(/\bstd::\w+/, 5),
+            sig(/\busing\s+namespace\s+std\s*;/, 5),
+            sig(/\b(cout|cin|cerr)\s*(<<|>>)/, 4),
+            sig(/\btemplate\s*<\s*(typename|class)\b/, 4),
+            sig(/\bnullptr\b/, 3),
+            sig(/\b\w+::\w+\s*\(/, 1),
+        ],
+    },
+    go: {
+        signatures: [
+            sig(/^[^\S\n]*package\s+\w+[^\S\n]*$/m, 4),
+            sig(/\bfunc\s+(\(\w+\s+\*?\w+\)\s*)?\w+\s*\(/, 5),
+            sig(/\bfmt\.\w+\(/, 5),
+            sig(/^[^\S\n]*import\s*\([^\S\n]*$/m, 4),
+            sig(/\btype\s+\w+\s+(struct|interface)\s*\{/, 5),
+            sig(/\w\s*:=\s*/, 2),
+            sig(/\bgo\s+func\b|\bchan\s+\w+|<-\s*\w+/, 3),
+            sig(/\bif\s+err\s*!=\s*nil\b/, 5),
+        ],
+    },
+    rust: {
+        signatures: [
+            sig(/\bfn\s+\w+\s*(<[^<>]*>)?\s*\(/, 5),
+            sig(/\blet\s+mut\s+/, 5),
+            sig(/\b(println|print|format|vec|panic|assert_eq|assert)!\s*[([]/, 5),
+            sig(/^[^\S\n]*impl\b(<[^<>]*>)?\s+[\w:<>]+/m, 4),
+            sig(/^[^\S\n]*use\s+\w+(::[\w{}*, ]+)+;/m, 4),
+            sig(/\bpub\s+(fn|struct|enum|mod|trait)\b/, 4),
+            sig(/->\s*(Self|Result<|Option<|&?str|String|u\d+|i\d+|bool)\b/, 3),
+            sig(/&mut\s+\w+|&'\w+/, 3),
+            sig(/\b(Some|None|Ok|Err)\(/, 1),
+        ],
+    },
+    ruby: {
+        signatures: [
+            sig(/^[^\S\n]*def\s+(self\.)?\w+[?!]?(\([^)]*\))?[^\S\n]*$/m, 3),
+            sig(/^[^\S\n]*end[^\S\n]*$/m, 3),
+            sig(/\belsif\b/, 5),
+            sig(/\battr_(accessor|reader|writer)\b/, 5),
+            sig(/\.each(_with_index)?\s+do\s*\|/, 5),
+            sig(/\bdo\s*\|\w+(,\s*\w+)*\|/, 3),
+            sig(/^[^\S\n]*require(_relative)?\s+['"]/m, 3),
+            sig(/^[^\S\n]*module\s+[A-Z]\w*[^\S\n]*$/m, 3),
+            sig(/\bputs\s+/, 3),
+            sig(/\bnil\b/, 1),
+        ],
+    },
+    php: {
+        signatures: [
+            sig(/\b(public|private|protected)\s+(static\s+)?function\b/, 5),
+            sig(/\bfunction\s+\w+\s*\([^)]*\$\w+/, 4),
+            sig(/^[^\S\n]*namespace\s+[\w\\]+;/m, 4),
+            sig(/^[^\S\n]*use\s+[\w\\]+(\s+as\s+\w+)?;/m, 3),
+            sig(/\$this->\w+/, 5),
+            sig(/\$\w+\s*=[^=]/, 2),
+            sig(/\becho\s+['"$]/, 1),
+            sig(/\barray\s*\(/, 2),
+        ],
+    },
+    swift: {
+        signatures: [
+            sig(/^[^\S\n]*import\s+(UIKit|Foundation|SwiftUI|Combine)[^\S\n]*$/m, 5),
+            sig(/\bfunc\s+\w+\s*(<[^<>]*>)?\s*\([^()]*\w\s*:\s*[A-Z]\w*/, 4),
+            sig(/\bguard\s+let\b/, 5),
+            sig(/\bif\s+let\s+\w+\s*=/, 4),
+            sig(/\boverride\s+func\b/, 5),
+            sig(/@(IBOutlet|IBAction|State|Published|Binding|objc)\b/, 5),
+            sig(/\b(var|let)\s+\w+\s*:\s*[A-Z]\w*[?!]?/, 2),
+            sig(/->\s*[A-Z]\w*[?]?\s*\{/, 2),
+        ],
+    },
+    kotlin: {
+        signatures: [
+            sig(/\bfun\s+(<[^<>]*>\s*)?[\w.]+\s*\(/, 5),
+            sig(/\bval\s+\w+(\s*:\s*[\w<>?, ]+)?\s*=/, 4),
+            sig(/\bdata\s+class\b/, 5),
+            sig(/\b(companion\s+object|suspend\s+fun|lateinit\s+var)\b/, 5),
+            sig(/\bwhen\s*(\([^)]*\))?\s*\{/, 4),
+            sig(/^[^\S\n]*package\s+\w+(\.\w+)+[^\S\n]*$/m, 3),
+            sig(/\?:|\?\.\w+/, 1),
+            sig(/\bprintln\(/, 1),
+        ],
+    },
+    html: {
+        signatures: [
+            sig(/<html[\s>]/i, 6),
+            sig(/<(head|body|div|span|script|style|p|a|ul|li|table|form|input|button)[\s>]/i, 3),
+            sig(/<(meta|link|img|br)\b[^>]*>/i, 3),
+            sig(/\b(class|href|src|id)="[^"]*"/, 2),
+            sig(/<\/\w+>/, 1),
+        ],
+    },
+    css: {
+        signatures: [
+            sig(/^[^\S\n]*[.#]?[\w-][\w\-:#.>+~, \t]{0,200}\{[^\S\n]*$/m, 1),
+            sig(/^[^\S\n]*[\w-]+[^\S\n]*:[^;{}\n]{1,200};[^\S\n]*$/m, 2),
+            sig(/\b(color|margin|padding|display|font-size|font-family|background|border|width|height)\s*:/, 3),
+            sig(/@(media|keyframes|font-face)\b|@import\s+url/, 5),
+            sig(/\d+(px|em|rem|vh|vw)\b/, 2),
+            sig(/#[0-9a-fA-F]{3,6}\b\s*;/, 2),
+        ],
+    },
+    scss: {
+        extends: 'css',
+        signatures: [
+            sig(/^[^\S\n]*\$[\w-]+\s*:/m, 5),
+            sig(/@(mixin|include|extend|use)\b/, 5),
+            sig(/&(:[\w-]+|\.[\w-]+|-[\w-]+)/, 4),
+        ],
+    },
+    json: {
+        signatures: [
+            sig(/^\s*[{[]/, 1),
+            sig(/"[\w-]+"\s*:\s*("|\d|\{|\[|true|false|null)/, 3),
+        ],
+    },
+    xml: {
+        signatures: [
+            sig(/<\/?[\w-]+:[\w-]+[\s>]/, 3),
+            sig(/\bxmlns(:\w+)?="/, 4),
+            sig(/<!\[CDATA\[/, 5),
+            sig(/<\w+[^<>]*\/>/, 1),
+            sig(/<\/\w+>/, 1),
+        ],
+    },
+    yaml: {
+        signatures: [
+            sig(/^---[^\S\n]*$/m, 2),
+            sig(/^[\w-]+:([^\S\n]+[^\s{].*)?$/m, 2),
+            sig(/^[^\S\n]*-\s+[\w-]+:\s/m, 4),
+            sig(/^[^\S\n]+[\w-]+:\s+\S/m, 1),
+            sig(/^(apiVersion|kind|version|services|jobs|steps|on|runs-on):/m, 4),
+        ],
+    },
+    markdown: {
+        signatures: [
+            sig(/^#{1,6}\s+\S/m, 1),
+            sig(/^#{2,6}\s+\S/m, 3),
+            sig(/\[[^\]\n]+\]\([^()\n]+\)/, 4),
+            sig(/^[^\S\n]*```/m, 5),
+            sig(/\*\*[^*\n]+\*\*|__[^_\n]+__/, 3),
+            sig(/^>\s/m, 2),
+            sig(/^[^\S\n]*[-*+]\s+\S/m, 1),
+            sig(/^[^\S\n]*\d+\.\s+\S/m, 1),
+        ],
+    },
+    sql: {
+        signatures: [
+            sig(/\bselect\b[^;]{1,200}?\bfrom\s+["\w.]/i, 5),
+            sig(/\binsert\s+into\b/i, 5),
+            sig(/\bcreate\s+(table|index|view|database|schema)\b/i, 5),
+            sig(/\bupdate\s+["\w.]+\s+set\b/i, 5),
+            sig(/\b(delete\s+from|alter\s+table|drop\s+table)\b/i, 5),
+            sig(/\b(WHERE|JOIN|GROUP BY|ORDER BY)\b/, 2),
+            sig(/\b(varchar|integer|primary\s+key|not\s+null)\b/i, 3),
+            sig(/^[^\S\n]*--\s/m, 1),
+        ],
+    },
+    bash: {
+        signatures: [
+            sig(/^[^\S\n]*(if|while|until)\s+\[\[?\s/m, 5),
+            sig(/^[^\S\n]*(fi|done|esac)[^\S\n]*$/m, 4),
+            sig(/^[^\S\n]*(export|alias|source|unset)\s+\w/m, 4),
+            sig(/\|\s*(grep|awk|sed|xargs|sort|uniq|head|tail)\b/, 4),
+            sig(/^[^\S\n]*(sudo|apt|apt-get|brew|npm|npx|yarn|git|cd|mkdir|curl|wget|docker|pip|chmod)\s/m, 3),
+            sig(/^[^\S\n]*\w+=("|\$|\w)/m, 2),
+            sig(/\becho\s/, 2),
+            sig(/\$\{?\w+\}?/, 1),
+        ],
+    },
+    powershell: {
+        signatures: [
+            sig(/\b(Get|Set|New|Remove|Write|Invoke|Import|Start|Test)-[A-Z]\w+/, 5),
+            sig(/\s-(eq|ne|gt|ge|lt|le|like|match|contains)\s/, 4),
+            sig(/\$_\b|\$PSScriptRoot\b|\$env:\w+/, 4),
+            sig(/\[(string|int|switch|bool|array)\]\s*\$/i, 4),
+            sig(/^[^\S\n]*param\s*\(/mi, 3),
+            sig(/\$\w+\s*=[^=]/, 1),
+        ],
+    },
+};
+
+/**
+ * Interpreters named in a shebang line
+ */
+const SHEBANG_LANGUAGES: Record<string, SupportedLanguage> = {
+    python: 'python',
+    node: 'javascript',
+    deno: 'typescript',
+    'ts-node': 'typescript',
+    ruby: 'ruby',
+    php: 'php',
+    sh: 'bash',
+    bash: 'bash',
+    zsh: 'bash',
+    pwsh: 'powershell',
+};
+
+// ============================================
+// Detection
+// ============================================
+
+/**
+ * Certain matches from a paste's first line or overall shape
+ */
+function detectByStructure(sample: string, content: string): SupportedLanguage | null {
+    const shebang = sample.match(/^#!\s*(?:\S*\/)?([\w.-]+)(?:[^\S\n]+(?:-\S+[^\S\n]+)*([\w.-]+))?/);
+
+    if (shebang) {
+        // "#!/usr/bin/env python3" names the interpreter second; versions are dropped
+        const interpreter = (shebang[1] === 'env' ? shebang[2] : shebang[1])?.replace(/[\d.]+$/, '');
+        const language = interpreter && SHEBANG_LANGUAGES[interpreter];
+
+        if (language) {
+            return language;
+        }
+    }
+
+    if (/^<\?php\b/.test(sample)) {
+        return 'php';
+    }
+
+    if (/^<!DOCTYPE\s+html\b/i.test(sample)) {
+        return 'html';
+    }
+
+    if (/^<\?xml\b/.test(sample)) {
+        return 'xml';
+    }
+
+    // Only whole documents - a sample cut mid-way never parses
+    if (/^[{[]/.test(sample) && sample.length === content.length) {
+        try {
+            JSON.parse(content);
+            return 'json';
+        } catch {
+            // Not JSON after all - fall through to keywords
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Score every language's signatures against the sample
+ */
+function scoreLanguages(sample: string): Map<SupportedLanguage, number> {
+    const own = new Map<SupportedLanguage, number>();
+
+    for (const [language, rules] of Object.entries(RULES) as [SupportedLanguage, LanguageRules][]) {
+        const score = rules.signatures.reduce(
+            (total, { pattern, weight }) => total + (pattern.test(sample) ? weight : 0),
+            0
+        );
+
+        if (score > 0) {
+            own.set(language, score);
+        }
+    }
+
+    const scores = new Map(own);
+
+    for (const [language, score] of own) {
+        const parent = RULES[language]?.extends;
+
+        if (parent) {
+            scores.set(language, score + (own.get(parent) ?? 0));
+        }
+    }
+
+    return scores;
+}
+
+/**
+ * Guess a paste's language
+ * Confidence combines how strong the best match is with how far it leads the
+ * runner-up. Returns null when nothing matched at all.
+ */
+export function detectLanguage(content: string): LanguageDetection | null {
+    const sample = content.trim().slice(0, SAMPLE_SIZE);
+
+    if (!sample) {
+        return null;
+    }
+
+    const structural = detectByStructure(sample, content.trim());
+
+    if (structural) {
+        return { language: structural, confidence: 1, confident: true };
+    }
+
+    const ranked = [...scoreLanguages(sample)].sort((a, b) => b[1] - a[1]);
+
+    if (ranked.length === 0) {
+        return null;
+    }
+
+    const [language, best] = ranked[0];
+
+    // A superset's parent always trails it - it isn't a competing guess
+    const parent = RULES[language]?.extends;
+    const runnerUp = ranked.find(([other]) => other !== language && other !== parent)?.[1] ?? 0;
+
+    const lead = best / (best + runnerUp);
+    const strength = Math.min(1, best / STRONG_SCORE);
+    const confidence = Math.round(lead * strength * 100) / 100;
+
+    return {
+        language,
+        confidence,
+        confident: confidence >= MIN_DETECTION_CONFIDENCE,
+    };
+}
@@ -0,0 +1,212 @@
+/**
+ * Line diff for Pastebin API
+ * Myers O((N+M)D) diff producing a structured, line-numbered result
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type DiffLineType = 'equal' | 'insert' | 'delete';
+
+export interface DiffLine {
+    type: DiffLineType;
+    oldNumber: number | null; // 1-based line in the old text
+    newNumber: number | null; // 1-based line in the new text
+    content: string;
+}
+
+export interface DiffResult {
+    lines: DiffLine[];
+    stats: {
+        additions: number;
+        deletions: number;
+        unchanged: number;
+    };
+}
+
+/**
+ * Thrown when two texts differ too much to diff within limits
+ */
+export class DiffTooLargeError extends Error {
+    constructor(message = 'Texts differ too much to compare') {
+        super(message);
+        this.name = 'DiffTooLargeError';
+    }
+}
+
+// ============================================
+// Limits
+// ============================================
+
+/**
+ * Maximum number of inserted + deleted lines (bounds time and memory)
+ */
+export const MAX_EDIT_DISTANCE = 4000;
+
+// ============================================
+// Diff
+// ============================================
+
+/**
+ * Split text into lines, treating CRLF and LF alike
+ */
+function splitLines(text: string): string[] {
+    return text.length === 0 ? [] : text.split(/\r?\n/);
+}
+
+interface Snake {
+    x0: number;
+    y0: number;
+    x: number;
+    y: number;
+}
+
+/**
+ * Find the middle snake of a shortest edit path between a[aLo, aHi) and
+ * b[bLo, bHi) by searching forward from the start and backward from the end
+ * until the two frontiers overlap. Both ends must differ and neither range be empty
+ */
+function middleSnake(a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number): Snake {
+    const n = aHi - aLo;
+    const m = bHi - bLo;
+    const delta = n - m;
+    const odd = (delta & 1) === 1;
+    const max = Math.ceil(Math.min(n + m, MAX_EDIT_DISTANCE) / 2);
+    const offset = max + 1;
+    const forward = new Int32Array(2 * max + 3);
+    const backward = new Int32Array(2 * max + 3);
+
+    for (let d = 0; d <= max; d++) {
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+                ? forward[offset + k + 1]
+                : forward[offset + k - 1] + 1;
+            let y = x - k;
+            const x0 = x;
+            const y0 = y;
+
+            while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+                x++;
+                y++;
+            }
+
+            forward[offset + k] = x;
+
+            // The backward diagonal this one meets, if it was searched last round
+            const c = delta - k;
+            if (odd && c >= -(d - 1) && c <= d - 1 && x + backward[offset + c] >= n) {
+                return { x0: aLo + x0, y0: bLo + y0, x: aLo + x, y: bLo + y };
+            }
+        }
+
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+                ? backward[offset + k + 1]
+                : backward[offset + k - 1] + 1;
+            let y = x - k;
+            const x0 = x;
+            const y0 = y;
+
+            while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+                x++;
+                y++;
+            }
+
+            backward[offset + k] = x;
+
+            const c = delta - k;
+            if (!odd && c >= -d && c <= d && x + forward[offset + c] >= n) {
+                return { x0: aHi - x, y0: bHi - y, x: aHi - x0, y: bHi - y0 };
+            }
+        }
+    }
+
+    throw new DiffTooLargeError();
+}
+
+/**
+ * Append the shortest edit script from a[aLo, aHi) to b[bLo, bHi) to ops
+ * Linear-space Myers: split at the middle snake and recurse on either side,
+ * so memory stays proportional to the texts rather than to their distance squared
+ */
+function diffRange(
+    a: string[],
+    aLo: number,
+    aHi: number,
+    b: string[],
+    bLo: number,
+    bHi: number,
+    ops: DiffLineType[]
+): void {
+    while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+        ops.push('equal');
+        aLo++;
+        bLo++;
+    }
+
+    let suffix = 0;
+    while (aLo < aHi && bLo < bHi && a[aHi - 1] === b[bHi - 1]) {
+        aHi--;
+        bHi--;
+        suffix++;
+    }
+
+    if (aLo === aHi) {
+        for (let y = bLo; y < bHi; y++) {
+            ops.push('insert');
+        }
+    } else if (bLo === bHi) {
+        for (let x = aLo; x < aHi; x++) {
+            ops.push('delete');
+        }
+    } else {
+        const snake = middleSnake(a, aLo, aHi, b, bLo, bHi);
+
+        diffRange(a, aLo, snake.x0, b, bLo, snake.y0, ops);
+        for (let x = snake.x0; x < snake.x; x++) {
+            ops.push('equal');
+        }
+        diffRange(a, snake.x, aHi, b, snake.y, bHi, ops);
+    }
+
+    for (let i = 0; i < suffix; i++) {
+        ops.push('equal');
+    }
+}
+
+/**
+ * Diff two texts line by line
+ * Throws DiffTooLargeError when the edit distance exceeds MAX_EDIT_DISTANCE
+ */
+export function diffLines(oldText: string, newText: string): DiffResult {
+    const a = splitLines(oldText);
+    const b = splitLines(newText);
+
+    const ops: DiffLineType[] = [];
+    diffRange(a, 0, a.length, b, 0, b.length, ops);
+
+    const lines: DiffLine[] = [];
+    const stats = { additions: 0, deletions: 0, unchanged: 0 };
+    let oldIndex = 0;
+    let newIndex = 0;
+
+    for (const type of ops) {
+        if (type === 'equal') {
+            lines.push({ type, oldNumber: oldIndex + 1, newNumber: newIndex + 1, content: a[oldIndex] });
+            oldIndex++;
+            newIndex++;
+            stats.unchanged++;
+        } else if (type === 'delete') {
+            lines.push({ type, oldNumber: oldIndex + 1, newNumber: null, content: a[oldIndex] });
+            oldIndex++;
+            stats.deletions++;
+        } else {
+            lines.push({ type, oldNumber: null, newNumber: newIndex + 1, content: b[newIndex] });
+            newIndex++;
+            stats.additions++;
+        }
+    }
+
+    return { lines, stats };
+}
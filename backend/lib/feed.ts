@@ -0,0 +1,188 @@
+/**
+ * Recent public pastes and their Atom/RSS feeds
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { isExpired, escapeXml } from './utils';
+import { RecentPaste, RecentPastesResponse } from './types';
+
+/**
+ * Characters of content shown per paste in listings and feed entries
+ */
+const PREVIEW_LENGTH = 500;
+
+// ============================================
+// Cursors
+// ============================================
+
+/**
+ * Cursors point just past the last paste returned: its creation time plus its ID
+ * to break ties. Unlike an offset, new pastes don't shift later pages.
+ */
+function encodeCursor(paste: { createdAt: Date; id: string }): string {
+    return Buffer.from(`${paste.createdAt.toISOString()}|${paste.id}`).toString('base64url');
+}
+
+/**
+ * Returns null for a cursor that wasn't produced by encodeCursor
+ */
+export function decodeCursor(cursor: string): { createdAt: Date; id: string } | null {
+    const [timestamp, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+    const createdAt = new Date(timestamp);
+
+    if (!id || Number.isNaN(createdAt.getTime())) {
+        return null;
+    }
+
+    return { createdAt, id };
+}
+
+// ============================================
+// Query
+// ============================================
+
+/**
+ * List public pastes, newest first
+ * Pastes a preview would expose too much of - encrypted, password-protected or
+ * view-limited - are left out, matching search
+ */
+export async function findRecentPastes(options: {
+    limit: number;
+    cursor?: { createdAt: Date; id: string };
+    language?: string | null;
+}): Promise<RecentPastesResponse['data']> {
+    const { limit, cursor, language } = options;
+
+    const where: Prisma.PasteWhereInput = {
+        visibility: 'public',
+        isExpired: false,
+        isEncrypted: false,
+        passwordHash: null,
+        maxViews: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        ...(language && { language }),
+        ...(cursor && {
+            AND: {
+                OR: [
+                    { createdAt: { lt: cursor.createdAt } },
+                    { createdAt: cursor.createdAt, id: { lt: cursor.id } },
+                ],
+            },
+        }),
+    };
+
+    // One extra row tells us whether there's another page
+    const rows = await prisma.paste.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        select: {
+            id: true,
+            language: true,
+            createdAt: true,
+            expiresAt: true,
+            maxViews: true,
+            viewCount: true,
+            isExpired: true,
+        },
+    });
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const live = page.filter(paste => !isExpired(paste));
+
+    // Only the start of each paste is needed - don't load whole contents
+    const previews = new Map<string, string>();
+
+    if (live.length > 0) {
+        const previewRows = await prisma.$queryRaw<{ id: string; preview: string }[]>`
+            SELECT "id", LEFT("content", ${PREVIEW_LENGTH}) AS "preview"
+            FROM "Paste"
+            WHERE "id" IN (${Prisma.join(live.map(paste => paste.id))})
+        `;
+
+        for (const row of previewRows) {
+            previews.set(row.id, row.preview);
+        }
+    }
+
+    return {
+        items: live.map(paste => ({
+            id: paste.id,
+            language: paste.language,
+            createdAt: paste.createdAt,
+            preview: previews.get(paste.id) ?? '',
+        })),
+        nextCursor: rows.length > limit && last ? encodeCursor(last) : null,
+    };
+}
+
+// ============================================
+// Feed Builders
+// ============================================
+
+export interface FeedOptions {
+    title: string;
+    feedUrl: string;  // where this feed is served
+    siteUrl: string;  // frontend home page
+    pasteUrl: (id: string) => string;
+    updated: Date;
+}
+
+/**
+ * Entry title - the first non-empty line of the paste, shortened
+ */
+function entryTitle(paste: RecentPaste): string {
+    const firstLine = paste.preview.split('\n').find(line => line.trim())?.trim() ?? paste.id;
+    const title = firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine;
+    return paste.language ? `[${paste.language}] ${title}` : title;
+}
+
+export function buildAtomFeed(pastes: RecentPaste[], options: FeedOptions): string {
+    const entries = pastes.map(paste => `  <entry>
+    <id>${escapeXml(options.pasteUrl(paste.id))}</id>
+    <title>${escapeXml(entryTitle(paste))}</title>
+    <link rel="alternate" href="${escapeXml(options.pasteUrl(paste.id))}"/>
+    <updated>${paste.createdAt.toISOString()}</updated>
+    <published>${paste.createdAt.toISOString()}</published>${paste.language ? `
+    <category term="${escapeXml(paste.language)}"/>` : ''}
+    <content type="text">${escapeXml(paste.preview)}</content>
+  </entry>`);
+
+    return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(options.feedUrl)}</id>
+  <title>${escapeXml(options.title)}</title>
+  <link rel="self" href="${escapeXml(options.feedUrl)}"/>
+  <link rel="alternate" href="${escapeXml(options.siteUrl)}"/>
+  <updated>${options.updated.toISOString()}</updated>
+  <author><name>Pastebin</name></author>
+${entries.join('\n')}
+</feed>
+`;
+}
+
+export function buildRssFeed(pastes: RecentPaste[], options: FeedOptions): string {
+    const items = pastes.map(paste => `    <item>
+      <title>${escapeXml(entryTitle(paste))}</title>
+      <link>${escapeXml(options.pasteUrl(paste.id))}</link>
+      <guid isPermaLink="true">${escapeXml(options.pasteUrl(paste.id))}</guid>
+      <pubDate>${paste.createdAt.toUTCString()}</pubDate>${paste.language ? `
+      <category>${escapeXml(paste.language)}</category>` : ''}
+      <description>${escapeXml(paste.preview)}</description>
+    </item>`);
+
+    return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(options.title)}</title>
+    <link>${escapeXml(options.siteUrl)}</link>
+    <description>Recently shared public pastes</description>
+    <atom:link href="${escapeXml(options.feedUrl)}" rel="self" type="application/rss+xml"/>
+    <lastBuildDate>${options.updated.toUTCString()}</lastBuildDate>
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+}
@@ -0,0 +1,252 @@
+/**
+ * Language Registry
+ * The one list of paste languages - served to the frontend by GET /api/languages
+ */
+
+// ============================================
+// Supported Languages
+// ============================================
+
+export const SUPPORTED_LANGUAGES = [
+    'text',
+    'javascript',
+    'typescript',
+    'python',
+    'java',
+    'cpp',
+    'c',
+    'csharp',
+    'go',
+    'rust',
+    'ruby',
+    'php',
+    'swift',
+    'kotlin',
+    'html',
+    'css',
+    'scss',
+    'json',
+    'xml',
+    'yaml',
+    'markdown',
+    'sql',
+    'bash',
+    'powershell',
+] as const;
+
+export type SupportedLanguage = typeof SUPPORTED_LANGUAGES[number];
+
+export interface LanguageInfo {
+    id: SupportedLanguage;
+    name: string;          // display name
+    extensions: string[];  // first one is used for downloads
+    mimeType: string;
+    prism: string;         // Prism grammar name
+    aliases: string[];     // other names accepted on input
+}
+
+type LanguageDefinition = Omit<LanguageInfo, 'id'>;
+
+/**
+ * Keyed by ID so adding a language to SUPPORTED_LANGUAGES without describing it
+ * fails to compile
+ */
+const DEFINITIONS: Record<SupportedLanguage, LanguageDefinition> = {
+    text: {
+        name: 'Plain Text',
+        extensions: ['txt', 'text', 'log'],
+        mimeType: 'text/plain',
+        prism: 'plain',
+        aliases: ['plain', 'plaintext', 'txt', 'none'],
+    },
+    javascript: {
+        name: 'JavaScript',
+        extensions: ['js', 'mjs', 'cjs', 'jsx'],
+        mimeType: 'text/javascript',
+        prism: 'javascript',
+        aliases: ['js', 'jsx', 'node', 'nodejs'],
+    },
+    typescript: {
+        name: 'TypeScript',
+        extensions: ['ts', 'mts', 'cts', 'tsx'],
+        mimeType: 'application/typescript',
+        prism: 'typescript',
+        aliases: ['ts', 'tsx'],
+    },
+    python: {
+        name: 'Python',
+        extensions: ['py', 'pyw', 'pyi'],
+        mimeType: 'text/x-python',
+        prism: 'python',
+        aliases: ['py', 'py3', 'python3'],
+    },
+    java: {
+        name: 'Java',
+        extensions: ['java'],
+        mimeType: 'text/x-java-source',
+        prism: 'java',
+        aliases: [],
+    },
+    cpp: {
+        name: 'C++',
+        extensions: ['cpp', 'cc', 'cxx', 'hpp', 'hh', 'hxx'],
+        mimeType: 'text/x-c++src',
+        prism: 'cpp',
+        aliases: ['c++', 'cxx', 'cc'],
+    },
+    c: {
+        name: 'C',
+        extensions: ['c', 'h'],
+        mimeType: 'text/x-csrc',
+        prism: 'c',
+        aliases: [],
+    },
+    csharp: {
+        name: 'C#',
+        extensions: ['cs', 'csx'],
+        mimeType: 'text/x-csharp',
+        prism: 'csharp',
+        aliases: ['c#', 'cs', 'dotnet'],
+    },
+    go: {
+        name: 'Go',
+        extensions: ['go'],
+        mimeType: 'text/x-go',
+        prism: 'go',
+        aliases: ['golang'],
+    },
+    rust: {
+        name: 'Rust',
+        extensions: ['rs'],
+        mimeType: 'text/x-rust',
+        prism: 'rust',
+        aliases: ['rs'],
+    },
+    ruby: {
+        name: 'Ruby',
+        extensions: ['rb', 'rake', 'gemspec'],
+        mimeType: 'text/x-ruby',
+        prism: 'ruby',
+        aliases: ['rb'],
+    },
+    php: {
+        name: 'PHP',
+        extensions: ['php', 'phtml'],
+        mimeType: 'application/x-httpd-php',
+        prism: 'php',
+        aliases: [],
+    },
+    swift: {
+        name: 'Swift',
+        extensions: ['swift'],
+        mimeType: 'text/x-swift',
+        prism: 'swift',
+        aliases: [],
+    },
+    kotlin: {
+        name: 'Kotlin',
+        extensions: ['kt', 'kts'],
+        mimeType: 'text/x-kotlin',
+        prism: 'kotlin',
+        aliases: ['kt', 'kts'],
+    },
+    html: {
+        name: 'HTML',
+        extensions: ['html', 'htm', 'xhtml'],
+        mimeType: 'text/html',
+        prism: 'markup',
+        aliases: ['htm', 'xhtml'],
+    },
+    css: {
+        name: 'CSS',
+        extensions: ['css'],
+        mimeType: 'text/css',
+        prism: 'css',
+        aliases: [],
+    },
+    scss: {
+        name: 'SCSS',
+        extensions: ['scss'],
+        mimeType: 'text/x-scss',
+        prism: 'scss',
+        aliases: [],
+    },
+    json: {
+        name: 'JSON',
+        extensions: ['json', 'jsonc', 'webmanifest'],
+        mimeType: 'application/json',
+        prism: 'json',
+        aliases: ['jsonc'],
+    },
+    xml: {
+        name: 'XML',
+        extensions: ['xml', 'svg', 'xsd', 'xsl', 'plist'],
+        mimeType: 'application/xml',
+        prism: 'markup',
+        aliases: ['svg', 'xsl'],
+    },
+    yaml: {
+        name: 'YAML',
+        extensions: ['yaml', 'yml'],
+        mimeType: 'application/yaml',
+        prism: 'yaml',
+        aliases: ['yml'],
+    },
+    markdown: {
+        name: 'Markdown',
+        extensions: ['md', 'markdown'],
+        mimeType: 'text/markdown',
+        prism: 'markdown',
+        aliases: ['md'],
+    },
+    sql: {
+        name: 'SQL',
+        extensions: ['sql'],
+        mimeType: 'application/sql',
+        prism: 'sql',
+        aliases: ['postgres', 'postgresql', 'mysql', 'sqlite', 'plsql'],
+    },
+    bash: {
+        name: 'Bash',
+        extensions: ['sh', 'bash', 'zsh'],
+        mimeType: 'application/x-sh',
+        prism: 'bash',
+        aliases: ['sh', 'shell', 'zsh'],
+    },
+    powershell: {
+        name: 'PowerShell',
+        extensions: ['ps1', 'psm1', 'psd1'],
+        mimeType: 'application/x-powershell',
+        prism: 'powershell',
+        aliases: ['ps1', 'pwsh', 'posh'],
+    },
+};
+
+/**
+ * Full registry, in display order
+ */
+export const LANGUAGES: readonly LanguageInfo[] = SUPPORTED_LANGUAGES.map(id => ({
+    id,
+    ...DEFINITIONS[id],
+}));
+
+// ============================================
+// Lookup
+// ============================================
+
+const BY_NAME = new Map<string, SupportedLanguage>();
+
+for (const language of LANGUAGES) {
+    BY_NAME.set(language.id, language.id);
+
+    for (const alias of language.aliases) {
+        BY_NAME.set(alias, language.id);
+    }
+}
+
+/**
+ * Map a language ID or alias (any case) to its ID, or null if unknown
+ */
+export function resolveLanguage(name: string): SupportedLanguage | null {
+    return BY_NAME.get(name.toLowerCase().trim()) ?? null;
+}
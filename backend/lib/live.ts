@@ -0,0 +1,475 @@
+/**
+ * Live Sessions
+ * A shared document several people edit at once over a WebSocket. The server
+ * keeps the authoritative text: each incoming operation is transformed against
+ * the ones its author hadn't seen yet, applied, acknowledged to the author and
+ * relayed to everyone else. Sessions are held in this instance's memory, so the
+ * API must run as one long-lived process - serverless deployments turn them off.
+ */
+
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { prisma } from './prisma';
+import { verifyToken } from './security';
+import { generatePasteId, MAX_CONTENT_SIZE } from './utils';
+import {
+    TextOperation,
+    TextSelection,
+    OperationError,
+    applyOperation,
+    transform,
+    transformSelection,
+} from './ot';
+import { LiveMessage, LiveMessageSchema, LiveSocketQuerySchema, validateRequest } from './validation';
+import { LiveParticipant } from './types';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const MAX_LIVE_SESSIONS = 200;
+export const MAX_PARTICIPANTS = 20;
+
+// Open sessions one client (user or IP) may have started
+export const MAX_SESSIONS_PER_CLIENT = 5;
+
+// Operations kept for transforming late arrivals - older clients must reconnect
+const HISTORY_LIMIT = 500;
+
+// Sessions nobody is connected to are dropped after this long
+const IDLE_TTL_MS = 60 * 60 * 1000;
+
+// ...or this soon, if nobody ever joined
+const UNJOINED_TTL_MS = 10 * 60 * 1000;
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Per connection: at most this many messages per window
+const MESSAGE_LIMIT = 200;
+const MESSAGE_WINDOW_MS = 10 * 1000;
+
+const PARTICIPANT_COLORS = ['#4fc3f7', '#f06292', '#aed581', '#ffb74d', '#ba68c8', '#4db6ac', '#e57373', '#fff176'];
+
+const SOCKET_PATH = /^\/api\/live\/([a-zA-Z0-9]{1,20})\/socket$/;
+
+// Close codes the frontend reacts to - 4000+ are free for applications
+export const CloseCodes = {
+    RESYNC: 4000,        // client state can't be reconciled; reconnect for a fresh copy
+    INVALID_MESSAGE: 4001,
+    TOO_MANY_MESSAGES: 4002,
+} as const;
+
+// ============================================
+// Session Store
+// ============================================
+
+interface Connection extends LiveParticipant {
+    socket: WebSocket;
+    alive: boolean;
+    messages: { count: number; windowStart: number };
+}
+
+export interface LiveSession {
+    id: string;
+    content: string;
+    language: string | null;
+    revision: number;
+    history: TextOperation[]; // the last operations, ending at revision
+    connections: Map<string, Connection>;
+    guests: number; // numbers unnamed participants
+    createdBy: string; // the starting client, for MAX_SESSIONS_PER_CLIENT
+    joined: boolean; // someone has connected at least once
+    createdAt: Date;
+    lastActiveAt: number;
+}
+
+/**
+ * Thrown when this instance already holds MAX_LIVE_SESSIONS sessions, or the
+ * client already has MAX_SESSIONS_PER_CLIENT open
+ */
+export class LiveSessionLimitError extends Error {
+    constructor(readonly scope: 'instance' | 'client') {
+        super(scope === 'client'
+            ? `You already have ${MAX_SESSIONS_PER_CLIENT} live sessions open - end one or wait for it to expire`
+            : 'Too many live sessions are open - try again later');
+        this.name = 'LiveSessionLimitError';
+    }
+}
+
+/**
+ * Live sessions need a WebSocket held open by a long-running server. Serverless
+ * platforms (Vercel) can't hold one, and LIVE_SESSIONS=off turns them off anywhere
+ */
+export function isLiveSessionsEnabled(): boolean {
+    return !process.env.VERCEL && process.env.LIVE_SESSIONS?.trim().toLowerCase() !== 'off';
+}
+
+const sessions = new Map<string, LiveSession>();
+
+/**
+ * Start a session for a client - a user ID or an IP address
+ */
+export function createLiveSession(content: string, language: string | null, createdBy: string): LiveSession {
+    if (sessions.size >= MAX_LIVE_SESSIONS) {
+        throw new LiveSessionLimitError('instance');
+    }
+
+    const open = [...sessions.values()].filter(session => session.createdBy === createdBy).length;
+
+    if (open >= MAX_SESSIONS_PER_CLIENT) {
+        throw new LiveSessionLimitError('client');
+    }
+
+    const session: LiveSession = {
+        id: generatePasteId(),
+        content,
+        language,
+        revision: 0,
+        history: [],
+        connections: new Map(),
+        guests: 0,
+        createdBy,
+        joined: false,
+        createdAt: new Date(),
+        lastActiveAt: Date.now(),
+    };
+
+    sessions.set(session.id, session);
+    return session;
+}
+
+export function findLiveSession(id: string): LiveSession | null {
+    return sessions.get(id) ?? null;
+}
+
+export function getParticipants(session: LiveSession): LiveParticipant[] {
+    return [...session.connections.values()].map(toParticipant);
+}
+
+function toParticipant({ id, name, color, selection }: Connection): LiveParticipant {
+    return { id, name, color, selection };
+}
+
+// ============================================
+// Protocol
+// ============================================
+
+/**
+ * Messages the server sends over the session socket
+ */
+export type LiveServerMessage =
+    | {
+        type: 'welcome';
+        clientId: string;
+        revision: number;
+        content: string;
+        language: string | null;
+        participants: LiveParticipant[];
+    }
+    | { type: 'ack'; revision: number }
+    | { type: 'operation'; clientId: string; revision: number; operation: TextOperation; selection: TextSelection | null }
+    | { type: 'selection'; clientId: string; selection: TextSelection | null }
+    | { type: 'language'; clientId: string; language: string | null }
+    | { type: 'snapshot'; clientId: string; pasteId: string }
+    | { type: 'join'; participant: LiveParticipant }
+    | { type: 'leave'; clientId: string };
+
+function send(connection: Connection, message: LiveServerMessage): void {
+    if (connection.socket.readyState === WebSocket.OPEN) {
+        connection.socket.send(JSON.stringify(message));
+    }
+}
+
+function broadcast(session: LiveSession, message: LiveServerMessage, except?: Connection): void {
+    for (const connection of session.connections.values()) {
+        if (connection !== except) {
+            send(connection, message);
+        }
+    }
+}
+
+/**
+ * Operations the client hadn't seen when it sent something at this revision,
+ * or null when they have already left the history
+ */
+function concurrentOperations(session: LiveSession, revision: number): TextOperation[] | null {
+    const historyStart = session.revision - session.history.length;
+
+    if (revision < historyStart || revision > session.revision) {
+        return null;
+    }
+
+    return session.history.slice(revision - historyStart);
+}
+
+function handleOperation(
+    session: LiveSession,
+    connection: Connection,
+    message: Extract<LiveMessage, { type: 'operation' }>
+): void {
+    const concurrent = concurrentOperations(session, message.revision);
+
+    if (!concurrent) {
+        connection.socket.close(CloseCodes.RESYNC, 'Out of date - reconnect to catch up');
+        return;
+    }
+
+    let operation = message.operation;
+    let selection = message.selection ?? null;
+
+    for (const applied of concurrent) {
+        const [transformed, appliedPrime] = transform(operation, applied);
+        operation = transformed;
+        selection = selection && transformSelection(selection, appliedPrime);
+    }
+
+    const content = applyOperation(session.content, operation);
+
+    if (content.length > MAX_CONTENT_SIZE) {
+        connection.socket.close(CloseCodes.RESYNC, `Content must not exceed ${MAX_CONTENT_SIZE / 1024}KB`);
+        return;
+    }
+
+    session.content = content;
+    session.revision += 1;
+    session.history.push(operation);
+    if (session.history.length > HISTORY_LIMIT) {
+        session.history.shift();
+    }
+
+    // Keep everyone's cursor on the same text it was on
+    for (const other of session.connections.values()) {
+        other.selection = other === connection
+            ? selection
+            : other.selection && transformSelection(other.selection, operation);
+    }
+
+    send(connection, { type: 'ack', revision: session.revision });
+    broadcast(
+        session,
+        { type: 'operation', clientId: connection.id, revision: session.revision, operation, selection },
+        connection
+    );
+}
+
+/**
+ * Relay a snapshot only when the sender created that paste during this session,
+ * so nobody can pass another paste off as one
+ */
+async function announceSnapshot(
+    session: LiveSession,
+    connection: Connection,
+    message: Extract<LiveMessage, { type: 'snapshot' }>
+): Promise<void> {
+    const paste = await prisma.paste.findUnique({
+        where: { id: message.pasteId },
+        select: { ownerTokenHash: true, createdAt: true },
+    });
+
+    if (
+        !paste?.ownerTokenHash ||
+        paste.createdAt < session.createdAt ||
+        !verifyToken(message.ownerToken, paste.ownerTokenHash)
+    ) {
+        connection.socket.close(CloseCodes.INVALID_MESSAGE, 'Snapshots must be pastes you created in this session');
+        return;
+    }
+
+    broadcast(session, { type: 'snapshot', clientId: connection.id, pasteId: message.pasteId }, connection);
+}
+
+function handleMessage(session: LiveSession, connection: Connection, data: RawData): void {
+    const now = Date.now();
+
+    if (now - connection.messages.windowStart > MESSAGE_WINDOW_MS) {
+        connection.messages = { count: 0, windowStart: now };
+    }
+
+    if (++connection.messages.count > MESSAGE_LIMIT) {
+        connection.socket.close(CloseCodes.TOO_MANY_MESSAGES, 'Too many messages - slow down');
+        return;
+    }
+
+    let parsed: unknown;
+
+    try {
+        parsed = JSON.parse(data.toString());
+    } catch {
+        connection.socket.close(CloseCodes.INVALID_MESSAGE, 'Messages must be JSON');
+        return;
+    }
+
+    const validation = validateRequest(LiveMessageSchema, parsed);
+
+    if (!validation.success) {
+        connection.socket.close(CloseCodes.INVALID_MESSAGE, validation.errors.join(', ').slice(0, 120));
+        return;
+    }
+
+    const message = validation.data;
+    session.lastActiveAt = now;
+
+    switch (message.type) {
+        case 'operation':
+            try {
+                handleOperation(session, connection, message);
+            } catch (error) {
+                if (!(error instanceof OperationError)) throw error;
+                connection.socket.close(CloseCodes.RESYNC, 'Operation does not fit the document - reconnect');
+            }
+            return;
+
+        case 'selection': {
+            const concurrent = concurrentOperations(session, message.revision);
+            if (!concurrent) return; // stale cursor - a newer one will follow
+
+            connection.selection = concurrent.reduce<TextSelection | null>(
+                (selection, applied) => selection && transformSelection(selection, applied),
+                message.selection
+            );
+            broadcast(session, { type: 'selection', clientId: connection.id, selection: connection.selection }, connection);
+            return;
+        }
+
+        case 'language':
+            session.language = message.language;
+            broadcast(session, { type: 'language', clientId: connection.id, language: message.language }, connection);
+            return;
+
+        case 'snapshot':
+            announceSnapshot(session, connection, message).catch((error) => {
+                console.error('Live session snapshot error:', error);
+            });
+            return;
+    }
+}
+
+// ============================================
+// Connections
+// ============================================
+
+function join(session: LiveSession, socket: WebSocket, name: string | null): void {
+    const connection: Connection = {
+        id: generatePasteId(),
+        name: name ?? `Guest ${++session.guests}`,
+        color: PARTICIPANT_COLORS[session.connections.size % PARTICIPANT_COLORS.length],
+        selection: null,
+        socket,
+        alive: true,
+        messages: { count: 0, windowStart: Date.now() },
+    };
+
+    send(connection, {
+        type: 'welcome',
+        clientId: connection.id,
+        revision: session.revision,
+        content: session.content,
+        language: session.language,
+        participants: getParticipants(session),
+    });
+
+    session.connections.set(connection.id, connection);
+    session.joined = true;
+    session.lastActiveAt = Date.now();
+    broadcast(session, { type: 'join', participant: toParticipant(connection) }, connection);
+
+    socket.on('pong', () => {
+        connection.alive = true;
+    });
+
+    socket.on('message', (data) => {
+        try {
+            handleMessage(session, connection, data);
+        } catch (error) {
+            console.error('Live session message error:', error);
+            socket.close(CloseCodes.RESYNC, 'Internal error - reconnect');
+        }
+    });
+
+    socket.on('close', () => {
+        session.connections.delete(connection.id);
+        session.lastActiveAt = Date.now();
+        broadcast(session, { type: 'leave', clientId: connection.id });
+    });
+
+    socket.on('error', (error) => {
+        console.error('Live session socket error:', error);
+    });
+}
+
+/**
+ * Browsers send an Origin on WebSocket upgrades; CORS doesn't cover them, so
+ * check it against CORS_ORIGIN here. Clients without one (CLIs) are allowed
+ */
+function isAllowedOrigin(origin: string | undefined): boolean {
+    const allowed = process.env.CORS_ORIGIN;
+    return !origin || !allowed || allowed === '*' || origin === allowed;
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+    socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+/**
+ * Serve live session sockets at /api/live/:id/socket?name= on the HTTP server
+ */
+export function attachLiveSessions(server: Server): void {
+    const wss = new WebSocketServer({ noServer: true, maxPayload: 2 * MAX_CONTENT_SIZE });
+
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const match = url.pathname.match(SOCKET_PATH);
+
+        if (!match) {
+            return rejectUpgrade(socket, 404, 'Not Found');
+        }
+
+        if (!isAllowedOrigin(req.headers.origin)) {
+            return rejectUpgrade(socket, 403, 'Forbidden');
+        }
+
+        const session = findLiveSession(match[1]);
+
+        if (!session) {
+            return rejectUpgrade(socket, 404, 'Not Found');
+        }
+
+        if (session.connections.size >= MAX_PARTICIPANTS) {
+            return rejectUpgrade(socket, 503, 'Service Unavailable');
+        }
+
+        const query = validateRequest(LiveSocketQuerySchema, Object.fromEntries(url.searchParams));
+
+        if (!query.success) {
+            return rejectUpgrade(socket, 400, 'Bad Request');
+        }
+
+        wss.handleUpgrade(req, socket, head, (ws) => join(session, ws, query.data.name));
+    });
+
+    // Drop dead connections, then sessions nobody has used for a while
+    const timer = setInterval(() => {
+        const now = Date.now();
+
+        for (const session of sessions.values()) {
+            for (const connection of session.connections.values()) {
+                if (!connection.alive) {
+                    connection.socket.terminate();
+                    continue;
+                }
+                connection.alive = false;
+                connection.socket.ping();
+            }
+
+            const ttl = session.joined ? IDLE_TTL_MS : UNJOINED_TTL_MS;
+
+            if (session.connections.size === 0 && now - session.lastActiveAt > ttl) {
+                sessions.delete(session.id);
+            }
+        }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    timer.unref();
+    server.on('close', () => clearInterval(timer));
+}
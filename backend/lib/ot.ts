@@ -0,0 +1,243 @@
+/**
+ * Operational Transformation
+ * Plain-text operations for live sessions, in the ot.js format: a list of
+ * retains (positive counts), inserts (strings) and deletes (negative counts)
+ * that together span the whole document
+ */
+
+export type TextOperation = Array<number | string>;
+
+export interface TextSelection {
+    anchor: number;
+    head: number;
+}
+
+/**
+ * Thrown when an operation doesn't fit the document it is applied to
+ */
+export class OperationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'OperationError';
+    }
+}
+
+const isRetain = (component: number | string | undefined): component is number =>
+    typeof component === 'number' && component > 0;
+
+const isDelete = (component: number | string | undefined): component is number =>
+    typeof component === 'number' && component < 0;
+
+const isInsert = (component: number | string | undefined): component is string =>
+    typeof component === 'string';
+
+// ============================================
+// Building
+// ============================================
+
+/**
+ * Appends components to an operation, merging them the way ot.js does
+ * (inserts always go before an adjacent delete) so equal edits compare equal
+ */
+class OperationBuilder {
+    readonly ops: TextOperation = [];
+
+    retain(count: number): this {
+        if (count === 0) return this;
+
+        const last = this.ops.length - 1;
+        if (isRetain(this.ops[last])) {
+            (this.ops[last] as number) += count;
+        } else {
+            this.ops.push(count);
+        }
+        return this;
+    }
+
+    insert(text: string): this {
+        if (text === '') return this;
+
+        const last = this.ops.length - 1;
+        if (isInsert(this.ops[last])) {
+            this.ops[last] += text;
+        } else if (isDelete(this.ops[last])) {
+            if (isInsert(this.ops[last - 1])) {
+                this.ops[last - 1] += text;
+            } else {
+                this.ops.splice(last, 0, text);
+            }
+        } else {
+            this.ops.push(text);
+        }
+        return this;
+    }
+
+    delete(count: number): this {
+        if (count === 0) return this;
+
+        const length = -Math.abs(count);
+        const last = this.ops.length - 1;
+        if (isDelete(this.ops[last])) {
+            (this.ops[last] as number) += length;
+        } else {
+            this.ops.push(length);
+        }
+        return this;
+    }
+}
+
+// ============================================
+// Inspection
+// ============================================
+
+/**
+ * Structural check for operations arriving over the wire
+ */
+export function isTextOperation(value: unknown): value is TextOperation {
+    return Array.isArray(value) && value.every(component =>
+        (typeof component === 'string' && component !== '') ||
+        (Number.isSafeInteger(component) && component !== 0)
+    );
+}
+
+/**
+ * Length of the document the operation applies to
+ */
+export function baseLength(operation: TextOperation): number {
+    return operation.reduce<number>(
+        (length, component) => isInsert(component) ? length : length + Math.abs(component),
+        0
+    );
+}
+
+/**
+ * Length of the document the operation produces
+ */
+export function targetLength(operation: TextOperation): number {
+    return operation.reduce<number>((length, component) => {
+        if (isInsert(component)) return length + component.length;
+        if (isRetain(component)) return length + component;
+        return length;
+    }, 0);
+}
+
+export function isNoop(operation: TextOperation): boolean {
+    return operation.length === 0 || (operation.length === 1 && isRetain(operation[0]));
+}
+
+// ============================================
+// Applying
+// ============================================
+
+export function applyOperation(document: string, operation: TextOperation): string {
+    if (baseLength(operation) !== document.length) {
+        throw new OperationError('Operation does not match the document length');
+    }
+
+    let result = '';
+    let index = 0;
+
+    for (const component of operation) {
+        if (isRetain(component)) {
+            result += document.slice(index, index + component);
+            index += component;
+        } else if (isInsert(component)) {
+            result += component;
+        } else {
+            index -= component;
+        }
+    }
+
+    return result;
+}
+
+// ============================================
+// Transforming
+// ============================================
+
+/**
+ * Transform two concurrent operations on the same document so that
+ * apply(apply(doc, a), b') === apply(apply(doc, b), a')
+ * On a tie, a's inserts go first
+ */
+export function transform(a: TextOperation, b: TextOperation): [TextOperation, TextOperation] {
+    if (baseLength(a) !== baseLength(b)) {
+        throw new OperationError('Concurrent operations must share a base document');
+    }
+
+    const aPrime = new OperationBuilder();
+    const bPrime = new OperationBuilder();
+    let i = 0;
+    let j = 0;
+    let x = a[i];
+    let y = b[j];
+
+    while (x !== undefined || y !== undefined) {
+        if (isInsert(x)) {
+            aPrime.insert(x);
+            bPrime.retain(x.length);
+            x = a[++i];
+            continue;
+        }
+
+        if (isInsert(y)) {
+            aPrime.retain(y.length);
+            bPrime.insert(y);
+            y = b[++j];
+            continue;
+        }
+
+        if (x === undefined || y === undefined) {
+            throw new OperationError('Concurrent operations must share a base document');
+        }
+
+        // Both are now retains or deletes - consume the shorter of the two
+        const length = Math.min(Math.abs(x), Math.abs(y));
+
+        if (isRetain(x) && isRetain(y)) {
+            aPrime.retain(length);
+            bPrime.retain(length);
+        } else if (isDelete(x) && isRetain(y)) {
+            aPrime.delete(length);
+        } else if (isRetain(x) && isDelete(y)) {
+            bPrime.delete(length);
+        }
+        // Both deleted the same text - nothing left to do for either
+
+        x = Math.abs(x) === length ? a[++i] : Math.sign(x) * (Math.abs(x) - length);
+        y = Math.abs(y) === length ? b[++j] : Math.sign(y) * (Math.abs(y) - length);
+    }
+
+    return [aPrime.ops, bPrime.ops];
+}
+
+/**
+ * Where a cursor position ends up after an operation
+ * A cursor at an insert point moves past the inserted text
+ */
+export function transformPosition(position: number, operation: TextOperation): number {
+    let remaining = position;
+    let result = position;
+
+    for (const component of operation) {
+        if (isRetain(component)) {
+            remaining -= component;
+        } else if (isInsert(component)) {
+            result += component.length;
+        } else {
+            result -= Math.min(remaining, -component);
+            remaining += component;
+        }
+
+        if (remaining < 0) break;
+    }
+
+    return result;
+}
+
+export function transformSelection(selection: TextSelection, operation: TextOperation): TextSelection {
+    return {
+        anchor: transformPosition(selection.anchor, operation),
+        head: transformPosition(selection.head, operation),
+    };
+}
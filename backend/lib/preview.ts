@@ -0,0 +1,307 @@
+/**
+ * Link Previews
+ * Open Graph/Twitter card tags and oEmbed responses, so paste links unfurl
+ * with their language, size and opening lines instead of a generic card
+ */
+
+import { Paste } from '@prisma/client';
+import { prisma } from './prisma';
+import { isExpired, escapeXml, getFrontendUrl } from './utils';
+import { LANGUAGES } from './languages';
+import { PreviewCard } from './render';
+import { OEmbedResponse } from './types';
+
+export const PREVIEW_LINES = 10;
+
+const DESCRIPTION_LENGTH = 300;
+
+// ============================================
+// Paste Previews
+// ============================================
+
+/**
+ * Why a paste's content is left out of its preview
+ * limited covers burn-after-reading - an unfurl must never cost a view
+ */
+export type PreviewRestriction = 'encrypted' | 'password' | 'limited';
+
+export interface PastePreview {
+    id: string;
+    title: string;
+    description: string;
+    lineCount: number | null;  // null when restricted
+    restriction: PreviewRestriction | null;
+    card: PreviewCard;
+}
+
+/**
+ * Load a paste that may be previewed: it exists, isn't private and hasn't expired
+ * Never counts a view
+ */
+export async function findPreviewablePaste(id: string): Promise<Paste | null> {
+    const paste = await prisma.paste.findUnique({
+        where: { id },
+    });
+
+    if (!paste || paste.visibility === 'private' || isExpired(paste)) {
+        return null;
+    }
+
+    return paste;
+}
+
+function getRestriction(paste: Paste): PreviewRestriction | null {
+    if (paste.isEncrypted) return 'encrypted';
+    if (paste.passwordHash) return 'password';
+    if (paste.maxViews !== null) return 'limited';
+    return null;
+}
+
+function restrictionNotice(paste: Paste, restriction: PreviewRestriction): string {
+    switch (restriction) {
+        case 'encrypted':
+            return 'End-to-end encrypted';
+        case 'password':
+            return 'Password protected';
+        case 'limited':
+            return paste.maxViews === 1 ? 'Burn after reading' : `Limited to ${paste.maxViews} views`;
+    }
+}
+
+/**
+ * Describe a paste for link previews - content only when reading it is free and open
+ */
+export function buildPastePreview(paste: Paste): PastePreview {
+    const languageName = LANGUAGES.find(language => language.id === paste.language)?.name ?? 'Plain Text';
+    const restriction = getRestriction(paste);
+
+    if (restriction) {
+        const notice = restrictionNotice(paste, restriction);
+
+        return {
+            id: paste.id,
+            title: `${languageName} paste`,
+            description: `${notice} - open the link to read it.`,
+            lineCount: null,
+            restriction,
+            card: {
+                heading: languageName,
+                subheading: notice,
+                language: null,
+                excerpt: null,
+                notice: 'Open the link to read this paste',
+            },
+        };
+    }
+
+    const lines = paste.content.replace(/\r?\n$/, '').split(/\r?\n/);
+    const lineCount = lines.length;
+    const size = `${lineCount} ${lineCount === 1 ? 'line' : 'lines'}`;
+    const excerpt = lines.slice(0, PREVIEW_LINES).join('\n');
+
+    const summary = lines.filter(line => line.trim()).slice(0, PREVIEW_LINES).join('\n');
+    const description = summary.length > DESCRIPTION_LENGTH
+        ? `${summary.slice(0, DESCRIPTION_LENGTH - 3)}...`
+        : summary || 'Empty paste';
+
+    return {
+        id: paste.id,
+        title: `${languageName} paste - ${size}`,
+        description,
+        lineCount,
+        restriction: null,
+        card: { heading: languageName, subheading: size, language: paste.language, excerpt, notice: null },
+    };
+}
+
+// ============================================
+// Links
+// ============================================
+
+export interface PreviewLinks {
+    pageUrl: string;    // the paste page people open
+    imageUrl: string;   // preview card PNG
+    oembedUrl: string;
+    embedUrl: string;   // highlighted HTML for oEmbed iframes - never counts a view
+}
+
+export function getPreviewLinks(id: string, baseUrl: string): PreviewLinks {
+    const pageUrl = `${getFrontendUrl()}/paste/${id}`;
+
+    return {
+        pageUrl,
+        imageUrl: `${baseUrl}/paste/${id}/preview.png`,
+        oembedUrl: `${baseUrl}/oembed?url=${encodeURIComponent(pageUrl)}`,
+        embedUrl: `${baseUrl}/paste/${id}/embed.html`,
+    };
+}
+
+/**
+ * Paste ID from a paste page URL on one of the given origins, or null
+ */
+export function parsePasteUrl(url: string, origins: string[]): string | null {
+    let parsed: URL;
+
+    try {
+        parsed = new URL(url);
+    } catch {
+        return null;
+    }
+
+    if (!origins.includes(parsed.origin)) {
+        return null;
+    }
+
+    const match = parsed.pathname.match(/^\/paste\/([a-zA-Z0-9]{1,20})\/?$/);
+    return match ? match[1] : null;
+}
+
+// ============================================
+// Page Metadata
+// ============================================
+
+export const PREVIEW_IMAGE_WIDTH = 1200;
+export const PREVIEW_IMAGE_HEIGHT = 630;
+
+/**
+ * Title, Open Graph and Twitter card tags plus oEmbed discovery for a paste page
+ */
+export function buildMetaTags(preview: PastePreview, links: PreviewLinks): string {
+    const meta = (attribute: 'name' | 'property', key: string, value: string | number) =>
+        `<meta ${attribute}="${key}" content="${escapeXml(String(value))}" />`;
+
+    return [
+        `<title>${escapeXml(preview.title)}</title>`,
+        meta('name', 'description', preview.description),
+        `<link rel="canonical" href="${escapeXml(links.pageUrl)}" />`,
+        meta('property', 'og:site_name', 'Pastebin'),
+        meta('property', 'og:type', 'article'),
+        meta('property', 'og:title', preview.title),
+        meta('property', 'og:description', preview.description),
+        meta('property', 'og:url', links.pageUrl),
+        meta('property', 'og:image', links.imageUrl),
+        meta('property', 'og:image:width', PREVIEW_IMAGE_WIDTH),
+        meta('property', 'og:image:height', PREVIEW_IMAGE_HEIGHT),
+        meta('property', 'og:image:alt', preview.title),
+        meta('name', 'twitter:card', 'summary_large_image'),
+        meta('name', 'twitter:title', preview.title),
+        meta('name', 'twitter:description', preview.description),
+        meta('name', 'twitter:image', links.imageUrl),
+        `<link rel="alternate" type="application/json+oembed" href="${escapeXml(links.oembedUrl)}" title="${escapeXml(preview.title)}" />`,
+    ].join('\n    ');
+}
+
+/**
+ * Swap the app shell's generic title and description for a paste's tags
+ */
+export function injectMetaTags(shell: string, tags: string): string {
+    return shell
+        .replace(/[ \t]*<title>[\s\S]*?<\/title>[ \t]*\n?/i, '')
+        .replace(/[ \t]*<meta\s+(?:name|property)="(?:description|og:[^"]*|twitter:[^"]*)"[^>]*>[ \t]*\n?/gi, '')
+        .replace(/([ \t]*)<\/head>/i, `$1  ${tags}\n$1</head>`);
+}
+
+/**
+ * Bare page carrying only the tags - used when the app shell can't be fetched
+ */
+export function buildPreviewPage(tags: string, links: PreviewLinks): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    ${tags}
+  </head>
+  <body>
+    <p><a href="${escapeXml(links.pageUrl)}">Open this paste</a></p>
+  </body>
+</html>
+`;
+}
+
+// ============================================
+// App Shell
+// ============================================
+
+const SHELL_TTL_MS = 5 * 60 * 1000;
+const SHELL_TIMEOUT_MS = 5000;
+
+let shellCache: { html: string; fetchedAt: number } | null = null;
+
+/**
+ * The frontend's index.html, so paste pages can be served with their own tags
+ * and still boot the app. Cached briefly; null if the frontend can't be reached
+ */
+export async function loadAppShell(): Promise<string | null> {
+    if (shellCache && Date.now() - shellCache.fetchedAt < SHELL_TTL_MS) {
+        return shellCache.html;
+    }
+
+    try {
+        const response = await fetch(`${getFrontendUrl()}/index.html`, {
+            signal: AbortSignal.timeout(SHELL_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+            console.error(`Could not fetch app shell: HTTP ${response.status}`);
+            return shellCache?.html ?? null;
+        }
+
+        shellCache = { html: await response.text(), fetchedAt: Date.now() };
+        return shellCache.html;
+    } catch (error) {
+        console.error('Could not fetch app shell:', error);
+        return shellCache?.html ?? null;
+    }
+}
+
+// ============================================
+// oEmbed
+// ============================================
+
+const EMBED_WIDTH = 720;
+const EMBED_MAX_HEIGHT = 480;
+const EMBED_LINE_HEIGHT = 21;
+
+/**
+ * oEmbed for a paste: an iframe of the highlighted HTML when its content is
+ * open, otherwise just a link. Sizes respect the consumer's maxwidth/maxheight
+ */
+export function buildOEmbed(
+    preview: PastePreview,
+    links: PreviewLinks,
+    limits: { maxwidth?: number; maxheight?: number }
+): OEmbedResponse {
+    const maxWidth = limits.maxwidth ?? Infinity;
+    const maxHeight = limits.maxheight ?? Infinity;
+
+    const response: OEmbedResponse = {
+        version: '1.0',
+        type: 'link',
+        provider_name: 'Pastebin',
+        provider_url: getFrontendUrl(),
+        title: preview.title,
+        cache_age: 300,
+    };
+
+    if (PREVIEW_IMAGE_WIDTH <= maxWidth && PREVIEW_IMAGE_HEIGHT <= maxHeight) {
+        response.thumbnail_url = links.imageUrl;
+        response.thumbnail_width = PREVIEW_IMAGE_WIDTH;
+        response.thumbnail_height = PREVIEW_IMAGE_HEIGHT;
+    }
+
+    if (preview.lineCount === null) {
+        return response;
+    }
+
+    // The rendered page has 16px of padding above and below the lines
+    const width = Math.min(EMBED_WIDTH, maxWidth);
+    const height = Math.min(preview.lineCount * EMBED_LINE_HEIGHT + 32, EMBED_MAX_HEIGHT, maxHeight);
+
+    return {
+        ...response,
+        type: 'rich',
+        html: `<iframe src="${escapeXml(links.embedUrl)}" width="${width}" height="${height}" style="border:0" loading="lazy" title="${escapeXml(preview.title)}"></iframe>`,
+        width,
+        height,
+    };
+}
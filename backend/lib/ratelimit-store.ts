@@ -0,0 +1,128 @@
+/**
+ * Rate Limit Stores
+ * Where express-rate-limit keeps its hit counters - in memory or in Postgres
+ */
+
+import { MemoryStore, Store, Options, ClientRateLimitInfo } from 'express-rate-limit';
+import { prisma } from './prisma';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const RATE_LIMIT_STORES = ['memory', 'postgres'] as const;
+
+export type RateLimitStoreType = typeof RATE_LIMIT_STORES[number];
+
+/**
+ * Store selected by RATE_LIMIT_STORE (default: memory)
+ * Memory counters reset on deploy and aren't shared between instances;
+ * postgres counters are shared by every instance using the same database
+ */
+export function getRateLimitStoreType(): RateLimitStoreType {
+    const configured = (process.env.RATE_LIMIT_STORE || 'memory').trim().toLowerCase();
+
+    if (!(RATE_LIMIT_STORES as readonly string[]).includes(configured)) {
+        throw new Error(
+            `Invalid RATE_LIMIT_STORE "${configured}" - expected one of: ${RATE_LIMIT_STORES.join(', ')}`
+        );
+    }
+
+    return configured as RateLimitStoreType;
+}
+
+// ============================================
+// Postgres Store
+// ============================================
+
+/**
+ * Fixed-window counters in the RateLimit table
+ * Each increment is a single upsert, so concurrent instances never lose hits.
+ * Windows are timed by the database clock rather than each instance's.
+ */
+export class PostgresStore implements Store {
+    prefix: string;
+    localKeys = false;
+    private windowMs = 60 * 1000;
+
+    constructor(prefix: string) {
+        this.prefix = prefix;
+    }
+
+    init(options: Options): void {
+        this.windowMs = options.windowMs;
+    }
+
+    private prefixKey(key: string): string {
+        return `${this.prefix}${key}`;
+    }
+
+    async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+        const rows = await prisma.$queryRaw<{ hits: number; resetAt: Date }[]>`
+            SELECT "hits", "resetAt"
+            FROM "RateLimit"
+            WHERE "key" = ${this.prefixKey(key)} AND "resetAt" > NOW()
+        `;
+
+        return rows[0] ? { totalHits: rows[0].hits, resetTime: rows[0].resetAt } : undefined;
+    }
+
+    async increment(key: string): Promise<ClientRateLimitInfo> {
+        // Start a new window when the stored one has run out
+        const [row] = await prisma.$queryRaw<{ hits: number; resetAt: Date }[]>`
+            INSERT INTO "RateLimit" ("key", "hits", "resetAt")
+            VALUES (${this.prefixKey(key)}, 1, NOW() + ${this.windowMs}::int * INTERVAL '1 millisecond')
+            ON CONFLICT ("key") DO UPDATE SET
+                "hits" = CASE
+                    WHEN "RateLimit"."resetAt" <= NOW() THEN 1
+                    ELSE "RateLimit"."hits" + 1
+                END,
+                "resetAt" = CASE
+                    WHEN "RateLimit"."resetAt" <= NOW() THEN EXCLUDED."resetAt"
+                    ELSE "RateLimit"."resetAt"
+                END
+            RETURNING "hits", "resetAt"
+        `;
+
+        return { totalHits: row.hits, resetTime: row.resetAt };
+    }
+
+    async decrement(key: string): Promise<void> {
+        await prisma.$executeRaw`
+            UPDATE "RateLimit"
+            SET "hits" = GREATEST("hits" - 1, 0)
+            WHERE "key" = ${this.prefixKey(key)} AND "resetAt" > NOW()
+        `;
+    }
+
+    async resetKey(key: string): Promise<void> {
+        await prisma.rateLimit.deleteMany({
+            where: { key: this.prefixKey(key) },
+        });
+    }
+}
+
+// ============================================
+// Store Factory
+// ============================================
+
+/**
+ * Create a store for one limiter - express-rate-limit needs a store per limiter,
+ * and the prefix keeps their counters apart in the shared table
+ */
+export function createRateLimitStore(prefix: string): Store {
+    return getRateLimitStoreType() === 'postgres'
+        ? new PostgresStore(`${prefix}:`)
+        : new MemoryStore();
+}
+
+/**
+ * Delete counters whose window has ended
+ */
+export async function purgeExpiredRateLimits(): Promise<number> {
+    const result = await prisma.rateLimit.deleteMany({
+        where: { resetAt: { lte: new Date() } },
+    });
+
+    return result.count;
+}
@@ -6,6 +6,8 @@
 import rateLimit, { RateLimitRequestHandler } from 'express-rate-limit';
 import { Request, Response } from 'express';
 import { ErrorCodes } from './types';
+import { API_KEY_DEFAULT_CREATE_LIMIT, API_KEY_DEFAULT_READ_LIMIT } from './auth';
+import { createRateLimitStore } from './ratelimit-store';
 
 // ============================================
 // Rate Limit Configuration
@@ -13,7 +15,7 @@ import { ErrorCodes } from './types';
 
 interface RateLimitConfig {
     windowMs: number;
-    max: number;
+    max: number | ((req: Request) => number);
     message: string;
     skipFailedRequests?: boolean;
     skipSuccessfulRequests?: boolean;
@@ -26,7 +28,7 @@ interface RateLimitConfig {
 /**
  * Get client IP address considering proxies
  */
-function getClientIP(req: Request): string {
+export function getClientIP(req: Request): string {
     // X-Forwarded-For header (from reverse proxy/load balancer)
     const forwarded = req.headers['x-forwarded-for'];
     if (forwarded) {
@@ -44,13 +46,55 @@ function getClientIP(req: Request): string {
     return req.ip || req.socket.remoteAddress || 'unknown';
 }
 
+/**
+ * Requests made with an API key share that key's bucket, wherever they come from
+ * Must run after authenticate so req.apiKey is set
+ */
+function getRateLimitKey(req: Request): string {
+    return req.apiKey ? `apikey:${req.apiKey.id}` : getClientIP(req);
+}
+
+/**
+ * Per-request limit - an API key's own quota, otherwise the per-IP limit
+ */
+function limitFor(ipLimit: number, keyDefault: number) {
+    return (req: Request): number => {
+        if (!req.apiKey) {
+            return ipLimit;
+        }
+        return req.apiKey.rateLimit ?? keyDefault;
+    };
+}
+
+/**
+ * POST /api/pastes/:id/append - a live tail streaming a log sends many of these
+ */
+export function isAppendRequest(req: Request): boolean {
+    return req.method === 'POST' && /^\/api\/pastes\/[^/]+\/append$/.test(req.baseUrl + req.path);
+}
+
 // ============================================
 // Rate Limiters
 // ============================================
 
+/**
+ * Paste and file routes count API-key requests against the key's own quotas -
+ * only for the methods the route limiters cover, so e.g. DELETE stays limited
+ */
+const KEY_QUOTA_METHODS = ['GET', 'POST', 'PUT'];
+
+function hasKeyQuota(req: Request): boolean {
+    return (
+        req.apiKey !== undefined &&
+        KEY_QUOTA_METHODS.includes(req.method) &&
+        /^\/api\/(pastes|files)(\/|$)/.test(req.path)
+    );
+}
+
 /**
  * Global rate limiter - applies to all routes
- * 1000 requests per 15 minutes
+ * 1000 requests per 15 minutes per IP, or per API key where the key has no quota of its own
+ * Must run after authenticate so req.apiKey is set
  */
 export const globalRateLimiter: RateLimitRequestHandler = rateLimit({
     windowMs: 15 * 60 * 1000, // 15 minutes
@@ -65,20 +109,22 @@ export const globalRateLimiter: RateLimitRequestHandler = rateLimit({
     },
     standardHeaders: true, // Return rate limit info in headers
     legacyHeaders: false,
-    keyGenerator: getClientIP,
+    store: createRateLimitStore('global'),
+    passOnStoreError: true, // A store outage shouldn't take the API down
+    keyGenerator: getRateLimitKey,
     skip: (req: Request) => {
-        // Skip rate limiting for health check endpoints
-        return req.path === '/health' || req.path === '/health/db';
+        // Skip rate limiting for health check endpoints, and appends and API keys, which have their own limiters
+        return req.path === '/health' || req.path === '/health/db' || isAppendRequest(req) || hasKeyQuota(req);
     },
 });
 
 /**
  * Strict rate limiter for paste creation
- * 10 pastes per minute per IP
+ * 10 pastes per minute per IP, or the key's quota (default 60) per API key
  */
 export const createPasteLimiter: RateLimitRequestHandler = rateLimit({
     windowMs: 60 * 1000, // 1 minute
-    max: 10,
+    max: limitFor(10, API_KEY_DEFAULT_CREATE_LIMIT),
     message: {
         success: false,
         error: {
@@ -89,17 +135,19 @@ export const createPasteLimiter: RateLimitRequestHandler = rateLimit({
     },
     standardHeaders: true,
     legacyHeaders: false,
-    keyGenerator: getClientIP,
+    store: createRateLimitStore('create'),
+    passOnStoreError: true,
+    keyGenerator: getRateLimitKey,
     skipFailedRequests: true, // Don't count failed requests
 });
 
 /**
  * Burst rate limiter for paste retrieval
- * 100 requests per minute per IP
+ * 100 requests per minute per IP, or the key's quota (default 300) per API key
  */
 export const getPasteLimiter: RateLimitRequestHandler = rateLimit({
     windowMs: 60 * 1000, // 1 minute
-    max: 100,
+    max: limitFor(100, API_KEY_DEFAULT_READ_LIMIT),
     message: {
         success: false,
         error: {
@@ -110,7 +158,81 @@ export const getPasteLimiter: RateLimitRequestHandler = rateLimit({
     },
     standardHeaders: true,
     legacyHeaders: false,
+    store: createRateLimitStore('read'),
+    passOnStoreError: true,
+    keyGenerator: getRateLimitKey,
+});
+
+/**
+ * Rate limiter for live tail appends
+ * 60 appends per minute per IP, or the key's quota (default 300) per API key
+ */
+export const appendLimiter: RateLimitRequestHandler = rateLimit({
+    windowMs: 60 * 1000, // 1 minute
+    max: limitFor(60, API_KEY_DEFAULT_READ_LIMIT),
+    message: {
+        success: false,
+        error: {
+            code: ErrorCodes.RATE_LIMIT_EXCEEDED,
+            message: 'Too many appends. Send larger chunks less often.',
+            retryAfter: '1 minute',
+        },
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+    store: createRateLimitStore('append'),
+    passOnStoreError: true,
+    keyGenerator: getRateLimitKey,
+});
+
+/**
+ * Login and registration rate limiter - slows password guessing
+ * 10 failed attempts per 15 minutes per IP
+ */
+export const authRateLimiter: RateLimitRequestHandler = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 10,
+    message: {
+        success: false,
+        error: {
+            code: ErrorCodes.RATE_LIMIT_EXCEEDED,
+            message: 'Too many sign-in attempts. Please try again later.',
+            retryAfter: '15 minutes',
+        },
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+    store: createRateLimitStore('auth'),
+    passOnStoreError: true,
     keyGenerator: getClientIP,
+    skipSuccessfulRequests: true, // Only failed attempts count
+});
+
+/**
+ * Wrong paste passwords - each guess costs an scrypt hash
+ * 10 failed attempts per 15 minutes per paste and IP
+ * Must be mounted on a path with an :id parameter
+ */
+export const pastePasswordLimiter: RateLimitRequestHandler = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 10,
+    message: {
+        success: false,
+        error: {
+            code: ErrorCodes.RATE_LIMIT_EXCEEDED,
+            message: 'Too many wrong passwords for this paste. Please try again later.',
+            retryAfter: '15 minutes',
+        },
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+    store: createRateLimitStore('password'),
+    passOnStoreError: true,
+    keyGenerator: (req: Request) => `${req.params.id}:${getClientIP(req)}`,
+    // Only requests that try a password, and only the ones it was wrong for
+    skip: (req: Request) => !req.headers['x-paste-password'],
+    skipSuccessfulRequests: true,
+    requestWasSuccessful: (req: Request, res: Response) => res.statusCode !== 403,
 });
 
 /**
@@ -129,6 +251,8 @@ export const cleanupRateLimiter: RateLimitRequestHandler = rateLimit({
     },
     standardHeaders: true,
     legacyHeaders: false,
+    store: createRateLimitStore('cleanup'),
+    passOnStoreError: true,
 });
 
 // ============================================
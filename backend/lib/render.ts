@@ -0,0 +1,552 @@
+/**
+ * Code Rendering
+ * Syntax-highlighted HTML documents, rendered markdown and code "screenshots"
+ * (SVG/PNG), built server-side so they work where JavaScript can't run
+ */
+
+import path from 'path';
+import { createHash } from 'crypto';
+import Prism from 'prismjs';
+import loadLanguages from 'prismjs/components/index';
+import { Resvg } from '@resvg/resvg-js';
+import { Marked } from 'marked';
+import sanitizeHtml from 'sanitize-html';
+import { LANGUAGES, resolveLanguage } from './languages';
+import { escapeXml } from './utils';
+
+// Grammars for every registry language - Prism only bundles a few by default
+loadLanguages.silent = true;
+loadLanguages(LANGUAGES.map(language => language.prism).filter(name => name !== 'plain'));
+
+// ============================================
+// Formats & Themes
+// ============================================
+
+export const RENDER_FORMATS = ['html', 'svg', 'png'] as const;
+
+export type RenderFormat = typeof RENDER_FORMATS[number];
+
+export const RENDER_THEMES = ['dark', 'light'] as const;
+
+export type RenderTheme = typeof RENDER_THEMES[number];
+
+/**
+ * code     - highlighted source with line numbers
+ * markdown - the paste rendered as GitHub-flavored markdown (HTML only)
+ */
+export const RENDER_MODES = ['code', 'markdown'] as const;
+
+export type RenderMode = typeof RENDER_MODES[number];
+
+interface Theme {
+    background: string;
+    foreground: string;
+    lineNumber: string;
+    border: string;
+    surface: string;  // code blocks in markdown
+    link: string;
+    tokens: Record<string, string>; // Prism token type -> color
+}
+
+const THEMES: Record<RenderTheme, Theme> = {
+    // Matches the viewer's vsDark
+    dark: {
+        background: '#1e1e1e',
+        foreground: '#d4d4d4',
+        lineNumber: '#858585',
+        border: '#333333',
+        surface: '#252526',
+        link: '#4fc1ff',
+        tokens: {
+            comment: '#6a9955',
+            prolog: '#6a9955',
+            doctype: '#6a9955',
+            keyword: '#569cd6',
+            boolean: '#569cd6',
+            important: '#569cd6',
+            tag: '#569cd6',
+            title: '#569cd6',
+            string: '#ce9178',
+            char: '#ce9178',
+            'attr-value': '#ce9178',
+            url: '#ce9178',
+            number: '#b5cea8',
+            function: '#dcdcaa',
+            'class-name': '#4ec9b0',
+            builtin: '#4ec9b0',
+            namespace: '#4ec9b0',
+            'attr-name': '#9cdcfe',
+            property: '#9cdcfe',
+            variable: '#9cdcfe',
+            constant: '#4fc1ff',
+            regex: '#d16969',
+            selector: '#d7ba7d',
+            atrule: '#c586c0',
+        },
+    },
+    light: {
+        background: '#ffffff',
+        foreground: '#24292f',
+        lineNumber: '#8c959f',
+        border: '#d0d7de',
+        surface: '#f6f8fa',
+        link: '#0969da',
+        tokens: {
+            comment: '#6e7781',
+            prolog: '#6e7781',
+            doctype: '#6e7781',
+            keyword: '#cf222e',
+            important: '#cf222e',
+            atrule: '#cf222e',
+            boolean: '#0550ae',
+            number: '#0550ae',
+            constant: '#0550ae',
+            property: '#0550ae',
+            'attr-name': '#0550ae',
+            title: '#0550ae',
+            string: '#0a3069',
+            char: '#0a3069',
+            'attr-value': '#0a3069',
+            url: '#0a3069',
+            function: '#8250df',
+            'class-name': '#953800',
+            builtin: '#953800',
+            namespace: '#953800',
+            variable: '#953800',
+            tag: '#116329',
+            regex: '#116329',
+            selector: '#116329',
+        },
+    },
+};
+
+// ============================================
+// Highlighting
+// ============================================
+
+interface Segment {
+    text: string;
+    types: string[]; // innermost token type first
+}
+
+type Line = Segment[];
+
+/**
+ * Tokenize code into lines of typed segments
+ * Prism tokens can span lines (block comments, template strings), so they are
+ * split at each newline
+ */
+function highlightLines(code: string, language: string | null): Line[] {
+    const prismName = (language && LANGUAGES.find(entry => entry.id === resolveLanguage(language))?.prism) || 'plain';
+    const grammar = Prism.languages[prismName];
+    const stream = grammar ? Prism.tokenize(code, grammar) : [code];
+
+    const lines: Line[] = [[]];
+
+    const walk = (tokens: Prism.TokenStream, inherited: string[]) => {
+        if (typeof tokens === 'string') {
+            tokens.split(/\r?\n/).forEach((text, i) => {
+                if (i > 0) lines.push([]);
+                if (text) lines[lines.length - 1].push({ text, types: inherited });
+            });
+            return;
+        }
+
+        if (Array.isArray(tokens)) {
+            tokens.forEach(token => walk(token, inherited));
+            return;
+        }
+
+        const aliases = Array.isArray(tokens.alias) ? tokens.alias : tokens.alias ? [tokens.alias] : [];
+        walk(tokens.content, [tokens.type, ...aliases, ...inherited]);
+    };
+
+    walk(stream, []);
+    return lines;
+}
+
+function colorFor(segment: Segment, theme: Theme): string {
+    const type = segment.types.find(name => theme.tokens[name]);
+    return type ? theme.tokens[type] : theme.foreground;
+}
+
+function lineToHtml(line: Line, theme: Theme): string {
+    return line
+        .map(segment => `<span style="color:${colorFor(segment, theme)}">${escapeXml(segment.text)}</span>`)
+        .join('');
+}
+
+// ============================================
+// HTML
+// ============================================
+
+export interface RenderOptions {
+    title: string;
+    theme: RenderTheme;
+}
+
+/**
+ * Standalone HTML document with line numbers - no scripts, styles inline
+ * Each row has an L<n> anchor for linking to a line
+ */
+export function renderHtml(code: string, language: string | null, options: RenderOptions): string {
+    const theme = THEMES[options.theme];
+
+    const rows = highlightLines(code, language).map((line, i) =>
+        `<tr id="L${i + 1}"><td class="ln">${i + 1}</td><td class="lc">${lineToHtml(line, theme)}</td></tr>`
+    );
+
+    const style = `body { margin: 0; padding: 16px 0; background: ${theme.background}; color: ${theme.foreground}; }
+table { border-collapse: collapse; font: 14px/1.5 'DejaVu Sans Mono', Menlo, Consolas, monospace; tab-size: 4; }
+td { padding: 0 16px; vertical-align: top; white-space: pre; }
+.ln { color: ${theme.lineNumber}; text-align: right; border-right: 1px solid ${theme.border}; user-select: none; }`;
+
+    return htmlDocument(options.title, style, `<table>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>`);
+}
+
+function htmlDocument(title: string, style: string, body: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(title)}</title>
+<style>
+${style}
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+// ============================================
+// Markdown
+// ============================================
+
+/**
+ * GitHub-style heading anchors - repeated headings get -1, -2, ...
+ */
+function createSlugger(): (text: string) => string {
+    const seen = new Map<string, number>();
+
+    return (text) => {
+        const base = text
+            .toLowerCase()
+            .trim()
+            .replace(/[^\p{L}\p{M}\p{N}\p{Pc}\- ]/gu, '')
+            .replace(/ /g, '-');
+        const count = seen.get(base) ?? 0;
+
+        seen.set(base, count + 1);
+        return count ? `${base}-${count}` : base;
+    };
+}
+
+/**
+ * Markdown may carry raw HTML - only plain formatting survives, and links only
+ * with web schemes. No images: a remote one would tell its host who read the paste
+ */
+const MARKDOWN_SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+    allowedTags: [...sanitizeHtml.defaults.allowedTags, 'input', 'del', 'details', 'summary'],
+    allowedAttributes: {
+        a: ['href', 'title', 'class', 'aria-hidden'],
+        input: ['type', 'checked', 'disabled'],
+        ol: ['start'],
+        th: ['align'],
+        td: ['align'],
+        span: ['style'],
+        ...Object.fromEntries(['h1', 'h2', 'h3', 'h4', 'h5', 'h6'].map(tag => [tag, ['id']])),
+    },
+    allowedStyles: {
+        span: { color: [/^#[0-9a-f]{6}$/i] },
+    },
+    allowedSchemes: ['http', 'https', 'mailto'],
+    // Task list checkboxes only
+    exclusiveFilter: frame => frame.tag === 'input' && frame.attribs.type !== 'checkbox',
+};
+
+function markdownToHtml(content: string, theme: Theme): string {
+    const slug = createSlugger();
+
+    const marked = new Marked({
+        gfm: true,
+        renderer: {
+            code({ text, lang }) {
+                const language = lang?.trim().split(/\s+/)[0] || null;
+                const lines = highlightLines(text, language).map(line => lineToHtml(line, theme));
+                return `<pre><code>${lines.join('\n')}</code></pre>\n`;
+            },
+            heading({ tokens, depth }) {
+                const id = slug(this.parser.parseInline(tokens, this.parser.textRenderer));
+                const text = this.parser.parseInline(tokens);
+                return `<h${depth} id="${id}"><a class="anchor" href="#${id}" aria-hidden="true">#</a>${text}</h${depth}>\n`;
+            },
+            // Linked rather than loaded - see MARKDOWN_SANITIZE_OPTIONS
+            image({ href, text }) {
+                return `<a href="${escapeXml(href)}">${escapeXml(text || href)}</a>`;
+            },
+        },
+    });
+
+    return sanitizeHtml(marked.parse(content, { async: false }), MARKDOWN_SANITIZE_OPTIONS);
+}
+
+/**
+ * Standalone HTML document of the paste rendered as GitHub-flavored markdown:
+ * tables, task lists, highlighted fenced code and heading anchors
+ */
+export function renderMarkdownHtml(content: string, options: RenderOptions): string {
+    const theme = THEMES[options.theme];
+
+    const style = `body { margin: 0 auto; padding: 32px 24px; max-width: 880px; background: ${theme.background}; color: ${theme.foreground}; font: 16px/1.6 -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; }
+a { color: ${theme.link}; }
+h1, h2 { padding-bottom: 0.3em; border-bottom: 1px solid ${theme.border}; }
+h1, h2, h3, h4, h5, h6 { position: relative; }
+.anchor { position: absolute; margin-left: -1em; padding-right: 0.25em; text-decoration: none; opacity: 0; }
+h1:hover .anchor, h2:hover .anchor, h3:hover .anchor, h4:hover .anchor, h5:hover .anchor, h6:hover .anchor { opacity: 1; }
+code, pre { font-family: 'DejaVu Sans Mono', Menlo, Consolas, monospace; font-size: 85%; }
+code { padding: 0.2em 0.4em; background: ${theme.surface}; border-radius: 4px; }
+pre { padding: 16px; overflow: auto; background: ${theme.surface}; border-radius: 6px; line-height: 1.45; tab-size: 4; }
+pre code { padding: 0; background: none; font-size: 100%; }
+blockquote { margin: 0; padding: 0 1em; color: ${theme.lineNumber}; border-left: 4px solid ${theme.border}; }
+table { border-collapse: collapse; }
+th, td { padding: 6px 13px; border: 1px solid ${theme.border}; }
+img { max-width: 100%; }
+hr { border: 0; border-top: 1px solid ${theme.border}; }
+li:has(> input[type="checkbox"]) { list-style: none; }
+li > input[type="checkbox"] { margin: 0 0.5em 0 -1.4em; }`;
+
+    return htmlDocument(options.title, style, markdownToHtml(content, theme));
+}
+
+// ============================================
+// Images
+// ============================================
+
+/**
+ * Images stay small enough to render quickly and drop into a slide
+ */
+export const MAX_IMAGE_LINES = 100;
+export const MAX_IMAGE_COLUMNS = 120;
+
+const FONT_FAMILY = 'DejaVu Sans Mono';
+const FONT_SIZE = 14;
+const LINE_HEIGHT = 21;
+const CHAR_WIDTH = FONT_SIZE * (1233 / 2048); // DejaVu Sans Mono advance width
+const PADDING = 24;
+const TITLE_BAR_HEIGHT = 36;
+const TAB = '    ';
+
+/**
+ * Keep the first maxColumns columns of a line, marking cut lines with an ellipsis
+ */
+function clipLine(line: Line, maxColumns: number): { segments: Line; columns: number } {
+    const segments: Line = [];
+    let columns = 0;
+
+    for (const segment of line) {
+        const text = segment.text.replace(/\t/g, TAB);
+        const room = maxColumns - columns;
+
+        if (text.length > room) {
+            segments.push({ ...segment, text: `${text.slice(0, Math.max(0, room - 1))}…` });
+            return { segments, columns: maxColumns };
+        }
+
+        segments.push({ ...segment, text });
+        columns += text.length;
+    }
+
+    return { segments, columns };
+}
+
+/**
+ * The part of the code an image can show - its first maxLines lines, each kept
+ * one column past maxColumns so clipLine still marks the cut. Taken before
+ * highlighting, so a huge paste costs no more to tokenize than a screenful
+ */
+function visibleCode(code: string, maxLines: number, maxColumns: number): { code: string; hidden: number } {
+    const lines: string[] = [];
+    let start = 0;
+    let hidden = 0;
+
+    while (start <= code.length) {
+        const newline = code.indexOf('\n', start);
+        const end = newline === -1 ? code.length : newline;
+
+        if (lines.length < maxLines) {
+            lines.push(code.slice(start, Math.min(end, start + maxColumns + 1)).replace(/\r$/, ''));
+        } else {
+            hidden++;
+        }
+
+        start = end + 1;
+    }
+
+    return { code: lines.join('\n'), hidden };
+}
+
+/**
+ * Code "screenshot" as SVG: a window with line numbers and highlighted code
+ */
+export function renderSvg(code: string, language: string | null, options: RenderOptions): string {
+    const theme = THEMES[options.theme];
+    const visible = visibleCode(code, MAX_IMAGE_LINES, MAX_IMAGE_COLUMNS);
+    const hidden = visible.hidden;
+    const lines = highlightLines(visible.code, language).map(line => clipLine(line, MAX_IMAGE_COLUMNS));
+
+    const gutterWidth = String(lines.length).length * CHAR_WIDTH + 16;
+    const codeWidth = Math.max(...lines.map(line => line.columns), 20) * CHAR_WIDTH;
+    const rowCount = lines.length + (hidden > 0 ? 1 : 0);
+
+    const width = Math.ceil(PADDING * 2 + gutterWidth + codeWidth);
+    const height = Math.ceil(TITLE_BAR_HEIGHT + PADDING / 2 + rowCount * LINE_HEIGHT + PADDING);
+    const codeX = PADDING + gutterWidth;
+
+    const baseline = (row: number) => TITLE_BAR_HEIGHT + PADDING / 2 + row * LINE_HEIGHT + FONT_SIZE;
+
+    const rows = lines.map((line, i) => {
+        const y = baseline(i);
+        const spans = line.segments
+            .map(segment => `<tspan fill="${colorFor(segment, theme)}">${escapeXml(segment.text)}</tspan>`)
+            .join('');
+
+        return `  <text x="${PADDING + gutterWidth - 16}" y="${y}" text-anchor="end" fill="${theme.lineNumber}">${i + 1}</text>
+  <text x="${codeX}" y="${y}" xml:space="preserve">${spans}</text>`;
+    });
+
+    if (hidden > 0) {
+        rows.push(`  <text x="${codeX}" y="${baseline(lines.length)}" fill="${theme.lineNumber}">… ${hidden} more ${hidden === 1 ? 'line' : 'lines'}</text>`);
+    }
+
+    return `<?xml version="1.0" encoding="utf-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <title>${escapeXml(options.title)}</title>
+  <rect x="0.5" y="0.5" width="${width - 1}" height="${height - 1}" rx="10" fill="${theme.background}" stroke="${theme.border}"/>
+  <circle cx="${PADDING}" cy="${TITLE_BAR_HEIGHT / 2}" r="6" fill="#ff5f56"/>
+  <circle cx="${PADDING + 20}" cy="${TITLE_BAR_HEIGHT / 2}" r="6" fill="#ffbd2e"/>
+  <circle cx="${PADDING + 40}" cy="${TITLE_BAR_HEIGHT / 2}" r="6" fill="#27c93f"/>
+  <g font-family="'${FONT_FAMILY}', Menlo, Consolas, monospace" font-size="${FONT_SIZE}" fill="${theme.foreground}">
+${rows.join('\n')}
+  </g>
+</svg>
+`;
+}
+
+/**
+ * Fonts are bundled - servers often have none, and images must look the same everywhere
+ */
+const FONT_FILES = ['DejaVuSansMono.ttf', 'DejaVuSansMono-Bold.ttf'].map(file =>
+    path.join(path.dirname(require.resolve('dejavu-fonts-ttf/package.json')), 'ttf', file)
+);
+
+function rasterize(svg: string, scale: number): Buffer {
+    const resvg = new Resvg(svg, {
+        fitTo: { mode: 'zoom', value: scale },
+        font: {
+            fontFiles: FONT_FILES,
+            loadSystemFonts: false,
+            defaultFontFamily: FONT_FAMILY,
+            monospaceFamily: FONT_FAMILY,
+        },
+    });
+
+    return resvg.render().asPng();
+}
+
+/**
+ * Rasterizing blocks the event loop for tens of milliseconds, and embedded
+ * images are fetched again on every page view - the latest few are kept
+ */
+const PNG_CACHE_SIZE = 64;
+const pngCache = new Map<string, Buffer>();
+
+/**
+ * Rasterize the SVG screenshot; scale 2 suits high-density screens
+ */
+export function renderPng(code: string, language: string | null, options: RenderOptions & { scale: number }): Buffer {
+    const svg = renderSvg(code, language, options);
+    const key = createHash('sha256').update(svg).update(`\0${options.scale}`).digest('hex');
+    const cached = pngCache.get(key);
+
+    // Re-inserted on every hit, so the map's order runs from least to most recently used
+    pngCache.delete(key);
+
+    const png = cached ?? rasterize(svg, options.scale);
+    pngCache.set(key, png);
+
+    if (pngCache.size > PNG_CACHE_SIZE) {
+        pngCache.delete(pngCache.keys().next().value!);
+    }
+
+    return png;
+}
+
+// ============================================
+// Preview Cards
+// ============================================
+
+export interface PreviewCard {
+    heading: string;
+    subheading: string;
+    language: string | null;  // for highlighting the excerpt
+    excerpt: string | null;   // opening lines; null when they mustn't be shown
+    notice: string | null;    // shown in place of a hidden excerpt
+}
+
+// Open Graph's recommended image size
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 630;
+const CARD_MARGIN = 64;
+const CARD_FONT_SIZE = 24;
+const CARD_LINE_HEIGHT = 36;
+const CARD_CHAR_WIDTH = CARD_FONT_SIZE * (1233 / 2048);
+const CARD_RULE_Y = 176;
+const CARD_MAX_LINES = 10;
+
+/**
+ * Link preview image: language and size up top, the opening lines below
+ */
+export function renderPreviewCard(card: PreviewCard): Buffer {
+    const theme = THEMES.dark;
+    const rows: string[] = [];
+
+    if (card.excerpt !== null) {
+        const lines = highlightLines(visibleCode(card.excerpt, CARD_MAX_LINES, MAX_IMAGE_COLUMNS).code, card.language);
+        const gutterWidth = String(lines.length).length * CARD_CHAR_WIDTH + 24;
+        const maxColumns = Math.floor((CARD_WIDTH - CARD_MARGIN * 2 - gutterWidth) / CARD_CHAR_WIDTH);
+
+        lines.forEach((line, i) => {
+            const y = CARD_RULE_Y + 56 + i * CARD_LINE_HEIGHT;
+            const spans = clipLine(line, maxColumns).segments
+                .map(segment => `<tspan fill="${colorFor(segment, theme)}">${escapeXml(segment.text)}</tspan>`)
+                .join('');
+
+            rows.push(`  <text x="${CARD_MARGIN + gutterWidth - 24}" y="${y}" text-anchor="end" fill="${theme.lineNumber}">${i + 1}</text>`);
+            rows.push(`  <text x="${CARD_MARGIN + gutterWidth}" y="${y}" xml:space="preserve">${spans}</text>`);
+        });
+    } else if (card.notice) {
+        const y = (CARD_RULE_Y + CARD_HEIGHT) / 2;
+        rows.push(`  <text x="${CARD_WIDTH / 2}" y="${y}" text-anchor="middle" font-size="32" fill="${theme.lineNumber}">${escapeXml(card.notice)}</text>`);
+    }
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" viewBox="0 0 ${CARD_WIDTH} ${CARD_HEIGHT}">
+  <rect width="${CARD_WIDTH}" height="${CARD_HEIGHT}" fill="${theme.background}"/>
+  <g font-family="'${FONT_FAMILY}', monospace" font-size="${CARD_FONT_SIZE}" fill="${theme.foreground}">
+  <text x="${CARD_MARGIN}" y="96" font-size="44" font-weight="bold">${escapeXml(card.heading)}</text>
+  <text x="${CARD_MARGIN}" y="140" fill="${theme.lineNumber}">${escapeXml(card.subheading)}</text>
+  <text x="${CARD_WIDTH - CARD_MARGIN}" y="96" text-anchor="end" font-size="20" letter-spacing="4" fill="${theme.lineNumber}">PASTEBIN</text>
+  <line x1="${CARD_MARGIN}" y1="${CARD_RULE_Y}" x2="${CARD_WIDTH - CARD_MARGIN}" y2="${CARD_RULE_Y}" stroke="${theme.border}" stroke-width="2"/>
+${rows.join('\n')}
+  </g>
+</svg>`;
+
+    return rasterize(svg, 1);
+}
@@ -0,0 +1,136 @@
+/**
+ * Security helpers for Pastebin API
+ * Password hashing, secret tokens and verification
+ */
+
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+// ============================================
+// Password Hashing
+// ============================================
+
+/**
+ * scrypt cost parameters (N=2^14, r=8, p=1 - OWASP minimum)
+ */
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+function deriveKey(password: string, salt: Buffer, n: number, r: number, p: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        scrypt(password, salt, KEY_LENGTH, { N: n, r, p }, (error, key) => {
+            if (error) reject(error);
+            else resolve(key);
+        });
+    });
+}
+
+/**
+ * Hash a password with a random salt
+ * Format: scrypt$N$r$p$<salt base64>$<hash base64>
+ */
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(SALT_LENGTH);
+    const key = await deriveKey(password, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+    return ['scrypt', SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+/**
+ * Verify a password against a stored hash in constant time
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [algorithm, n, r, p, salt, hash] = stored.split('$');
+
+    if (algorithm !== 'scrypt' || !salt || !hash) {
+        return false;
+    }
+
+    const expected = Buffer.from(hash, 'base64');
+    const key = await deriveKey(password, Buffer.from(salt, 'base64'), Number(n), Number(r), Number(p));
+
+    return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+// ============================================
+// Secret Tokens
+// ============================================
+
+const TOKEN_BYTES = 32;
+
+/**
+ * Generate a random URL-safe secret token
+ */
+export function generateToken(): string {
+    return randomBytes(TOKEN_BYTES).toString('base64url');
+}
+
+/**
+ * Hash a high-entropy token for storage
+ * A fast hash is enough here - tokens can't be brute-forced like passwords
+ */
+export function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Verify a token against a stored hash in constant time
+ */
+export function verifyToken(token: string, storedHash: string): boolean {
+    const hash = Buffer.from(hashToken(token), 'hex');
+    const expected = Buffer.from(storedHash, 'hex');
+    return hash.length === expected.length && timingSafeEqual(hash, expected);
+}
+
+// ============================================
+// Signed Grants
+// ============================================
+
+/**
+ * Key for signing grants - instances only accept each other's grants when they
+ * share GRANT_SECRET, so a per-process key is a development fallback
+ */
+let grantSecret: string | null = null;
+
+function getGrantSecret(): string {
+    if (!grantSecret) {
+        grantSecret = process.env.GRANT_SECRET || randomBytes(32).toString('hex');
+
+        if (!process.env.GRANT_SECRET) {
+            console.warn('GRANT_SECRET is not set - download links only work on the instance that issued them');
+        }
+    }
+    return grantSecret;
+}
+
+function signGrantPayload(subject: string, expiresAt: number): Buffer {
+    return createHmac('sha256', getGrantSecret()).update(`${subject}.${expiresAt}`).digest();
+}
+
+/**
+ * Issue a short-lived grant for a subject (e.g. "upload:<id>")
+ * Format: <expiry ms base36>.<HMAC base64url>
+ */
+export function signGrant(subject: string, ttlMs: number): { token: string; expiresAt: Date } {
+    const expiresAt = Date.now() + ttlMs;
+    const signature = signGrantPayload(subject, expiresAt).toString('base64url');
+    return { token: `${expiresAt.toString(36)}.${signature}`, expiresAt: new Date(expiresAt) };
+}
+
+/**
+ * Verify a grant was issued for the subject and hasn't expired
+ */
+export function verifyGrant(token: string, subject: string): boolean {
+    const [expiry, signature] = token.split('.');
+    const expiresAt = parseInt(expiry, 36);
+
+    if (!signature || !Number.isFinite(expiresAt) || expiresAt <= Date.now()) {
+        return false;
+    }
+
+    const expected = signGrantPayload(subject, expiresAt);
+    const actual = Buffer.from(signature, 'base64url');
+
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
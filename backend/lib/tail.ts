@@ -0,0 +1,102 @@
+/**
+ * Live Tail
+ * Appendable pastes grow a chunk at a time. Each append is published here and
+ * relayed to everyone following the paste's event stream. Subscribers are held
+ * in this instance's memory, so they only hear appends this instance handled -
+ * streams also poll the database and catch up with diffAppend.
+ */
+
+import { EventEmitter } from 'events';
+import { MAX_CONTENT_SIZE } from './utils';
+
+// ============================================
+// Rolling Window
+// ============================================
+
+/**
+ * Append a chunk, then drop whole lines from the start while the content is
+ * over the limit - a log keeps its most recent output. A single line longer
+ * than what has to go is cut mid-line instead, on a character boundary.
+ * The limit is in UTF-8 bytes; `dropped` counts string characters, which is
+ * what followers slice off
+ */
+export function appendWithinLimit(
+    content: string,
+    chunk: string,
+    limit: number = MAX_CONTENT_SIZE
+): { content: string; dropped: number } {
+    const combined = content + chunk;
+    const bytes = Buffer.from(combined, 'utf8');
+    const excess = bytes.length - limit;
+
+    if (excess <= 0) {
+        return { content: combined, dropped: 0 };
+    }
+
+    // Skip UTF-8 continuation bytes so the cut lands between characters
+    let cut = excess;
+    while (cut < bytes.length && (bytes[cut] & 0xc0) === 0x80) {
+        cut++;
+    }
+
+    const excessChars = bytes.subarray(0, cut).toString('utf8').length;
+    const lineEnd = combined.indexOf('\n', excessChars - 1);
+    const dropped = lineEnd === -1 ? excessChars : lineEnd + 1;
+
+    return { content: combined.slice(dropped), dropped };
+}
+
+/**
+ * A paste's content and where it starts in the tail - the characters rolled
+ * off before it (droppedChars)
+ */
+export interface TailWindow {
+    content: string;
+    offset: number;
+}
+
+/**
+ * The append that turns previous into current: what rolled off the start in
+ * between, and whatever lies past the end of previous. Edits are refused while
+ * a tail is open, so the two only differ by appends and drops
+ */
+export function diffAppend(previous: TailWindow, current: TailWindow): { chunk: string; dropped: number } {
+    const dropped = Math.min(current.offset - previous.offset, previous.content.length);
+    const end = previous.offset + previous.content.length;
+
+    return { chunk: current.content.slice(Math.max(0, end - current.offset)), dropped };
+}
+
+// ============================================
+// Subscriptions
+// ============================================
+
+/**
+ * One append as followers see it: drop `dropped` characters from the start of
+ * what they hold, then add `chunk`
+ */
+export interface AppendEvent {
+    chunk: string;
+    dropped: number;
+    appendCount: number;
+    closedAt: Date | null;
+}
+
+const emitter = new EventEmitter();
+
+// One listener per follower, keyed by paste ID
+emitter.setMaxListeners(0);
+
+export function publishAppend(pasteId: string, event: AppendEvent): void {
+    emitter.emit(pasteId, event);
+}
+
+/**
+ * Call listener for every append to the paste until the returned function is called
+ */
+export function subscribeToAppends(pasteId: string, listener: (event: AppendEvent) => void): () => void {
+    emitter.on(pasteId, listener);
+    return () => {
+        emitter.off(pasteId, listener);
+    };
+}
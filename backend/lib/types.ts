@@ -4,6 +4,10 @@
  */
 
 import { Paste } from '@prisma/client';
+import { DiffLine, DiffResult } from './diff';
+import { LanguageDetection } from './detect';
+import { LanguageInfo } from './languages';
+import { PasteVisibility } from './utils';
 
 // ============================================
 // Request Types
@@ -14,6 +18,82 @@ export interface CreatePasteRequest {
     language?: string;
     expiresIn?: number; // minutes until expiration
     maxViews?: number;  // maximum number of views
+    password?: string;  // readers must send it in X-Paste-Password
+    encrypted?: boolean; // content is client-side AES-GCM ciphertext
+    visibility?: PasteVisibility; // defaults to unlisted
+    appendable?: boolean; // live tail - accepts appends until closed
+}
+
+export interface UpdatePasteRequest {
+    content: string;
+    language?: string;     // omitted keeps the current language
+    visibility?: PasteVisibility; // omitted keeps the current visibility
+    baseRevision?: number; // rejects the edit if the paste moved on
+}
+
+export interface ForkPasteRequest {
+    content?: string;   // omitted copies the source content
+    language?: string;  // omitted copies the source language
+    expiresIn?: number;
+    maxViews?: number;
+    password?: string;
+    encrypted?: boolean; // only applies when content is supplied
+    visibility?: PasteVisibility; // defaults to unlisted
+}
+
+export interface AppendPasteRequest {
+    content?: string; // the chunk, appended as-is; may be omitted when done
+    done?: boolean;   // close the paste to further appends
+}
+
+export interface CreateCommentRequest {
+    body: string;
+    author?: string;    // display name, anonymous when omitted
+    revision?: number;  // defaults to the latest revision
+    lineStart?: number; // omitted comments on the whole paste
+    lineEnd?: number;   // defaults to lineStart
+}
+
+export interface CreateLiveSessionRequest {
+    content?: string;  // starting text, empty by default
+    language?: string;
+}
+
+export interface CreateUploadRequest {
+    name: string;
+    files: UploadedFileData[];
+    expiresIn?: number; // minutes until expiration
+    maxViews?: number;  // maximum number of views
+}
+
+export interface UploadedFileData {
+    path: string;    // relative path, e.g. "src/components/Button.tsx"
+    name: string;
+    content: string; // base64 encoded
+    size: number;    // bytes
+    type: string;    // MIME type
+}
+
+export interface CredentialsRequest {
+    email: string;
+    password: string;
+}
+
+export interface SearchPastesRequest {
+    q: string; // web search syntax: words, "quoted phrases", -excluded
+    language?: string;
+    page?: number;
+    limit?: number; // at most 50
+}
+
+export interface BulkDeleteRequest {
+    ids: string[]; // at most 100
+}
+
+export interface CreateApiKeyRequest {
+    name: string;
+    scopes?: string[]; // defaults to paste:create, paste:read, paste:delete
+    rateLimit?: number | null; // requests per minute, null for the default
 }
 
 // ============================================
@@ -27,10 +107,36 @@ export interface CreatePasteResponse {
         url: string;
         expiresAt: Date | null;
         maxViews: number | null;
+        passwordProtected: boolean;
+        encrypted: boolean;
+        visibility: PasteVisibility;
+        language: string | null;
+        detectedLanguage: LanguageDetection | null; // set when no language was given
+        ownerToken: string; // shown once - required to delete the paste
+        forkedFrom: string | null;
+        appendable: boolean;
         createdAt: Date;
     };
 }
 
+export interface LanguagesResponse {
+    success: true;
+    data: LanguageInfo[];
+}
+
+export interface DetectLanguageResponse {
+    success: true;
+    data: LanguageDetection | null;
+}
+
+export interface DeletePasteResponse {
+    success: true;
+    data: {
+        id: string;
+        deleted: true;
+    };
+}
+
 export interface GetPasteResponse {
     success: true;
     data: {
@@ -43,9 +149,289 @@ export interface GetPasteResponse {
         maxViews: number | null;
         remainingViews: number | null;
         isExpired: boolean;
+        encrypted: boolean;
+        visibility: PasteVisibility;
+        revision: number;
+        editedAt: Date | null;
+        forkedFrom: string | null; // source paste, null once it's deleted
+        forkCount: number;
+        appendable: boolean;    // a live tail - follow it at GET /:id/stream
+        closedAt: Date | null;  // when the tail stopped accepting appends
+    };
+}
+
+export interface PasteMetaResponse {
+    success: true;
+    data: {
+        id: string;
+        language: string | null;
+        createdAt: Date;
+        expiresAt: Date | null;
+        viewCount: number;
+        maxViews: number | null;
+        remainingViews: number | null;
+        passwordProtected: boolean;
+        encrypted: boolean;
+        visibility: PasteVisibility;
+        revision: number;
+        editedAt: Date | null;
+        forkedFrom: string | null;
+        forkCount: number;
+        appendable: boolean;
+        closedAt: Date | null;
+    };
+}
+
+export interface AppendPasteResponse {
+    success: true;
+    data: {
+        id: string;
+        size: number;       // characters now held
+        dropped: number;    // characters trimmed from the start to stay within the limit
+        appendCount: number;
+        closedAt: Date | null;
+    };
+}
+
+export interface RevisionSummary {
+    number: number;
+    language: string | null;
+    size: number; // characters
+    createdAt: Date;
+    current: boolean;
+}
+
+export interface ListRevisionsResponse {
+    success: true;
+    data: {
+        id: string;
+        currentRevision: number;
+        revisions: RevisionSummary[];
+    };
+}
+
+export interface GetRevisionResponse {
+    success: true;
+    data: {
+        id: string;
+        revision: number;
+        currentRevision: number;
+        content: string;
+        language: string | null;
+        createdAt: Date;
+        encrypted: boolean;
+    };
+}
+
+export interface PasteComment {
+    id: string;
+    revision: number;
+    lineStart: number | null; // null for comments on the whole paste
+    lineEnd: number | null;
+    body: string;
+    author: string | null;
+    byOwner: boolean; // written by the paste's owner
+    createdAt: Date;
+}
+
+export interface ListCommentsResponse {
+    success: true;
+    data: {
+        id: string;
+        comments: PasteComment[];
+    };
+}
+
+export interface CreateCommentResponse {
+    success: true;
+    data: PasteComment;
+}
+
+export interface LiveParticipant {
+    id: string;
+    name: string;
+    color: string; // for their cursor
+    selection: { anchor: number; head: number } | null;
+}
+
+export interface LiveSessionResponse {
+    success: true;
+    data: {
+        id: string;
+        language: string | null;
+        revision: number; // operations applied so far
+        participants: LiveParticipant[];
+        createdAt: Date;
+        socketPath: string; // WebSocket endpoint, relative to the API
+    };
+}
+
+export interface CreateUploadResponse {
+    success: true;
+    data: {
+        id: string;
+        url: string;
+        name: string;
+        fileCount: number;
+        totalSize: number;
+        expiresAt: Date | null;
+        maxViews: number | null;
+        createdAt: Date;
+    };
+}
+
+export interface GetUploadResponse {
+    success: true;
+    data: {
+        id: string;
+        name: string;
+        files: UploadedFileData[];
+        fileCount: number;
+        totalSize: number;
+        viewCount: number;
+        maxViews: number | null;
+        remainingViews: number | null;
+        expiresAt: Date | null;
+        createdAt: Date;
+        downloadToken: string; // lets this view download files without counting more views
+        downloadTokenExpiresAt: Date;
+    };
+}
+
+export interface DiffSide {
+    id: string;
+    revision: number;
+    language: string | null;
+}
+
+export interface DiffPastesResponse {
+    success: true;
+    data: {
+        from: DiffSide;
+        to: DiffSide;
+        stats: DiffResult['stats'];
+        lines: DiffLine[];
     };
 }
 
+export interface AccountUser {
+    id: string;
+    email: string;
+    createdAt: Date;
+}
+
+export interface AuthResponse {
+    success: true;
+    data: {
+        user: AccountUser;
+        token: string; // send as "Authorization: Bearer <token>"
+        expiresAt: Date;
+    };
+}
+
+export interface AccountPasteSummary {
+    id: string;
+    preview: string | null; // null for encrypted pastes
+    language: string | null;
+    createdAt: Date;
+    expiresAt: Date | null;
+    viewCount: number;
+    maxViews: number | null;
+    isExpired: boolean;
+    encrypted: boolean;
+    passwordProtected: boolean;
+    visibility: PasteVisibility;
+    revision: number;
+}
+
+export interface SearchResult {
+    id: string;
+    preview: string;
+    language: string | null;
+    createdAt: Date;
+    viewCount: number;
+    rank: number; // ts_rank relevance, higher is better
+}
+
+export interface RecentPaste {
+    id: string;
+    language: string | null;
+    createdAt: Date;
+    preview: string;
+}
+
+export interface RecentPastesResponse {
+    success: true;
+    data: {
+        items: RecentPaste[];
+        nextCursor: string | null; // null on the last page
+    };
+}
+
+export interface AccountUploadSummary {
+    id: string;
+    name: string;
+    fileCount: number;
+    totalSize: number;
+    createdAt: Date;
+    expiresAt: Date | null;
+    viewCount: number;
+    maxViews: number | null;
+    isExpired: boolean;
+}
+
+export interface AccountListResponse<T> {
+    success: true;
+    data: {
+        items: T[];
+        total: number;
+        page: number;
+        limit: number;
+    };
+}
+
+export interface BulkDeleteResponse {
+    success: true;
+    data: {
+        deleted: number;
+    };
+}
+
+export interface ApiKeySummary {
+    id: string;
+    name: string;
+    prefix: string;
+    scopes: string[];
+    rateLimit: number | null;
+    createdAt: Date;
+    lastUsedAt: Date | null;
+}
+
+export interface CreateApiKeyResponse {
+    success: true;
+    data: ApiKeySummary & {
+        key: string; // shown once
+    };
+}
+
+/**
+ * oEmbed 1.0 response - bare, as the spec requires, not in the success envelope
+ */
+export interface OEmbedResponse {
+    version: '1.0';
+    type: 'rich' | 'link';
+    provider_name: string;
+    provider_url: string;
+    title: string;
+    cache_age: number;
+    html?: string;   // rich only
+    width?: number;  // rich only
+    height?: number; // rich only
+    thumbnail_url?: string;
+    thumbnail_width?: number;
+    thumbnail_height?: number;
+}
+
 // ============================================
 // Error Types
 // ============================================
@@ -69,8 +455,21 @@ export const ErrorCodes = {
     VALIDATION_ERROR: 'VALIDATION_ERROR',
     NOT_FOUND: 'NOT_FOUND',
     PASTE_EXPIRED: 'PASTE_EXPIRED',
+    PASSWORD_REQUIRED: 'PASSWORD_REQUIRED',
+    INVALID_PASSWORD: 'INVALID_PASSWORD',
+    UNAUTHORIZED: 'UNAUTHORIZED',
+    FORBIDDEN: 'FORBIDDEN',
+    REVISION_CONFLICT: 'REVISION_CONFLICT',
+    PASTE_ENCRYPTED: 'PASTE_ENCRYPTED',
+    PASTE_NOT_APPENDABLE: 'PASTE_NOT_APPENDABLE',
+    DIFF_TOO_LARGE: 'DIFF_TOO_LARGE',
+    EMAIL_TAKEN: 'EMAIL_TAKEN',
+    INVALID_CREDENTIALS: 'INVALID_CREDENTIALS',
+    UPLOAD_EXPIRED: 'UPLOAD_EXPIRED',
     RATE_LIMIT_EXCEEDED: 'RATE_LIMIT_EXCEEDED',
     CONTENT_TOO_LARGE: 'CONTENT_TOO_LARGE',
+    LIVE_SESSION_LIMIT: 'LIVE_SESSION_LIMIT',
+    LIVE_SESSIONS_DISABLED: 'LIVE_SESSIONS_DISABLED',
     INTERNAL_ERROR: 'INTERNAL_ERROR',
 } as const;
 
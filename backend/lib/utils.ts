@@ -32,6 +32,11 @@ export function generatePasteId(): string {
 // Expiration Logic
 // ============================================
 
+/**
+ * Fields shared by every expirable record (pastes and file uploads)
+ */
+export type Expirable = Pick<Paste, 'isExpired' | 'expiresAt' | 'maxViews' | 'viewCount'>;
+
 /**
  * Calculate expiration date from minutes
  */
@@ -43,9 +48,9 @@ export function calculateExpiresAt(expiresInMinutes?: number): Date | null {
 }
 
 /**
- * Check if a paste has expired (time-based or view-based)
+ * Check if a paste or upload has expired (time-based or view-based)
  */
-export function isExpired(paste: Paste): boolean {
+export function isExpired(paste: Expirable): boolean {
     // Already marked as expired
     if (paste.isExpired) {
         return true;
@@ -67,26 +72,26 @@ export function isExpired(paste: Paste): boolean {
 /**
  * Get expiration reason for display
  */
-export function getExpirationReason(paste: Paste): string | null {
+export function getExpirationReason(paste: Expirable, noun: string = 'paste'): string | null {
     if (!isExpired(paste)) {
         return null;
     }
 
     if (paste.expiresAt && isPast(paste.expiresAt)) {
-        return 'This paste has expired due to time limit';
+        return `This ${noun} has expired due to time limit`;
     }
 
     if (paste.maxViews !== null && paste.viewCount >= paste.maxViews) {
-        return 'This paste has expired due to view limit';
+        return `This ${noun} has expired due to view limit`;
     }
 
-    return 'This paste has been deleted';
+    return `This ${noun} has been deleted`;
 }
 
 /**
  * Calculate remaining views
  */
-export function calculateRemainingViews(paste: Paste): number | null {
+export function calculateRemainingViews(paste: Expirable): number | null {
     if (paste.maxViews === null) {
         return null;
     }
@@ -150,6 +155,33 @@ export function validateContent(content: string): { valid: boolean; error?: stri
     return { valid: true };
 }
 
+/**
+ * Maximum total size of a file upload in bytes (5MB)
+ */
+export const MAX_UPLOAD_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Maximum number of files in a single upload
+ */
+export const MAX_UPLOAD_FILES = 20;
+
+/**
+ * Normalize a relative file path from an upload to forward slashes
+ * Returns null for drive-letter paths or paths escaping the upload root
+ */
+export function normalizeUploadPath(path: string): string | null {
+    const segments = path
+        .replace(/\\/g, '/')
+        .split('/')
+        .filter(segment => segment.length > 0 && segment !== '.');
+
+    if (segments.length === 0 || segments.includes('..') || /^[a-zA-Z]:/.test(segments[0])) {
+        return null;
+    }
+
+    return segments.join('/');
+}
+
 /**
  * Validate expiration minutes
  */
@@ -193,53 +225,82 @@ export function validateMaxViews(maxViews?: number): { valid: boolean; error?: s
 }
 
 // ============================================
-// Supported Languages
+// Paste Visibility
+// ============================================
+
+/**
+ * public   - listed in search
+ * unlisted - readable by anyone with the link (the default)
+ * private  - readable only by the owner
+ */
+export const PASTE_VISIBILITIES = ['public', 'unlisted', 'private'] as const;
+
+export type PasteVisibility = typeof PASTE_VISIBILITIES[number];
+
+// ============================================
+// Line Ranges
+// ============================================
+
+/**
+ * Inclusive, 1-based line range - "10-24" in /raw?lines=, "L10-L24" in the viewer's URL
+ */
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Sort ranges and merge any that overlap or touch
+ */
+export function mergeLineRanges(ranges: LineRange[]): LineRange[] {
+    const sorted = [...ranges].sort((a, b) => a.start - b.start);
+    const merged: LineRange[] = [];
+
+    for (const range of sorted) {
+        const last = merged[merged.length - 1];
+
+        if (last && range.start <= last.end + 1) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            merged.push({ ...range });
+        }
+    }
+
+    return merged;
+}
+
+/**
+ * The lines of content inside the ranges, in order; ranges past the end are cut short
+ */
+export function sliceLines(content: string, ranges: LineRange[]): string {
+    const lines = content.split('\n');
+
+    return mergeLineRanges(ranges)
+        .flatMap(range => lines.slice(range.start - 1, range.end))
+        .join('\n');
+}
+
+// ============================================
+// Output Helpers
 // ============================================
 
-export const SUPPORTED_LANGUAGES = [
-    'text',
-    'javascript',
-    'typescript',
-    'python',
-    'java',
-    'cpp',
-    'c',
-    'csharp',
-    'go',
-    'rust',
-    'ruby',
-    'php',
-    'swift',
-    'kotlin',
-    'html',
-    'css',
-    'scss',
-    'json',
-    'xml',
-    'yaml',
-    'markdown',
-    'sql',
-    'bash',
-    'powershell',
-] as const;
-
-export type SupportedLanguage = typeof SUPPORTED_LANGUAGES[number];
-
-/**
- * Validate language
- */
-export function validateLanguage(language?: string): { valid: boolean; normalized?: string | null } {
-    if (!language) {
-        return { valid: true, normalized: null };
-    }
-
-    const normalized = language.toLowerCase().trim();
-
-    // Accept any language - we just normalize common ones
-    if (SUPPORTED_LANGUAGES.includes(normalized as SupportedLanguage)) {
-        return { valid: true, normalized };
-    }
-
-    // Accept unknown languages but log for potential future support
-    return { valid: true, normalized };
+/**
+ * Escape text for XML and HTML - feeds, rendered pastes, preview pages
+ */
+export function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+        // Control characters other than tab and newlines aren't allowed in XML
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+/**
+ * Frontend base URL - links for people point at the paste page, not the API
+ */
+export function getFrontendUrl(): string {
+    return (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/+$/, '');
 }
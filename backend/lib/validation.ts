@@ -4,23 +4,59 @@
  */
 
 import { z } from 'zod';
-import { MAX_CONTENT_SIZE, SUPPORTED_LANGUAGES } from './utils';
+import {
+    MAX_CONTENT_SIZE,
+    MAX_UPLOAD_FILES,
+    MAX_UPLOAD_SIZE,
+    PASTE_VISIBILITIES,
+    normalizeUploadPath,
+} from './utils';
+import { resolveLanguage } from './languages';
+import { API_SCOPES, DEFAULT_API_SCOPES, API_KEY_MAX_RATE_LIMIT } from './auth';
+import { RENDER_FORMATS, RENDER_MODES, RENDER_THEMES } from './render';
+import { isTextOperation, TextOperation } from './ot';
 
 // ============================================
 // Create Paste Schema
 // ============================================
 
+const PasteContentSchema = z
+    .string()
+    .min(1, 'Content is required')
+    .max(MAX_CONTENT_SIZE, `Content must not exceed ${MAX_CONTENT_SIZE / 1024}KB`)
+    .transform(val => val.trim());
+
+// Aliases map to their language ("py" -> "python"); blank means none
+const LanguageNameSchema = z
+    .string()
+    .max(50, 'Language must not exceed 50 characters')
+    .transform((val, ctx) => {
+        if (!val.trim()) {
+            return null;
+        }
+
+        const language = resolveLanguage(val);
+
+        if (!language) {
+            ctx.addIssue({ code: 'custom', message: `Unsupported language "${val.trim()}" - see GET /api/languages` });
+            return z.NEVER;
+        }
+
+        return language;
+    });
+
+const PasteLanguageSchema = LanguageNameSchema
+    .optional()
+    .transform(val => val ?? null);
+
+const PasteVisibilitySchema = z.enum(PASTE_VISIBILITIES, {
+    error: `Visibility must be one of: ${PASTE_VISIBILITIES.join(', ')}`,
+});
+
 export const CreatePasteSchema = z.object({
-    content: z
-        .string()
-        .min(1, 'Content is required')
-        .max(MAX_CONTENT_SIZE, `Content must not exceed ${MAX_CONTENT_SIZE / 1024}KB`)
-        .transform(val => val.trim()),
+    content: PasteContentSchema,
 
-    language: z
-        .string()
-        .optional()
-        .transform(val => val?.toLowerCase().trim() || null),
+    language: PasteLanguageSchema,
 
     expiresIn: z
         .number()
@@ -37,7 +73,36 @@ export const CreatePasteSchema = z.object({
         .max(1000000, 'Maximum view limit is 1,000,000')
         .optional()
         .nullable(),
-});
+
+    password: z
+        .string()
+        .min(4, 'Password must be at least 4 characters')
+        .max(256, 'Password must not exceed 256 characters')
+        .optional()
+        .nullable(),
+
+    // Content is AES-GCM ciphertext (base64 of IV + data); the key never reaches the server
+    encrypted: z
+        .boolean()
+        .optional()
+        .default(false),
+
+    visibility: PasteVisibilitySchema
+        .optional()
+        .default('unlisted'),
+
+    // Live tail - the owner keeps appending through POST /:id/append
+    appendable: z
+        .boolean()
+        .optional()
+        .default(false),
+}).refine(
+    data => !data.encrypted || /^[A-Za-z0-9+/]+={0,2}$/.test(data.content),
+    { message: 'Encrypted content must be base64 encoded', path: ['content'] }
+).refine(
+    data => !data.appendable || (!data.encrypted && !data.maxViews),
+    { message: 'Appendable pastes cannot be encrypted or limited by views', path: ['appendable'] }
+);
 
 export type CreatePasteInput = z.infer<typeof CreatePasteSchema>;
 
@@ -55,6 +120,626 @@ export const GetPasteParamsSchema = z.object({
 
 export type GetPasteParams = z.infer<typeof GetPasteParamsSchema>;
 
+// ============================================
+// Update Paste Schema
+// ============================================
+
+export const UpdatePasteSchema = z.object({
+    content: PasteContentSchema,
+
+    // Omitted language and visibility keep the current ones
+    language: LanguageNameSchema.optional(),
+
+    visibility: PasteVisibilitySchema.optional(),
+
+    // Revision the edit was based on - rejects stale edits when given
+    baseRevision: z
+        .number()
+        .int('Base revision must be an integer')
+        .min(1, 'Base revision must be at least 1')
+        .optional(),
+});
+
+export type UpdatePasteInput = z.infer<typeof UpdatePasteSchema>;
+
+// ============================================
+// Append Paste Schema
+// ============================================
+
+export const AppendPasteSchema = z.object({
+    // Appended exactly as sent - log output keeps its whitespace and newlines
+    content: z
+        .string()
+        .max(MAX_CONTENT_SIZE, `Content must not exceed ${MAX_CONTENT_SIZE / 1024}KB`)
+        .optional()
+        .default(''),
+
+    done: z
+        .boolean()
+        .optional()
+        .default(false),
+}).refine(
+    data => data.content !== '' || data.done,
+    { message: 'Content is required unless done is set', path: ['content'] }
+);
+
+export type AppendPasteInput = z.infer<typeof AppendPasteSchema>;
+
+// ============================================
+// Fork Paste Schema
+// ============================================
+
+const { expiresIn, maxViews, password, encrypted, visibility } = CreatePasteSchema.shape;
+
+export const ForkPasteSchema = z.object({
+    // Omitted content and language are copied from the source paste
+    content: PasteContentSchema.optional(),
+    language: LanguageNameSchema.optional(),
+    expiresIn,
+    maxViews,
+    password,
+    encrypted,
+    visibility,
+}).refine(
+    data => !data.encrypted || data.content === undefined || /^[A-Za-z0-9+/]+={0,2}$/.test(data.content),
+    { message: 'Encrypted content must be base64 encoded', path: ['content'] }
+);
+
+export type ForkPasteInput = z.infer<typeof ForkPasteSchema>;
+
+// ============================================
+// Detect Language Schema
+// ============================================
+
+export const DetectLanguageSchema = z.object({
+    content: PasteContentSchema,
+});
+
+export type DetectLanguageInput = z.infer<typeof DetectLanguageSchema>;
+
+// ============================================
+// Revision Params Schema
+// ============================================
+
+export const GetRevisionParamsSchema = GetPasteParamsSchema.extend({
+    n: z.coerce
+        .number()
+        .int('Revision must be an integer')
+        .min(1, 'Revision must be at least 1'),
+});
+
+export type GetRevisionParams = z.infer<typeof GetRevisionParamsSchema>;
+
+// ============================================
+// Comment Schema
+// ============================================
+
+const LineNumberSchema = z
+    .number()
+    .int('Line numbers must be integers')
+    .min(1, 'Line numbers start at 1');
+
+export const CreateCommentSchema = z.object({
+    body: z
+        .string()
+        .trim()
+        .min(1, 'Comment is required')
+        .max(5000, 'Comment must not exceed 5,000 characters'),
+
+    // Display name - comments are anonymous without one
+    author: z
+        .string()
+        .trim()
+        .max(50, 'Author must not exceed 50 characters')
+        .optional()
+        .transform(val => val || null),
+
+    // Omitted revision anchors to the latest; omitted lines cover the whole paste
+    revision: z
+        .number()
+        .int('Revision must be an integer')
+        .min(1, 'Revision must be at least 1')
+        .optional(),
+
+    lineStart: LineNumberSchema.optional(),
+    lineEnd: LineNumberSchema.optional(),
+}).refine(
+    data => data.lineEnd === undefined || (data.lineStart !== undefined && data.lineEnd >= data.lineStart),
+    { message: 'lineEnd needs a lineStart at or before it', path: ['lineEnd'] }
+);
+
+export type CreateCommentInput = z.infer<typeof CreateCommentSchema>;
+
+// ============================================
+// Diff Schemas
+// ============================================
+
+export const DiffParamsSchema = GetPasteParamsSchema.extend({
+    otherId: GetPasteParamsSchema.shape.id,
+});
+
+export type DiffParams = z.infer<typeof DiffParamsSchema>;
+
+const RevisionQuerySchema = z.coerce
+    .number()
+    .int('Revision must be an integer')
+    .min(1, 'Revision must be at least 1')
+    .optional();
+
+export const DiffQuerySchema = z.object({
+    // Revisions to compare - default to each paste's latest
+    rev: RevisionQuerySchema,
+    otherRev: RevisionQuerySchema,
+});
+
+export type DiffQuery = z.infer<typeof DiffQuerySchema>;
+
+// ============================================
+// Search Schema
+// ============================================
+
+export const SearchQuerySchema = z.object({
+    q: z
+        .string()
+        .trim()
+        .min(1, 'Search query is required')
+        .max(200, 'Search must not exceed 200 characters'),
+
+    language: LanguageNameSchema.optional(),
+
+    page: z.coerce
+        .number()
+        .int('Page must be an integer')
+        .min(1, 'Page must be at least 1')
+        .optional()
+        .default(1),
+
+    limit: z.coerce
+        .number()
+        .int('Limit must be an integer')
+        .min(1, 'Limit must be at least 1')
+        .max(50, 'Limit must not exceed 50')
+        .optional()
+        .default(20),
+});
+
+export type SearchQuery = z.infer<typeof SearchQuerySchema>;
+
+// ============================================
+// Recent Pastes Schemas
+// ============================================
+
+export const FeedQuerySchema = z.object({
+    language: LanguageNameSchema.optional(),
+});
+
+export type FeedQuery = z.infer<typeof FeedQuerySchema>;
+
+export const RecentQuerySchema = FeedQuerySchema.extend({
+    // Opaque - the nextCursor of the previous page
+    cursor: z
+        .string()
+        .max(200, 'Invalid cursor')
+        .optional(),
+
+    limit: z.coerce
+        .number()
+        .int('Limit must be an integer')
+        .min(1, 'Limit must be at least 1')
+        .max(50, 'Limit must not exceed 50')
+        .optional()
+        .default(20),
+});
+
+export type RecentQuery = z.infer<typeof RecentQuerySchema>;
+
+// ============================================
+// Raw Content Schema
+// ============================================
+
+export const RawQuerySchema = z.object({
+    // "10-24", or several ranges: "1-5,9,20-30" (the viewer's L10-L24 form works too)
+    lines: z
+        .string()
+        .max(200, 'Lines must not exceed 200 characters')
+        .regex(/^L?\d+(-L?\d+)?(,L?\d+(-L?\d+)?)*$/i, 'Lines must look like 10-24 or 1-5,9')
+        .transform((val, ctx) => {
+            const ranges = val.split(',').map(part => {
+                const [start, end = start] = part.replace(/L/gi, '').split('-').map(Number);
+                return { start, end };
+            });
+
+            if (ranges.some(range => range.start < 1 || range.end < range.start)) {
+                ctx.addIssue({ code: 'custom', message: 'Line ranges must start at 1 or later and not run backwards' });
+                return z.NEVER;
+            }
+
+            return ranges;
+        })
+        .optional(),
+});
+
+export type RawQuery = z.infer<typeof RawQuerySchema>;
+
+// ============================================
+// Render Schemas
+// ============================================
+
+export const RenderParamsSchema = GetPasteParamsSchema.extend({
+    format: z.enum(RENDER_FORMATS, {
+        error: `Format must be one of: ${RENDER_FORMATS.join(', ')}`,
+    }),
+});
+
+export type RenderParams = z.infer<typeof RenderParamsSchema>;
+
+export const RenderQuerySchema = z.object({
+    theme: z
+        .enum(RENDER_THEMES, {
+            error: `Theme must be one of: ${RENDER_THEMES.join(', ')}`,
+        })
+        .optional()
+        .default('dark'),
+
+    // markdown is only available as HTML
+    mode: z
+        .enum(RENDER_MODES, {
+            error: `Mode must be one of: ${RENDER_MODES.join(', ')}`,
+        })
+        .optional()
+        .default('code'),
+
+    // PNG only - pixel density of the image
+    scale: z.coerce
+        .number()
+        .int('Scale must be an integer')
+        .min(1, 'Scale must be at least 1')
+        .max(2, 'Scale must not exceed 2')
+        .optional()
+        .default(2),
+});
+
+export type RenderQuery = z.infer<typeof RenderQuerySchema>;
+
+// ============================================
+// oEmbed Schema
+// ============================================
+
+const EmbedDimensionSchema = z.coerce
+    .number()
+    .int('Dimensions must be integers')
+    .min(1, 'Dimensions must be at least 1')
+    .optional();
+
+export const OEmbedQuerySchema = z.object({
+    url: z
+        .string()
+        .min(1, 'URL is required')
+        .max(2000, 'URL is too long'),
+
+    format: z
+        .enum(['json', 'xml'], {
+            error: 'Format must be json or xml',
+        })
+        .optional()
+        .default('json'),
+
+    maxwidth: EmbedDimensionSchema,
+    maxheight: EmbedDimensionSchema,
+});
+
+export type OEmbedQuery = z.infer<typeof OEmbedQuerySchema>;
+
+// ============================================
+// Create Upload Schema
+// ============================================
+
+export const UploadedFileSchema = z.object({
+    path: z
+        .string()
+        .min(1, 'File path is required')
+        .max(500, 'File path is too long')
+        .transform((val, ctx) => {
+            const normalized = normalizeUploadPath(val);
+            if (!normalized) {
+                ctx.addIssue({ code: 'custom', message: 'Invalid file path' });
+                return z.NEVER;
+            }
+            return normalized;
+        }),
+
+    name: z
+        .string()
+        .min(1, 'File name is required')
+        .max(255, 'File name is too long'),
+
+    content: z
+        .string()
+        .regex(/^[A-Za-z0-9+/]*={0,2}$/, 'File content must be base64 encoded'),
+
+    size: z
+        .number()
+        .int('File size must be an integer')
+        .min(0, 'File size cannot be negative'),
+
+    type: z
+        .string()
+        .max(255, 'File type is too long')
+        .optional()
+        .transform(val => val?.trim() || 'application/octet-stream'),
+});
+
+export const CreateUploadSchema = z.object({
+    name: z
+        .string()
+        .trim()
+        .min(1, 'Name is required')
+        .max(200, 'Name must not exceed 200 characters'),
+
+    files: z
+        .array(UploadedFileSchema)
+        .min(1, 'At least one file is required')
+        .max(MAX_UPLOAD_FILES, `Maximum ${MAX_UPLOAD_FILES} files allowed`)
+        .refine(
+            files => new Set(files.map(f => f.path)).size === files.length,
+            'File paths must be unique'
+        )
+        .refine(
+            files => files.reduce((sum, f) => sum + f.size, 0) <= MAX_UPLOAD_SIZE,
+            `Total size must not exceed ${MAX_UPLOAD_SIZE / (1024 * 1024)}MB`
+        ),
+
+    expiresIn: z
+        .number()
+        .int('Expiration time must be an integer')
+        .min(0, 'Expiration time cannot be negative')
+        .max(365 * 24 * 60, 'Maximum expiration is 1 year')
+        .optional()
+        .nullable(),
+
+    maxViews: z
+        .number()
+        .int('Max views must be an integer')
+        .min(1, 'Max views must be at least 1')
+        .max(1000000, 'Maximum view limit is 1,000,000')
+        .optional()
+        .nullable(),
+});
+
+export type CreateUploadInput = z.infer<typeof CreateUploadSchema>;
+
+// ============================================
+// Upload Params Schemas
+// ============================================
+
+export const GetUploadParamsSchema = z.object({
+    id: z
+        .string()
+        .min(1, 'Upload ID is required')
+        .max(20, 'Invalid upload ID')
+        .regex(/^[a-zA-Z0-9]+$/, 'Invalid upload ID format'),
+});
+
+export type GetUploadParams = z.infer<typeof GetUploadParamsSchema>;
+
+export const DownloadFileParamsSchema = GetUploadParamsSchema.extend({
+    // Express 5 wildcards yield an array of path segments
+    path: z
+        .union([z.array(z.string()), z.string()])
+        .transform((val, ctx) => {
+            const normalized = normalizeUploadPath(Array.isArray(val) ? val.join('/') : val);
+            if (!normalized) {
+                ctx.addIssue({ code: 'custom', message: 'Invalid file path' });
+                return z.NEVER;
+            }
+            return normalized;
+        }),
+});
+
+export type DownloadFileParams = z.infer<typeof DownloadFileParamsSchema>;
+
+/**
+ * The download grant from GET /api/files/:id - without one a download counts a view
+ */
+const DownloadTokenSchema = z
+    .string()
+    .max(200, 'Download token is too long')
+    .optional();
+
+export const DownloadQuerySchema = z.object({
+    token: DownloadTokenSchema,
+});
+
+export type DownloadQuery = z.infer<typeof DownloadQuerySchema>;
+
+export const ARCHIVE_FORMATS = ['zip', 'tar.gz'] as const;
+
+export const ArchiveQuerySchema = z.object({
+    format: z
+        .enum(ARCHIVE_FORMATS, { message: `Format must be one of: ${ARCHIVE_FORMATS.join(', ')}` })
+        .optional()
+        .default('zip'),
+
+    token: DownloadTokenSchema,
+});
+
+export type ArchiveQuery = z.infer<typeof ArchiveQuerySchema>;
+
+// ============================================
+// Account Schemas
+// ============================================
+
+const EmailSchema = z
+    .string()
+    .trim()
+    .toLowerCase()
+    .max(254, 'Email must not exceed 254 characters')
+    .email('Invalid email address');
+
+export const RegisterSchema = z.object({
+    email: EmailSchema,
+
+    password: z
+        .string()
+        .min(8, 'Password must be at least 8 characters')
+        .max(256, 'Password must not exceed 256 characters'),
+});
+
+export type RegisterInput = z.infer<typeof RegisterSchema>;
+
+export const LoginSchema = z.object({
+    email: EmailSchema,
+    password: z.string().min(1, 'Password is required').max(256, 'Invalid password'),
+});
+
+export type LoginInput = z.infer<typeof LoginSchema>;
+
+export const AccountListQuerySchema = z.object({
+    // Matches IDs, languages and content for pastes; names and file paths for uploads
+    q: z
+        .string()
+        .trim()
+        .max(200, 'Search must not exceed 200 characters')
+        .optional(),
+
+    page: z.coerce
+        .number()
+        .int('Page must be an integer')
+        .min(1, 'Page must be at least 1')
+        .optional()
+        .default(1),
+
+    limit: z.coerce
+        .number()
+        .int('Limit must be an integer')
+        .min(1, 'Limit must be at least 1')
+        .max(100, 'Limit must not exceed 100')
+        .optional()
+        .default(20),
+});
+
+export type AccountListQuery = z.infer<typeof AccountListQuerySchema>;
+
+export const BulkDeleteSchema = z.object({
+    // Paste and upload IDs share a format
+    ids: z
+        .array(GetPasteParamsSchema.shape.id)
+        .min(1, 'At least one ID is required')
+        .max(100, 'Maximum 100 IDs per request'),
+});
+
+export type BulkDeleteInput = z.infer<typeof BulkDeleteSchema>;
+
+export const CreateApiKeySchema = z.object({
+    name: z
+        .string()
+        .trim()
+        .min(1, 'Name is required')
+        .max(100, 'Name must not exceed 100 characters'),
+    scopes: z
+        .array(z.enum(API_SCOPES))
+        .min(1, 'Select at least one scope')
+        .optional()
+        .transform(scopes => (scopes ? [...new Set(scopes)] : DEFAULT_API_SCOPES)),
+    rateLimit: z
+        .number()
+        .int('Rate limit must be a whole number')
+        .min(1, 'Rate limit must be at least 1 request per minute')
+        .max(API_KEY_MAX_RATE_LIMIT, `Rate limit must not exceed ${API_KEY_MAX_RATE_LIMIT} requests per minute`)
+        .nullable()
+        .optional()
+        .transform(v => v ?? null),
+});
+
+export type CreateApiKeyInput = z.infer<typeof CreateApiKeySchema>;
+
+export const ApiKeyParamsSchema = z.object({
+    id: z
+        .string()
+        .min(1, 'API key ID is required')
+        .max(50, 'Invalid API key ID')
+        .regex(/^[a-z0-9]+$/, 'Invalid API key ID format'),
+});
+
+export type ApiKeyParams = z.infer<typeof ApiKeyParamsSchema>;
+
+// ============================================
+// Live Session Schemas
+// ============================================
+
+export const CreateLiveSessionSchema = z.object({
+    // Starting text - empty when omitted, e.g. seeded from a paste being debugged
+    content: z
+        .string()
+        .max(MAX_CONTENT_SIZE, `Content must not exceed ${MAX_CONTENT_SIZE / 1024}KB`)
+        .optional()
+        .default(''),
+
+    language: PasteLanguageSchema,
+});
+
+export type CreateLiveSessionInput = z.infer<typeof CreateLiveSessionSchema>;
+
+export const LiveSessionParamsSchema = z.object({
+    id: z
+        .string()
+        .min(1, 'Session ID is required')
+        .max(20, 'Invalid session ID')
+        .regex(/^[a-zA-Z0-9]+$/, 'Invalid session ID format'),
+});
+
+export type LiveSessionParams = z.infer<typeof LiveSessionParamsSchema>;
+
+export const LiveSocketQuerySchema = z.object({
+    name: z
+        .string()
+        .trim()
+        .max(50, 'Name must not exceed 50 characters')
+        .optional()
+        .transform(val => val || null),
+});
+
+const LiveRevisionSchema = z
+    .number()
+    .int('Revision must be an integer')
+    .min(0, 'Revision cannot be negative');
+
+const LiveSelectionSchema = z.object({
+    anchor: z.number().int().min(0),
+    head: z.number().int().min(0),
+});
+
+/**
+ * Messages a participant sends over the live session socket
+ * Revisions are the last server revision the sender had seen
+ */
+export const LiveMessageSchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('operation'),
+        revision: LiveRevisionSchema,
+        operation: z.custom<TextOperation>(isTextOperation, 'Invalid operation'),
+        selection: LiveSelectionSchema.nullable().optional(),
+    }),
+    z.object({
+        type: z.literal('selection'),
+        revision: LiveRevisionSchema,
+        selection: LiveSelectionSchema.nullable(),
+    }),
+    z.object({
+        type: z.literal('language'),
+        language: LanguageNameSchema,
+    }),
+    // Announces a snapshot taken with POST /api/pastes - its owner token proves
+    // the sender took it
+    z.object({
+        type: z.literal('snapshot'),
+        pasteId: GetPasteParamsSchema.shape.id,
+        ownerToken: z.string().min(1, 'Owner token is required').max(100),
+    }),
+]);
+
+export type LiveMessage = z.infer<typeof LiveMessageSchema>;
+
 // ============================================
 // Validation Helper
 // ============================================
@@ -0,0 +1,181 @@
+-- CreateTable
+CREATE TABLE "Paste" (
+    "id" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "language" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "maxViews" INTEGER,
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "isExpired" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "passwordHash" TEXT,
+    "isEncrypted" BOOLEAN NOT NULL DEFAULT false,
+    "ownerTokenHash" TEXT,
+    "revision" INTEGER NOT NULL DEFAULT 1,
+    "editedAt" TIMESTAMP(3),
+    "forkedFromId" TEXT,
+    "userId" TEXT,
+
+    CONSTRAINT "Paste_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PasteRevision" (
+    "id" TEXT NOT NULL,
+    "pasteId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "language" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PasteRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Upload" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "fileCount" INTEGER NOT NULL,
+    "totalSize" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "maxViews" INTEGER,
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "isExpired" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT,
+
+    CONSTRAINT "Upload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UploadedFile" (
+    "id" TEXT NOT NULL,
+    "uploadId" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "content" BYTEA NOT NULL,
+
+    CONSTRAINT "UploadedFile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "User" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "passwordHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "User_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApiKey" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "scopes" TEXT[] DEFAULT ARRAY['paste:create', 'paste:read', 'paste:delete']::TEXT[],
+    "rateLimit" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ApiKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Session" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Session_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RateLimit" (
+    "key" TEXT NOT NULL,
+    "hits" INTEGER NOT NULL,
+    "resetAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RateLimit_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "Paste_expiresAt_idx" ON "Paste"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "Paste_isExpired_idx" ON "Paste"("isExpired");
+
+-- CreateIndex
+CREATE INDEX "Paste_createdAt_idx" ON "Paste"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "Paste_forkedFromId_idx" ON "Paste"("forkedFromId");
+
+-- CreateIndex
+CREATE INDEX "Paste_userId_createdAt_idx" ON "Paste"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PasteRevision_pasteId_number_key" ON "PasteRevision"("pasteId", "number");
+
+-- CreateIndex
+CREATE INDEX "Upload_expiresAt_idx" ON "Upload"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "Upload_isExpired_idx" ON "Upload"("isExpired");
+
+-- CreateIndex
+CREATE INDEX "Upload_createdAt_idx" ON "Upload"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "Upload_userId_createdAt_idx" ON "Upload"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UploadedFile_uploadId_path_key" ON "UploadedFile"("uploadId", "path");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApiKey_keyHash_key" ON "ApiKey"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "ApiKey_userId_idx" ON "ApiKey"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Session_tokenHash_key" ON "Session"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "Session_userId_idx" ON "Session"("userId");
+
+-- CreateIndex
+CREATE INDEX "Session_expiresAt_idx" ON "Session"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "RateLimit_resetAt_idx" ON "RateLimit"("resetAt");
+
+-- AddForeignKey
+ALTER TABLE "Paste" ADD CONSTRAINT "Paste_forkedFromId_fkey" FOREIGN KEY ("forkedFromId") REFERENCES "Paste"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Paste" ADD CONSTRAINT "Paste_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PasteRevision" ADD CONSTRAINT "PasteRevision_pasteId_fkey" FOREIGN KEY ("pasteId") REFERENCES "Paste"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Upload" ADD CONSTRAINT "Upload_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UploadedFile" ADD CONSTRAINT "UploadedFile_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "Upload"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApiKey" ADD CONSTRAINT "ApiKey_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Session" ADD CONSTRAINT "Session_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
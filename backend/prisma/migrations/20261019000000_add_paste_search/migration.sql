@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Paste" ADD COLUMN "visibility" TEXT NOT NULL DEFAULT 'unlisted';
+
+-- AlterTable
+-- Prisma can't express generated columns; only public plaintext pastes get a vector,
+-- so unlisted, private and encrypted content never reaches the index
+ALTER TABLE "Paste" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    CASE
+        WHEN "visibility" = 'public' AND NOT "isEncrypted" THEN to_tsvector('english', "content")
+    END
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Paste_visibility_createdAt_idx" ON "Paste"("visibility", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Paste_searchVector_idx" ON "Paste" USING GIN ("searchVector");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Paste" ADD COLUMN     "appendable" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "appendCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "droppedChars" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "closedAt" TIMESTAMP(3);
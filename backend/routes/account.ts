@@ -0,0 +1,474 @@
+/**
+ * Account Routes - A signed-in user's pastes, uploads and API keys
+ * Production-grade REST API handlers
+ */
+
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { requireAuth, requireScope, requireSession, generateApiKey, isAdmin } from '../lib/auth';
+import {
+    AccountListQuerySchema,
+    BulkDeleteSchema,
+    CreateApiKeySchema,
+    ApiKeyParamsSchema,
+    validateRequest,
+} from '../lib/validation';
+import { ErrorCodes } from '../lib/types';
+
+const router = Router();
+
+// Every account route needs a signed-in user
+router.use(requireAuth);
+
+/**
+ * Characters of content shown per paste in listings
+ */
+const PREVIEW_LENGTH = 200;
+
+/**
+ * Maximum API keys per account
+ */
+const MAX_API_KEYS = 25;
+
+// ============================================
+// GET /api/account/pastes - List and search own pastes
+// ============================================
+
+router.get('/pastes', requireScope('paste:read'), async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(AccountListQuerySchema, req.query);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid query',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const { q, page, limit } = validation.data;
+
+        const where: Prisma.PasteWhereInput = {
+            userId: req.user!.id,
+            ...(q && {
+                OR: [
+                    { id: q },
+                    { language: { equals: q, mode: 'insensitive' } },
+                    // Ciphertext can't match anything meaningful
+                    { isEncrypted: false, content: { contains: q, mode: 'insensitive' } },
+                ],
+            }),
+        };
+
+        const [pastes, total] = await Promise.all([
+            prisma.paste.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+                select: {
+                    id: true,
+                    language: true,
+                    createdAt: true,
+                    expiresAt: true,
+                    viewCount: true,
+                    maxViews: true,
+                    isExpired: true,
+                    isEncrypted: true,
+                    passwordHash: true,
+                    visibility: true,
+                    revision: true,
+                },
+            }),
+            prisma.paste.count({ where }),
+        ]);
+
+        // Only the start of each paste is needed - don't load whole contents
+        const previews = new Map<string, string>();
+
+        if (pastes.length > 0) {
+            const rows = await prisma.$queryRaw<{ id: string; preview: string }[]>`
+                SELECT "id", LEFT("content", ${PREVIEW_LENGTH}) AS "preview"
+                FROM "Paste"
+                WHERE "id" IN (${Prisma.join(pastes.map(paste => paste.id))})
+            `;
+
+            for (const row of rows) {
+                previews.set(row.id, row.preview);
+            }
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                items: pastes.map(paste => ({
+                    id: paste.id,
+                    preview: paste.isEncrypted ? null : previews.get(paste.id) ?? '',
+                    language: paste.language,
+                    createdAt: paste.createdAt,
+                    expiresAt: paste.expiresAt,
+                    viewCount: paste.viewCount,
+                    maxViews: paste.maxViews,
+                    isExpired: paste.isExpired,
+                    encrypted: paste.isEncrypted,
+                    passwordProtected: paste.passwordHash !== null,
+                    visibility: paste.visibility,
+                    revision: paste.revision,
+                })),
+                total,
+                page,
+                limit,
+            },
+        });
+    } catch (error) {
+        console.error('Error listing account pastes:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to list pastes',
+            },
+        });
+    }
+});
+
+// ============================================
+// POST /api/account/pastes/bulk-delete - Delete several own pastes
+// ============================================
+
+router.post('/pastes/bulk-delete', requireScope('paste:delete'), async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(BulkDeleteSchema, req.body);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid request data',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        // IDs owned by someone else are skipped, not reported
+        const result = await prisma.paste.deleteMany({
+            where: {
+                id: { in: validation.data.ids },
+                userId: req.user!.id,
+            },
+        });
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                deleted: result.count,
+            },
+        });
+    } catch (error) {
+        console.error('Error deleting account pastes:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to delete pastes',
+            },
+        });
+    }
+});
+
+// ============================================
+// GET /api/account/uploads - List and search own uploads
+// ============================================
+
+router.get('/uploads', requireScope('paste:read'), async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(AccountListQuerySchema, req.query);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid query',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const { q, page, limit } = validation.data;
+
+        const where: Prisma.UploadWhereInput = {
+            userId: req.user!.id,
+            ...(q && {
+                OR: [
+                    { id: q },
+                    { name: { contains: q, mode: 'insensitive' } },
+                    { files: { some: { path: { contains: q, mode: 'insensitive' } } } },
+                ],
+            }),
+        };
+
+        const [uploads, total] = await Promise.all([
+            prisma.upload.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.upload.count({ where }),
+        ]);
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                items: uploads.map(upload => ({
+                    id: upload.id,
+                    name: upload.name,
+                    fileCount: upload.fileCount,
+                    totalSize: upload.totalSize,
+                    createdAt: upload.createdAt,
+                    expiresAt: upload.expiresAt,
+                    viewCount: upload.viewCount,
+                    maxViews: upload.maxViews,
+                    isExpired: upload.isExpired,
+                })),
+                total,
+                page,
+                limit,
+            },
+        });
+    } catch (error) {
+        console.error('Error listing account uploads:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to list uploads',
+            },
+        });
+    }
+});
+
+// ============================================
+// POST /api/account/uploads/bulk-delete - Delete several own uploads
+// ============================================
+
+router.post('/uploads/bulk-delete', requireScope('paste:delete'), async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(BulkDeleteSchema, req.body);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid request data',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const result = await prisma.upload.deleteMany({
+            where: {
+                id: { in: validation.data.ids },
+                userId: req.user!.id,
+            },
+        });
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                deleted: result.count,
+            },
+        });
+    } catch (error) {
+        console.error('Error deleting account uploads:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to delete uploads',
+            },
+        });
+    }
+});
+
+// ============================================
+// GET /api/account/keys - List API keys
+// ============================================
+
+router.get('/keys', requireSession, async (req: Request, res: Response) => {
+    try {
+        const keys = await prisma.apiKey.findMany({
+            where: { userId: req.user!.id },
+            orderBy: { createdAt: 'desc' },
+            select: {
+                id: true,
+                name: true,
+                prefix: true,
+                scopes: true,
+                rateLimit: true,
+                createdAt: true,
+                lastUsedAt: true,
+            },
+        });
+
+        return res.status(200).json({
+            success: true,
+            data: keys,
+        });
+    } catch (error) {
+        console.error('Error listing API keys:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to list API keys',
+            },
+        });
+    }
+});
+
+// ============================================
+// POST /api/account/keys - Create an API key
+// ============================================
+
+router.post('/keys', requireSession, async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(CreateApiKeySchema, req.body);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid request data',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const { name, scopes, rateLimit } = validation.data;
+
+        if (scopes.includes('admin:stats') && !isAdmin(req.user!.email)) {
+            return res.status(403).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.FORBIDDEN,
+                    message: 'Only administrators can create keys with the admin:stats scope',
+                },
+            });
+        }
+
+        const keyCount = await prisma.apiKey.count({
+            where: { userId: req.user!.id },
+        });
+
+        if (keyCount >= MAX_API_KEYS) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: `Maximum ${MAX_API_KEYS} API keys per account - revoke one first`,
+                },
+            });
+        }
+
+        const { key, prefix, keyHash } = generateApiKey();
+
+        const apiKey = await prisma.apiKey.create({
+            data: {
+                userId: req.user!.id,
+                name,
+                prefix,
+                keyHash,
+                scopes,
+                rateLimit,
+            },
+        });
+
+        return res.status(201).json({
+            success: true,
+            data: {
+                id: apiKey.id,
+                name: apiKey.name,
+                prefix: apiKey.prefix,
+                scopes: apiKey.scopes,
+                rateLimit: apiKey.rateLimit,
+                createdAt: apiKey.createdAt,
+                lastUsedAt: apiKey.lastUsedAt,
+                key,
+            },
+        });
+    } catch (error) {
+        console.error('Error creating API key:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to create API key',
+            },
+        });
+    }
+});
+
+// ============================================
+// DELETE /api/account/keys/:id - Revoke an API key
+// ============================================
+
+router.delete('/keys/:id', requireSession, async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(ApiKeyParamsSchema, req.params);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid API key ID',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const { id } = validation.data;
+
+        const result = await prisma.apiKey.deleteMany({
+            where: { id, userId: req.user!.id },
+        });
+
+        if (result.count === 0) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.NOT_FOUND,
+                    message: 'API key not found',
+                },
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                id,
+                deleted: true,
+            },
+        });
+    } catch (error) {
+        console.error('Error revoking API key:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to revoke API key',
+            },
+        });
+    }
+});
+
+export default router;
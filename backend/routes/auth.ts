@@ -0,0 +1,222 @@
+/**
+ * Auth Routes - Optional accounts with email/password login
+ * Production-grade REST API handlers
+ */
+
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { hashPassword, verifyPassword, hashToken, generateToken } from '../lib/security';
+import { createSession, getBearerToken, requireAuth, API_KEY_PREFIX } from '../lib/auth';
+import { RegisterSchema, LoginSchema, validateRequest } from '../lib/validation';
+import { ErrorCodes } from '../lib/types';
+
+const router = Router();
+
+// ============================================
+// POST /api/auth/register - Create an account
+// ============================================
+
+router.post('/register', async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(RegisterSchema, req.body);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid request data',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const { email, password } = validation.data;
+
+        const user = await prisma.user.create({
+            data: {
+                email,
+                passwordHash: await hashPassword(password),
+            },
+        });
+
+        const session = await createSession(user.id);
+
+        return res.status(201).json({
+            success: true,
+            data: {
+                user: {
+                    id: user.id,
+                    email: user.email,
+                    createdAt: user.createdAt,
+                },
+                token: session.token,
+                expiresAt: session.expiresAt,
+            },
+        });
+    } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return res.status(409).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.EMAIL_TAKEN,
+                    message: 'An account with this email already exists',
+                },
+            });
+        }
+
+        console.error('Error registering user:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to create account',
+            },
+        });
+    }
+});
+
+// ============================================
+// POST /api/auth/login - Start a session
+// ============================================
+
+/**
+ * Checked against when the email is unknown, so that answer takes as long as a
+ * wrong password and timing doesn't reveal which emails have accounts
+ */
+let dummyPasswordHash: Promise<string> | null = null;
+
+const getDummyPasswordHash = () => (dummyPasswordHash ??= hashPassword(generateToken()));
+
+router.post('/login', async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(LoginSchema, req.body);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid request data',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const { email, password } = validation.data;
+
+        const user = await prisma.user.findUnique({
+            where: { email },
+        });
+
+        // Same answer, in the same time, for unknown emails and wrong passwords
+        const passwordMatches = await verifyPassword(password, user?.passwordHash ?? await getDummyPasswordHash());
+
+        if (!user || !passwordMatches) {
+            return res.status(401).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.INVALID_CREDENTIALS,
+                    message: 'Incorrect email or password',
+                },
+            });
+        }
+
+        const session = await createSession(user.id);
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                user: {
+                    id: user.id,
+                    email: user.email,
+                    createdAt: user.createdAt,
+                },
+                token: session.token,
+                expiresAt: session.expiresAt,
+            },
+        });
+    } catch (error) {
+        console.error('Error logging in:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to log in',
+            },
+        });
+    }
+});
+
+// ============================================
+// POST /api/auth/logout - End the current session
+// ============================================
+
+router.post('/logout', requireAuth, async (req: Request, res: Response) => {
+    try {
+        const token = getBearerToken(req);
+
+        // API keys are revoked from the dashboard, not by logging out
+        if (token && !token.startsWith(API_KEY_PREFIX)) {
+            await prisma.session.deleteMany({
+                where: { tokenHash: hashToken(token) },
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                loggedOut: true,
+            },
+        });
+    } catch (error) {
+        console.error('Error logging out:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to log out',
+            },
+        });
+    }
+});
+
+// ============================================
+// GET /api/auth/me - Current user
+// ============================================
+
+router.get('/me', requireAuth, async (req: Request, res: Response) => {
+    try {
+        const user = await prisma.user.findUnique({
+            where: { id: req.user!.id },
+            select: { id: true, email: true, createdAt: true },
+        });
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.NOT_FOUND,
+                    message: 'User not found',
+                },
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: user,
+        });
+    } catch (error) {
+        console.error('Error retrieving user:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to retrieve user',
+            },
+        });
+    }
+});
+
+export default router;
@@ -3,9 +3,11 @@
  * Production-grade maintenance endpoints
  */
 
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { prisma } from '../lib/prisma';
 import { cleanupRateLimiter } from '../lib/ratelimit';
+import { purgeExpiredRateLimits } from '../lib/ratelimit-store';
+import { authenticate, getBearerToken, isAdmin, API_KEY_PREFIX } from '../lib/auth';
 import { ErrorCodes } from '../lib/types';
 
 const router = Router();
@@ -40,7 +42,7 @@ function verifyCronSecret(req: Request, res: Response, next: Function) {
         return res.status(401).json({
             success: false,
             error: {
-                code: 'UNAUTHORIZED',
+                code: ErrorCodes.UNAUTHORIZED,
                 message: 'Invalid or missing authorization',
             },
         });
@@ -49,6 +51,40 @@ function verifyCronSecret(req: Request, res: Response, next: Function) {
     next();
 }
 
+// ============================================
+// Middleware: Verify Stats Access
+// ============================================
+
+/**
+ * Stats accept the cron secret or an admin's API key with the admin:stats scope
+ */
+function verifyStatsAccess(req: Request, res: Response, next: NextFunction) {
+    const token = getBearerToken(req);
+
+    if (!token || !token.startsWith(API_KEY_PREFIX)) {
+        return verifyCronSecret(req, res, next);
+    }
+
+    return authenticate(req, res, (error?: unknown) => {
+        if (error) {
+            return next(error);
+        }
+
+        // Admin status is re-checked in case the account was removed from ADMIN_EMAILS
+        if (!req.apiKey?.scopes.includes('admin:stats') || !isAdmin(req.user!.email)) {
+            return res.status(403).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.FORBIDDEN,
+                    message: 'API key is missing the admin:stats scope',
+                },
+            });
+        }
+
+        next();
+    });
+}
+
 // ============================================
 // GET /api/cleanup - Main cleanup endpoint
 // ============================================
@@ -82,6 +118,30 @@ router.get('/', cleanupRateLimiter, verifyCronSecret, async (req: Request, res:
         AND "viewCount" >= "maxViews"
     `;
 
+        // Apply the same rules to file uploads
+        const uploadsTimeExpired = await prisma.upload.updateMany({
+            where: {
+                isExpired: false,
+                expiresAt: {
+                    lte: now,
+                },
+            },
+            data: {
+                isExpired: true,
+            },
+        });
+
+        const uploadsViewExpired = await prisma.$executeRaw`
+      UPDATE "Upload" 
+      SET "isExpired" = true 
+      WHERE "isExpired" = false 
+        AND "maxViews" IS NOT NULL 
+        AND "viewCount" >= "maxViews"
+    `;
+
+        // Drop finished rate-limit windows (only the postgres store writes any)
+        const rateLimitsPurged = await purgeExpiredRateLimits();
+
         // Get statistics
         const totalExpired = await prisma.paste.count({
             where: { isExpired: true },
@@ -108,6 +168,8 @@ router.get('/', cleanupRateLimiter, verifyCronSecret, async (req: Request, res:
                     timeExpired: timeExpired.count,
                     viewExpired: Number(viewExpiredResult),
                     total: timeExpired.count + Number(viewExpiredResult),
+                    uploads: uploadsTimeExpired.count + Number(uploadsViewExpired),
+                    rateLimits: rateLimitsPurged,
                 },
                 statistics: {
                     totalExpired,
@@ -152,6 +214,18 @@ router.post('/purge', cleanupRateLimiter, verifyCronSecret, async (req: Request,
             },
         });
 
+        // Their comments and revisions are removed with them (cascade)
+        const purgedComments = await prisma.comment.count({
+            where: {
+                paste: {
+                    isExpired: true,
+                    createdAt: {
+                        lte: cutoffDate,
+                    },
+                },
+            },
+        });
+
         // Permanently delete old expired pastes
         const deleted = await prisma.paste.deleteMany({
             where: {
@@ -162,6 +236,25 @@ router.post('/purge', cleanupRateLimiter, verifyCronSecret, async (req: Request,
             },
         });
 
+        // Uploaded files are removed with their upload (cascade)
+        const deletedUploads = await prisma.upload.deleteMany({
+            where: {
+                isExpired: true,
+                createdAt: {
+                    lte: cutoffDate,
+                },
+            },
+        });
+
+        // Expired login sessions can't be used again - nothing to retain
+        const deletedSessions = await prisma.session.deleteMany({
+            where: {
+                expiresAt: {
+                    lte: new Date(),
+                },
+            },
+        });
+
         const duration = Date.now() - startTime;
 
         return res.status(200).json({
@@ -172,6 +265,9 @@ router.post('/purge', cleanupRateLimiter, verifyCronSecret, async (req: Request,
                 retentionDays,
                 cutoffDate: cutoffDate.toISOString(),
                 purged: deleted.count,
+                purgedComments,
+                purgedUploads: deletedUploads.count,
+                purgedSessions: deletedSessions.count,
             },
         });
     } catch (error) {
@@ -190,7 +286,7 @@ router.post('/purge', cleanupRateLimiter, verifyCronSecret, async (req: Request,
 // GET /api/cleanup/stats - Get cleanup statistics
 // ============================================
 
-router.get('/stats', verifyCronSecret, async (req: Request, res: Response) => {
+router.get('/stats', verifyStatsAccess, async (req: Request, res: Response) => {
     try {
         const [
             totalPastes,
@@ -0,0 +1,222 @@
+/**
+ * Embed Routes - link previews for paste pages
+ * Served outside /api: crawlers and oEmbed consumers fetch them unauthenticated,
+ * and none of them count a view
+ */
+
+import { Router, Request, Response } from 'express';
+import { GetPasteParamsSchema, OEmbedQuerySchema, validateRequest } from '../lib/validation';
+import {
+    findPreviewablePaste,
+    buildPastePreview,
+    getPreviewLinks,
+    parsePasteUrl,
+    buildMetaTags,
+    injectMetaTags,
+    buildPreviewPage,
+    loadAppShell,
+    buildOEmbed,
+} from '../lib/preview';
+import { renderHtml, renderPreviewCard } from '../lib/render';
+import { ErrorCodes } from '../lib/types';
+import { getFrontendUrl } from '../lib/utils';
+
+const router = Router();
+
+// ============================================
+// Helpers
+// ============================================
+
+function getBaseUrl(req: Request): string {
+    return process.env.BASE_URL || `${req.protocol}://${req.get('host')}`;
+}
+
+// ============================================
+// GET /paste/:id - Paste page with preview tags
+// ============================================
+
+/**
+ * The frontend rewrites /paste/* here, so crawlers see per-paste tags while
+ * browsers still get the app
+ */
+router.get('/paste/:id', async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(GetPasteParamsSchema, req.params);
+        const paste = validation.success ? await findPreviewablePaste(validation.data.id) : null;
+        const shell = await loadAppShell();
+
+        // The app talks to the API from this page; the frontend host sets no CSP either
+        res.removeHeader('Content-Security-Policy');
+
+        // The app shows its own not-found and expired states
+        if (!paste) {
+            if (!shell) {
+                return res.status(404).send('Paste not found');
+            }
+
+            return res.status(404).type('html').send(shell);
+        }
+
+        const links = getPreviewLinks(paste.id, getBaseUrl(req));
+        const tags = buildMetaTags(buildPastePreview(paste), links);
+
+        return res
+            .type('html')
+            .send(shell ? injectMetaTags(shell, tags) : buildPreviewPage(tags, links));
+    } catch (error) {
+        console.error('Error serving paste page:', error);
+        return res.status(500).send('Internal server error');
+    }
+});
+
+// ============================================
+// GET /paste/:id/preview.png - Preview card image
+// ============================================
+
+router.get('/paste/:id/preview.png', async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(GetPasteParamsSchema, req.params);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid paste ID',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const paste = await findPreviewablePaste(validation.data.id);
+
+        if (!paste) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.NOT_FOUND,
+                    message: 'Paste not found',
+                },
+            });
+        }
+
+        const image = renderPreviewCard(buildPastePreview(paste).card);
+
+        res.setHeader('Content-Type', 'image/png');
+        res.setHeader('Cache-Control', 'public, max-age=300');
+        res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+        return res.send(image);
+    } catch (error) {
+        console.error('Error rendering preview image:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to render preview image',
+            },
+        });
+    }
+});
+
+// ============================================
+// GET /paste/:id/embed.html - Highlighted HTML for oEmbed iframes
+// ============================================
+
+/**
+ * Like render.html, but framed on other sites for every visitor - so it only
+ * shows content a preview may show, and never counts a view
+ */
+router.get('/paste/:id/embed.html', async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(GetPasteParamsSchema, req.params);
+        const paste = validation.success ? await findPreviewablePaste(validation.data.id) : null;
+
+        if (!paste) {
+            return res.status(404).send('Paste not found');
+        }
+
+        if (buildPastePreview(paste).restriction) {
+            return res.status(403).send('This paste can only be read on its page');
+        }
+
+        res.setHeader('Cache-Control', 'public, max-age=300');
+        res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+        res.removeHeader('X-Frame-Options');
+        res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; frame-ancestors *");
+
+        return res
+            .type('html')
+            .send(renderHtml(paste.content, paste.language, { title: `Paste ${paste.id}`, theme: 'dark' }));
+    } catch (error) {
+        console.error('Error rendering paste embed:', error);
+        return res.status(500).send('Internal server error');
+    }
+});
+
+// ============================================
+// GET /oembed - oEmbed provider for paste links
+// ============================================
+
+router.get('/oembed', async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(OEmbedQuerySchema, req.query);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid query',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const { url, format, maxwidth, maxheight } = validation.data;
+
+        // The oEmbed spec's status for formats a provider doesn't offer
+        if (format !== 'json') {
+            return res.status(501).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Only the json format is supported',
+                },
+            });
+        }
+
+        const baseUrl = getBaseUrl(req);
+        const origins = [new URL(getFrontendUrl()).origin, new URL(baseUrl).origin];
+        const id = parsePasteUrl(url, origins);
+        const paste = id ? await findPreviewablePaste(id) : null;
+
+        if (!paste) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.NOT_FOUND,
+                    message: 'No paste found at that URL',
+                },
+            });
+        }
+
+        const oembed = buildOEmbed(buildPastePreview(paste), getPreviewLinks(paste.id, baseUrl), {
+            maxwidth,
+            maxheight,
+        });
+
+        res.setHeader('Cache-Control', 'public, max-age=300');
+        return res.json(oembed);
+    } catch (error) {
+        console.error('Error building oEmbed response:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to build oEmbed response',
+            },
+        });
+    }
+});
+
+export default router;
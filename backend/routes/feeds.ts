@@ -0,0 +1,109 @@
+/**
+ * Feed Routes - Atom and RSS feeds of recent public pastes
+ * Served outside /api so feed readers get stable, unauthenticated URLs
+ */
+
+import { Router, Request, Response } from 'express';
+import { FeedQuerySchema, validateRequest } from '../lib/validation';
+import { findRecentPastes, buildAtomFeed, buildRssFeed, FeedOptions } from '../lib/feed';
+import { ErrorCodes } from '../lib/types';
+import { getFrontendUrl } from '../lib/utils';
+
+const router = Router();
+
+const FEED_SIZE = 50;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Load the feed's pastes and describe it, or reply 400 for a bad language filter
+ */
+async function loadFeed(req: Request, res: Response) {
+    const validation = validateRequest(FeedQuerySchema, req.query);
+
+    if (!validation.success) {
+        res.status(400).json({
+            success: false,
+            error: {
+                code: ErrorCodes.VALIDATION_ERROR,
+                message: 'Invalid query',
+                details: validation.errors.join(', '),
+            },
+        });
+        return null;
+    }
+
+    const { language } = validation.data;
+    const { items } = await findRecentPastes({ limit: FEED_SIZE, language });
+
+    const frontendUrl = getFrontendUrl();
+    const baseUrl = process.env.BASE_URL || `${req.protocol}://${req.get('host')}`;
+
+    const options: FeedOptions = {
+        title: language ? `Pastebin - Recent ${language} pastes` : 'Pastebin - Recent pastes',
+        feedUrl: `${baseUrl}${req.originalUrl}`,
+        siteUrl: frontendUrl,
+        pasteUrl: (id) => `${frontendUrl}/paste/${id}`,
+        updated: items[0]?.createdAt ?? new Date(),
+    };
+
+    return { items, options };
+}
+
+// ============================================
+// GET /feeds/recent.atom - Atom feed
+// ============================================
+
+router.get('/recent.atom', async (req: Request, res: Response) => {
+    try {
+        const feed = await loadFeed(req, res);
+
+        if (!feed) {
+            return;
+        }
+
+        res.setHeader('Content-Type', 'application/atom+xml; charset=utf-8');
+        res.setHeader('Cache-Control', 'public, max-age=300');
+        return res.status(200).send(buildAtomFeed(feed.items, feed.options));
+    } catch (error) {
+        console.error('Error building Atom feed:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to build feed',
+            },
+        });
+    }
+});
+
+// ============================================
+// GET /feeds/recent.rss - RSS 2.0 feed
+// ============================================
+
+router.get('/recent.rss', async (req: Request, res: Response) => {
+    try {
+        const feed = await loadFeed(req, res);
+
+        if (!feed) {
+            return;
+        }
+
+        res.setHeader('Content-Type', 'application/rss+xml; charset=utf-8');
+        res.setHeader('Cache-Control', 'public, max-age=300');
+        return res.status(200).send(buildRssFeed(feed.items, feed.options));
+    } catch (error) {
+        console.error('Error building RSS feed:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to build feed',
+            },
+        });
+    }
+});
+
+export default router;
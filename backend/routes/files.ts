@@ -0,0 +1,423 @@
+/**
+ * File Routes - API endpoints for multi-file uploads
+ * Production-grade REST API handlers
+ */
+
+import { Router, Request, Response } from 'express';
+import { Upload } from '@prisma/client';
+import archiver from 'archiver';
+import { prisma } from '../lib/prisma';
+import { signGrant, verifyGrant } from '../lib/security';
+import {
+    generatePasteId,
+    calculateExpiresAt,
+    calculateRemainingViews,
+    getExpirationReason,
+    MAX_UPLOAD_SIZE,
+} from '../lib/utils';
+import {
+    CreateUploadSchema,
+    GetUploadParamsSchema,
+    DownloadFileParamsSchema,
+    DownloadQuerySchema,
+    ArchiveQuerySchema,
+    validateRequest,
+} from '../lib/validation';
+import { requireScope } from '../lib/auth';
+import { ErrorCodes, ErrorCode } from '../lib/types';
+
+const router = Router();
+
+// ============================================
+// Views and Download Grants
+// ============================================
+
+type UploadLookup =
+    | { ok: true; upload: Upload }
+    | { ok: false; status: number; code: ErrorCode; message: string };
+
+/**
+ * How long the files of a counted view stay downloadable
+ */
+const DOWNLOAD_GRANT_TTL_MS = 10 * 60 * 1000;
+
+const grantSubject = (id: string) => `upload:${id}`;
+
+/**
+ * Count a view, failing if none are left
+ * Same conditional increment as paste views, so concurrent readers can't exceed maxViews
+ */
+async function consumeUploadView(id: string): Promise<UploadLookup> {
+    return prisma.$transaction(async (tx) => {
+        const consumed = await tx.upload.updateMany({
+            where: {
+                id,
+                isExpired: false,
+                AND: [
+                    { OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] },
+                    { OR: [{ maxViews: null }, { viewCount: { lt: tx.upload.fields.maxViews } }] },
+                ],
+            },
+            data: { viewCount: { increment: 1 } },
+        });
+
+        const upload = await tx.upload.findUnique({
+            where: { id },
+        });
+
+        if (!upload) {
+            return { ok: false, status: 404, code: ErrorCodes.NOT_FOUND, message: 'Upload not found' };
+        }
+
+        if (consumed.count === 0) {
+            if (!upload.isExpired) {
+                await tx.upload.update({
+                    where: { id },
+                    data: { isExpired: true },
+                });
+            }
+
+            return {
+                ok: false,
+                status: 410,
+                code: ErrorCodes.UPLOAD_EXPIRED,
+                message: getExpirationReason(upload, 'upload') || 'This upload has expired',
+            };
+        }
+
+        // Check if this view caused expiration
+        if (upload.maxViews !== null && upload.viewCount >= upload.maxViews) {
+            return {
+                ok: true,
+                upload: await tx.upload.update({
+                    where: { id },
+                    data: { isExpired: true },
+                }),
+            };
+        }
+
+        return { ok: true, upload };
+    });
+}
+
+/**
+ * Check download access: a grant from a counted view, or a view of its own
+ * A grant outlives the view limit it was issued under, but not the time limit
+ */
+async function authorizeDownload(id: string, token: string | undefined): Promise<UploadLookup> {
+    if (token === undefined) {
+        return consumeUploadView(id);
+    }
+
+    if (!verifyGrant(token, grantSubject(id))) {
+        return {
+            ok: false,
+            status: 403,
+            code: ErrorCodes.FORBIDDEN,
+            message: 'Download link has expired - open the upload again',
+        };
+    }
+
+    const upload = await prisma.upload.findUnique({
+        where: { id },
+    });
+
+    if (!upload) {
+        return { ok: false, status: 404, code: ErrorCodes.NOT_FOUND, message: 'Upload not found' };
+    }
+
+    if (upload.expiresAt && upload.expiresAt <= new Date()) {
+        return {
+            ok: false,
+            status: 410,
+            code: ErrorCodes.UPLOAD_EXPIRED,
+            message: getExpirationReason(upload, 'upload') || 'This upload has expired',
+        };
+    }
+
+    return { ok: true, upload };
+}
+
+// ============================================
+// POST /api/files - Create a new file upload
+// ============================================
+
+router.post('/', requireScope('paste:create'), async (req: Request, res: Response) => {
+    try {
+        // Validate request body
+        const validation = validateRequest(CreateUploadSchema, req.body);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid request data',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const { name, files, expiresIn, maxViews } = validation.data;
+
+        // Decode contents - declared sizes are not trusted
+        const decodedFiles = files.map(file => {
+            const content = Buffer.from(file.content, 'base64');
+            return {
+                path: file.path,
+                name: file.name,
+                type: file.type,
+                size: content.length,
+                content,
+            };
+        });
+
+        const totalSize = decodedFiles.reduce((sum, file) => sum + file.size, 0);
+
+        if (totalSize > MAX_UPLOAD_SIZE) {
+            return res.status(413).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.CONTENT_TOO_LARGE,
+                    message: `Total size must not exceed ${MAX_UPLOAD_SIZE / (1024 * 1024)}MB`,
+                },
+            });
+        }
+
+        // Generate unique upload ID
+        const id = generatePasteId();
+
+        // Calculate expiration date
+        const expiresAt = calculateExpiresAt(expiresIn ?? undefined);
+
+        // Create upload and its files in a single write
+        const upload = await prisma.upload.create({
+            data: {
+                id,
+                name,
+                fileCount: decodedFiles.length,
+                totalSize,
+                expiresAt,
+                maxViews: maxViews ?? null,
+                userId: req.user?.id ?? null,
+                files: {
+                    create: decodedFiles,
+                },
+            },
+        });
+
+        // Build response
+        const baseUrl = process.env.BASE_URL || `http://localhost:${process.env.PORT || 3001}`;
+
+        return res.status(201).json({
+            success: true,
+            data: {
+                id: upload.id,
+                url: `${baseUrl}/api/files/${upload.id}`,
+                name: upload.name,
+                fileCount: upload.fileCount,
+                totalSize: upload.totalSize,
+                expiresAt: upload.expiresAt,
+                maxViews: upload.maxViews,
+                createdAt: upload.createdAt,
+            },
+        });
+    } catch (error) {
+        console.error('Error creating upload:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to create upload',
+            },
+        });
+    }
+});
+
+// ============================================
+// GET /api/files/:id - Retrieve an upload with its files
+// ============================================
+
+router.get('/:id', requireScope('paste:read'), async (req: Request, res: Response) => {
+    try {
+        // Validate upload ID
+        const validation = validateRequest(GetUploadParamsSchema, req.params);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid upload ID',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const { id } = validation.data;
+
+        const view = await consumeUploadView(id);
+
+        if (!view.ok) {
+            return res.status(view.status).json({
+                success: false,
+                error: {
+                    code: view.code,
+                    message: view.message,
+                },
+            });
+        }
+
+        const files = await prisma.uploadedFile.findMany({
+            where: { uploadId: id },
+            orderBy: { path: 'asc' },
+        });
+
+        const updatedUpload = view.upload;
+        const grant = signGrant(grantSubject(id), DOWNLOAD_GRANT_TTL_MS);
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                id: updatedUpload.id,
+                name: updatedUpload.name,
+                files: files.map(file => ({
+                    path: file.path,
+                    name: file.name,
+                    content: Buffer.from(file.content).toString('base64'),
+                    size: file.size,
+                    type: file.type,
+                })),
+                fileCount: updatedUpload.fileCount,
+                totalSize: updatedUpload.totalSize,
+                viewCount: updatedUpload.viewCount,
+                maxViews: updatedUpload.maxViews,
+                remainingViews: calculateRemainingViews(updatedUpload),
+                expiresAt: updatedUpload.expiresAt,
+                createdAt: updatedUpload.createdAt,
+                downloadToken: grant.token,
+                downloadTokenExpiresAt: grant.expiresAt,
+            },
+        });
+    } catch (error) {
+        console.error('Error retrieving upload:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to retrieve upload',
+            },
+        });
+    }
+});
+
+// ============================================
+// GET /api/files/:id/download/*path - Download a single file
+// ============================================
+
+router.get('/:id/download/*path', requireScope('paste:read'), async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(DownloadFileParamsSchema, req.params);
+        const queryValidation = validateRequest(DownloadQuerySchema, req.query);
+
+        if (!validation.success) {
+            return res.status(400).send('Invalid upload ID or file path');
+        }
+
+        if (!queryValidation.success) {
+            return res.status(400).send(queryValidation.errors.join(', '));
+        }
+
+        const { id, path } = validation.data;
+        const { token } = queryValidation.data;
+
+        // Look the file up first, so a mistyped path doesn't burn a view
+        const file = await prisma.uploadedFile.findUnique({
+            where: { uploadId_path: { uploadId: id, path } },
+        });
+
+        if (!file) {
+            const uploadExists = await prisma.upload.count({ where: { id } });
+            return res.status(404).send(uploadExists ? 'File not found' : 'Upload not found');
+        }
+
+        const access = await authorizeDownload(id, token);
+
+        if (!access.ok) {
+            return res.status(access.status).send(access.message);
+        }
+
+        res.attachment(file.name);
+        res.setHeader('Content-Type', file.type);
+        return res.send(Buffer.from(file.content));
+    } catch (error) {
+        console.error('Error downloading file:', error);
+        return res.status(500).send('Internal server error');
+    }
+});
+
+// ============================================
+// GET /api/files/:id/archive - Download all files as an archive
+// ============================================
+
+router.get('/:id/archive', requireScope('paste:read'), async (req: Request, res: Response) => {
+    try {
+        const paramsValidation = validateRequest(GetUploadParamsSchema, req.params);
+        const queryValidation = validateRequest(ArchiveQuerySchema, req.query);
+
+        if (!paramsValidation.success) {
+            return res.status(400).send('Invalid upload ID');
+        }
+
+        if (!queryValidation.success) {
+            return res.status(400).send(queryValidation.errors.join(', '));
+        }
+
+        const { id } = paramsValidation.data;
+        const { format, token } = queryValidation.data;
+
+        // Same rules as single-file downloads
+        const access = await authorizeDownload(id, token);
+
+        if (!access.ok) {
+            return res.status(access.status).send(access.message);
+        }
+
+        const { upload } = access;
+
+        const files = await prisma.uploadedFile.findMany({
+            where: { uploadId: id },
+            orderBy: { path: 'asc' },
+        });
+
+        const archive = format === 'zip'
+            ? archiver('zip', { zlib: { level: 9 } })
+            : archiver('tar', { gzip: true, gzipOptions: { level: 9 } });
+
+        archive.on('error', (error) => {
+            console.error('Error building archive:', error);
+            res.destroy(error);
+        });
+
+        // Keep the archive name filesystem-safe
+        const baseName = upload.name.replace(/[^a-zA-Z0-9._-]+/g, '_').replace(/^_+|_+$/g, '') || upload.id;
+
+        res.attachment(`${baseName}.${format}`);
+        res.setHeader('Content-Type', format === 'zip' ? 'application/zip' : 'application/gzip');
+        archive.pipe(res);
+
+        for (const file of files) {
+            archive.append(Buffer.from(file.content), { name: file.path, date: upload.createdAt });
+        }
+
+        await archive.finalize();
+    } catch (error) {
+        console.error('Error creating archive:', error);
+        if (res.headersSent) {
+            return res.destroy();
+        }
+        return res.status(500).send('Internal server error');
+    }
+});
+
+export default router;
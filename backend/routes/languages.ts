@@ -0,0 +1,24 @@
+/**
+ * Language Routes - The supported-language registry
+ */
+
+import { Router, Request, Response } from 'express';
+import { LANGUAGES } from '../lib/languages';
+
+const router = Router();
+
+// ============================================
+// GET /api/languages - List supported languages
+// ============================================
+
+router.get('/', (req: Request, res: Response) => {
+    // Only changes with a deploy
+    res.setHeader('Cache-Control', 'public, max-age=3600');
+
+    return res.status(200).json({
+        success: true,
+        data: LANGUAGES,
+    });
+});
+
+export default router;
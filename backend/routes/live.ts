@@ -0,0 +1,148 @@
+/**
+ * Live Session Routes - Start and look up collaborative editing sessions
+ * The editing itself happens over the WebSocket served by lib/live
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+    createLiveSession,
+    findLiveSession,
+    getParticipants,
+    isLiveSessionsEnabled,
+    LiveSession,
+    LiveSessionLimitError,
+} from '../lib/live';
+import { getClientIP } from '../lib/ratelimit';
+import { CreateLiveSessionSchema, LiveSessionParamsSchema, validateRequest } from '../lib/validation';
+import { ErrorCodes } from '../lib/types';
+
+const router = Router();
+
+/**
+ * Sessions can't outlive a serverless invocation - answer every request plainly instead
+ */
+function requireLiveSessions(req: Request, res: Response, next: NextFunction) {
+    if (isLiveSessionsEnabled()) {
+        return next();
+    }
+
+    return res.status(503).json({
+        success: false,
+        error: {
+            code: ErrorCodes.LIVE_SESSIONS_DISABLED,
+            message: 'Live sessions are not available on this server',
+        },
+    });
+}
+
+router.use(requireLiveSessions);
+
+function describeSession(session: LiveSession) {
+    return {
+        id: session.id,
+        language: session.language,
+        revision: session.revision,
+        participants: getParticipants(session),
+        createdAt: session.createdAt,
+        socketPath: `/api/live/${session.id}/socket`,
+    };
+}
+
+// ============================================
+// POST /api/live - Start a live session
+// ============================================
+
+router.post('/', async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(CreateLiveSessionSchema, req.body ?? {});
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid request data',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const { content, language } = validation.data;
+        const createdBy = req.user ? `user:${req.user.id}` : `ip:${getClientIP(req)}`;
+        const session = createLiveSession(content, language, createdBy);
+
+        return res.status(201).json({
+            success: true,
+            data: describeSession(session),
+        });
+    } catch (error) {
+        if (error instanceof LiveSessionLimitError) {
+            return res.status(error.scope === 'client' ? 429 : 503).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.LIVE_SESSION_LIMIT,
+                    message: error.message,
+                },
+            });
+        }
+
+        console.error('Error creating live session:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to create live session',
+            },
+        });
+    }
+});
+
+// ============================================
+// GET /api/live/:id - Session details and who's in it
+// ============================================
+
+router.get('/:id', async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(LiveSessionParamsSchema, req.params);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid session ID',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const session = findLiveSession(validation.data.id);
+
+        // Sessions end an hour after everyone leaves (10 minutes if nobody joined), or when the server restarts
+        if (!session) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.NOT_FOUND,
+                    message: 'Live session not found - it may have ended',
+                },
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: describeSession(session),
+        });
+    } catch (error) {
+        console.error('Error fetching live session:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to fetch live session',
+            },
+        });
+    }
+});
+
+export default router;
@@ -4,28 +4,318 @@
  */
 
 import { Router, Request, Response } from 'express';
+import { Comment, Paste, Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
+import {
+    hashPassword,
+    verifyPassword,
+    generateToken,
+    hashToken,
+    verifyToken,
+} from '../lib/security';
 import {
     generatePasteId,
     calculateExpiresAt,
     isExpired,
     calculateRemainingViews,
     getExpirationReason,
+    getFrontendUrl,
+    sliceLines,
 } from '../lib/utils';
 import {
     CreatePasteSchema,
+    UpdatePasteSchema,
+    ForkPasteSchema,
     GetPasteParamsSchema,
+    GetRevisionParamsSchema,
+    DiffParamsSchema,
+    DiffQuerySchema,
+    SearchQuerySchema,
+    RecentQuerySchema,
+    DetectLanguageSchema,
+    RawQuerySchema,
+    AppendPasteSchema,
+    CreateCommentSchema,
+    RenderParamsSchema,
+    RenderQuerySchema,
     validateRequest,
 } from '../lib/validation';
-import { ErrorCodes } from '../lib/types';
+import { requireScope } from '../lib/auth';
+import { findRecentPastes, decodeCursor } from '../lib/feed';
+import { detectLanguage } from '../lib/detect';
+import { ErrorCodes, ErrorCode, PasteComment } from '../lib/types';
+import { diffLines, DiffTooLargeError } from '../lib/diff';
+import { renderHtml, renderMarkdownHtml, renderSvg, renderPng, RenderFormat } from '../lib/render';
+import { appendWithinLimit, diffAppend, publishAppend, subscribeToAppends, AppendEvent } from '../lib/tail';
 
 const router = Router();
 
+// ============================================
+// Password Protection
+// ============================================
+
+type AccessCheck =
+    | { ok: true }
+    | { ok: false; status: number; code: ErrorCode; message: string };
+
+/**
+ * Read the URL-encoded password from the X-Paste-Password header
+ */
+function getSuppliedPassword(req: Request): string | null {
+    const header = req.headers['x-paste-password'];
+    const value = Array.isArray(header) ? header[0] : header;
+
+    if (!value) {
+        return null;
+    }
+
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * Verify access to a password-protected paste
+ * Must run before the view is counted so failed attempts don't burn views
+ */
+async function checkPastePassword(paste: Paste, req: Request): Promise<AccessCheck> {
+    if (!paste.passwordHash) {
+        return { ok: true };
+    }
+
+    const password = getSuppliedPassword(req);
+
+    if (!password) {
+        return {
+            ok: false,
+            status: 401,
+            code: ErrorCodes.PASSWORD_REQUIRED,
+            message: 'This paste is password protected',
+        };
+    }
+
+    if (!(await verifyPassword(password, paste.passwordHash))) {
+        return {
+            ok: false,
+            status: 403,
+            code: ErrorCodes.INVALID_PASSWORD,
+            message: 'Incorrect password',
+        };
+    }
+
+    return { ok: true };
+}
+
+// ============================================
+// Ownership
+// ============================================
+
+/**
+ * Read the owner token from the X-Owner-Token header
+ */
+function getOwnerToken(req: Request): string | null {
+    const header = req.headers['x-owner-token'];
+    return (Array.isArray(header) ? header[0] : header) || null;
+}
+
+/**
+ * Verify the caller owns the paste: signed in as its owner, or holding its owner token
+ */
+function checkOwner(paste: Pick<Paste, 'ownerTokenHash' | 'userId'>, req: Request): AccessCheck {
+    if (req.user && paste.userId === req.user.id) {
+        return { ok: true };
+    }
+
+    const ownerToken = getOwnerToken(req);
+
+    if (!ownerToken) {
+        return {
+            ok: false,
+            status: 401,
+            code: ErrorCodes.UNAUTHORIZED,
+            message: 'Owner token required in X-Owner-Token header',
+        };
+    }
+
+    // Pastes created before owner tokens existed can't be managed
+    if (!paste.ownerTokenHash || !verifyToken(ownerToken, paste.ownerTokenHash)) {
+        return {
+            ok: false,
+            status: 403,
+            code: ErrorCodes.FORBIDDEN,
+            message: 'Invalid owner token',
+        };
+    }
+
+    return { ok: true };
+}
+
+// ============================================
+// Read Helpers
+// ============================================
+
+/**
+ * Plain-text error for the text endpoints (/raw, render) - the code travels in
+ * X-Error-Code, so scripts can tell a missing password from other failures
+ */
+function sendTextError(res: Response, status: number, code: ErrorCode, message: string) {
+    res.setHeader('X-Error-Code', code);
+    return res.status(status).send(message);
+}
+
+type PasteLookup =
+    | { ok: true; paste: Paste }
+    | { ok: false; status: number; code: ErrorCode; message: string };
+
+/**
+ * Load a paste that exists and hasn't expired, marking it expired if it has
+ * Private pastes are reported as missing to anyone but their owner
+ */
+async function findLivePaste(id: string, req: Request): Promise<PasteLookup> {
+    const paste = await prisma.paste.findUnique({
+        where: { id },
+    });
+
+    if (!paste || (paste.visibility === 'private' && !checkOwner(paste, req).ok)) {
+        return { ok: false, status: 404, code: ErrorCodes.NOT_FOUND, message: 'Paste not found' };
+    }
+
+    if (isExpired(paste)) {
+        // Mark as expired if not already
+        if (!paste.isExpired) {
+            await prisma.paste.update({
+                where: { id },
+                data: { isExpired: true },
+            });
+        }
+
+        return {
+            ok: false,
+            status: 410,
+            code: ErrorCodes.PASTE_EXPIRED,
+            message: getExpirationReason(paste) || 'This paste has expired',
+        };
+    }
+
+    return { ok: true, paste };
+}
+
+/**
+ * Load a paste for reading: it must exist, be unexpired and unlocked
+ * Does not count a view - call consumeView once the read is certain
+ */
+async function findReadablePaste(id: string, req: Request): Promise<PasteLookup> {
+    const lookup = await findLivePaste(id, req);
+
+    if (!lookup.ok) {
+        return lookup;
+    }
+
+    // Check password before any view is consumed
+    const access = await checkPastePassword(lookup.paste, req);
+
+    if (!access.ok) {
+        return access;
+    }
+
+    return lookup;
+}
+
+/**
+ * Count a view, failing if none are left
+ * The increment is conditional on the paste still being readable, so concurrent
+ * readers can't exceed maxViews; the view that uses up the limit marks it expired
+ */
+async function consumeView(id: string): Promise<PasteLookup> {
+    return prisma.$transaction(async (tx) => {
+        const consumed = await tx.paste.updateMany({
+            where: {
+                id,
+                isExpired: false,
+                AND: [
+                    { OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] },
+                    { OR: [{ maxViews: null }, { viewCount: { lt: tx.paste.fields.maxViews } }] },
+                ],
+            },
+            data: { viewCount: { increment: 1 } },
+        });
+
+        const paste = await tx.paste.findUnique({
+            where: { id },
+        });
+
+        if (!paste) {
+            return { ok: false, status: 404, code: ErrorCodes.NOT_FOUND, message: 'Paste not found' };
+        }
+
+        // Another reader took the last view, or the paste expired since it was loaded
+        if (consumed.count === 0) {
+            if (!paste.isExpired) {
+                await tx.paste.update({
+                    where: { id },
+                    data: { isExpired: true },
+                });
+            }
+
+            return {
+                ok: false,
+                status: 410,
+                code: ErrorCodes.PASTE_EXPIRED,
+                message: getExpirationReason(paste) || 'This paste has expired',
+            };
+        }
+
+        // Check if this view caused expiration
+        if (paste.maxViews !== null && paste.viewCount >= paste.maxViews) {
+            return {
+                ok: true,
+                paste: await tx.paste.update({
+                    where: { id },
+                    data: { isExpired: true },
+                }),
+            };
+        }
+
+        return { ok: true, paste };
+    });
+}
+
+/**
+ * Get the content of one revision of a paste (latest when omitted)
+ * Returns null when the revision doesn't exist
+ */
+async function findRevision(
+    paste: Paste,
+    revision: number = paste.revision
+): Promise<{ revision: number; content: string; language: string | null; createdAt: Date } | null> {
+    if (revision === paste.revision) {
+        return {
+            revision,
+            content: paste.content,
+            language: paste.language,
+            createdAt: paste.editedAt ?? paste.createdAt,
+        };
+    }
+
+    const archived = await prisma.pasteRevision.findUnique({
+        where: { pasteId_number: { pasteId: paste.id, number: revision } },
+    });
+
+    return archived && {
+        revision,
+        content: archived.content,
+        language: archived.language,
+        createdAt: archived.createdAt,
+    };
+}
+
 // ============================================
 // POST /api/pastes - Create a new paste
 // ============================================
 
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requireScope('paste:create'), async (req: Request, res: Response) => {
     try {
         // Validate request body
         const validation = validateRequest(CreatePasteSchema, req.body);
@@ -41,7 +331,10 @@ router.post('/', async (req: Request, res: Response) => {
             });
         }
 
-        const { content, language, expiresIn, maxViews } = validation.data;
+        const { content, language, expiresIn, maxViews, password, encrypted, visibility, appendable } = validation.data;
+
+        // Guess the language when none was picked - ciphertext has none to find
+        const detectedLanguage = language || encrypted ? null : detectLanguage(content);
 
         // Generate unique paste ID
         const id = generatePasteId();
@@ -49,14 +342,23 @@ router.post('/', async (req: Request, res: Response) => {
         // Calculate expiration date
         const expiresAt = calculateExpiresAt(expiresIn ?? undefined);
 
+        // Secret for managing the paste - only the hash is stored
+        const ownerToken = generateToken();
+
         // Create paste in database
         const paste = await prisma.paste.create({
             data: {
                 id,
                 content,
-                language,
+                language: language ?? (detectedLanguage?.confident ? detectedLanguage.language : null),
                 expiresAt,
                 maxViews: maxViews ?? null,
+                passwordHash: password ? await hashPassword(password) : null,
+                isEncrypted: encrypted,
+                ownerTokenHash: hashToken(ownerToken),
+                userId: req.user?.id ?? null,
+                visibility,
+                appendable,
             },
         });
 
@@ -70,6 +372,14 @@ router.post('/', async (req: Request, res: Response) => {
                 url: `${baseUrl}/api/pastes/${paste.id}`,
                 expiresAt: paste.expiresAt,
                 maxViews: paste.maxViews,
+                passwordProtected: paste.passwordHash !== null,
+                encrypted: paste.isEncrypted,
+                visibility: paste.visibility,
+                language: paste.language,
+                detectedLanguage,
+                ownerToken,
+                forkedFrom: paste.forkedFromId,
+                appendable: paste.appendable,
                 createdAt: paste.createdAt,
             },
         });
@@ -86,79 +396,227 @@ router.post('/', async (req: Request, res: Response) => {
 });
 
 // ============================================
-// GET /api/pastes/:id - Retrieve a paste
+// POST /api/pastes/detect - Guess the language of some content
 // ============================================
 
-router.get('/:id', async (req: Request, res: Response) => {
+router.post('/detect', requireScope('paste:create'), async (req: Request, res: Response) => {
     try {
-        // Validate paste ID
-        const validation = validateRequest(GetPasteParamsSchema, req.params);
+        const validation = validateRequest(DetectLanguageSchema, req.body);
 
         if (!validation.success) {
             return res.status(400).json({
                 success: false,
                 error: {
                     code: ErrorCodes.VALIDATION_ERROR,
-                    message: 'Invalid paste ID',
+                    message: 'Invalid request data',
                     details: validation.errors.join(', '),
                 },
             });
         }
 
-        const { id } = validation.data;
+        // Nothing is stored - this is what create would pick for the same content
+        return res.status(200).json({
+            success: true,
+            data: detectLanguage(validation.data.content),
+        });
+    } catch (error) {
+        console.error('Error detecting language:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to detect language',
+            },
+        });
+    }
+});
 
-        // Fetch paste from database
-        const paste = await prisma.paste.findUnique({
-            where: { id },
+// ============================================
+// GET /api/pastes/search - Full-text search over public pastes
+// ============================================
+
+/**
+ * Characters of content shown per search result
+ */
+const SEARCH_PREVIEW_LENGTH = 200;
+
+router.get('/search', requireScope('paste:read'), async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(SearchQuerySchema, req.query);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid query',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const { q, language, page, limit } = validation.data;
+
+        // Only public pastes have a search vector. Password-protected and
+        // view-limited ones are left out too - a preview would bypass the gate.
+        const where = Prisma.sql`
+            "searchVector" @@ websearch_to_tsquery('english', ${q})
+            AND "isExpired" = false
+            AND ("expiresAt" IS NULL OR "expiresAt" > NOW())
+            AND "passwordHash" IS NULL
+            AND "maxViews" IS NULL
+            ${language ? Prisma.sql`AND "language" = ${language}` : Prisma.empty}
+        `;
+
+        const [items, [{ total }]] = await Promise.all([
+            prisma.$queryRaw<{
+                id: string;
+                preview: string;
+                language: string | null;
+                createdAt: Date;
+                viewCount: number;
+                rank: number;
+            }[]>`
+                SELECT "id", LEFT("content", ${SEARCH_PREVIEW_LENGTH}) AS "preview", "language",
+                    "createdAt", "viewCount",
+                    ts_rank("searchVector", websearch_to_tsquery('english', ${q})) AS "rank"
+                FROM "Paste"
+                WHERE ${where}
+                ORDER BY "rank" DESC, "createdAt" DESC
+                LIMIT ${limit} OFFSET ${(page - 1) * limit}
+            `,
+            prisma.$queryRaw<{ total: number }[]>`
+                SELECT COUNT(*)::int AS "total" FROM "Paste" WHERE ${where}
+            `,
+        ]);
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                items,
+                total,
+                page,
+                limit,
+            },
+        });
+    } catch (error) {
+        console.error('Error searching pastes:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to search pastes',
+            },
         });
+    }
+});
 
-        // Check if paste exists
-        if (!paste) {
-            return res.status(404).json({
+// ============================================
+// GET /api/pastes/recent - Newest public pastes
+// ============================================
+
+router.get('/recent', requireScope('paste:read'), async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(RecentQuerySchema, req.query);
+
+        if (!validation.success) {
+            return res.status(400).json({
                 success: false,
                 error: {
-                    code: ErrorCodes.NOT_FOUND,
-                    message: 'Paste not found',
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid query',
+                    details: validation.errors.join(', '),
                 },
             });
         }
 
-        // Check if paste has expired
-        if (isExpired(paste)) {
-            // Mark as expired if not already
-            if (!paste.isExpired) {
-                await prisma.paste.update({
-                    where: { id },
-                    data: { isExpired: true },
-                });
-            }
+        const { cursor, language, limit } = validation.data;
+        const position = cursor ? decodeCursor(cursor) : undefined;
 
-            return res.status(410).json({
+        if (position === null) {
+            return res.status(400).json({
                 success: false,
                 error: {
-                    code: ErrorCodes.PASTE_EXPIRED,
-                    message: getExpirationReason(paste) || 'This paste has expired',
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid cursor',
                 },
             });
         }
 
-        // Increment view count atomically
-        const updatedPaste = await prisma.paste.update({
-            where: { id },
-            data: { viewCount: { increment: 1 } },
+        const page = await findRecentPastes({ limit, language, cursor: position });
+
+        return res.status(200).json({
+            success: true,
+            data: page,
+        });
+    } catch (error) {
+        console.error('Error listing recent pastes:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to list recent pastes',
+            },
         });
+    }
+});
 
-        // Check if this view caused expiration
-        if (updatedPaste.maxViews !== null && updatedPaste.viewCount >= updatedPaste.maxViews) {
-            await prisma.paste.update({
-                where: { id },
-                data: { isExpired: true },
+// ============================================
+// GET /api/pastes/:id - Retrieve a paste
+// ============================================
+
+router.get('/:id', requireScope('paste:read'), async (req: Request, res: Response) => {
+    try {
+        // Validate paste ID
+        const validation = validateRequest(GetPasteParamsSchema, req.params);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid paste ID',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const { id } = validation.data;
+
+        // Fetch paste and check expiry and password
+        const lookup = await findReadablePaste(id, req);
+
+        if (!lookup.ok) {
+            return res.status(lookup.status).json({
+                success: false,
+                error: {
+                    code: lookup.code,
+                    message: lookup.message,
+                },
+            });
+        }
+
+        const view = await consumeView(id);
+
+        if (!view.ok) {
+            return res.status(view.status).json({
+                success: false,
+                error: {
+                    code: view.code,
+                    message: view.message,
+                },
             });
         }
 
+        const updatedPaste = view.paste;
+
         // Calculate remaining views
         const remainingViews = calculateRemainingViews(updatedPaste);
 
+        const forkCount = await prisma.paste.count({
+            where: { forkedFromId: id },
+        });
+
         return res.status(200).json({
             success: true,
             data: {
@@ -171,6 +629,14 @@ router.get('/:id', async (req: Request, res: Response) => {
                 maxViews: updatedPaste.maxViews,
                 remainingViews,
                 isExpired: updatedPaste.isExpired,
+                encrypted: updatedPaste.isEncrypted,
+                visibility: updatedPaste.visibility,
+                revision: updatedPaste.revision,
+                editedAt: updatedPaste.editedAt,
+                forkedFrom: updatedPaste.forkedFromId,
+                forkCount,
+                appendable: updatedPaste.appendable,
+                closedAt: updatedPaste.closedAt,
             },
         });
     } catch (error) {
@@ -186,37 +652,1407 @@ router.get('/:id', async (req: Request, res: Response) => {
 });
 
 // ============================================
-// GET /api/pastes/:id/raw - Get raw paste content
+// GET /api/pastes/:id/meta - Paste metadata without content (no view counted)
 // ============================================
 
-router.get('/:id/raw', async (req: Request, res: Response) => {
+router.get('/:id/meta', requireScope('paste:read'), async (req: Request, res: Response) => {
     try {
-        const { id } = req.params;
-
-        const paste = await prisma.paste.findUnique({
-            where: { id },
-        });
+        const validation = validateRequest(GetPasteParamsSchema, req.params);
 
-        if (!paste) {
-            return res.status(404).send('Paste not found');
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid paste ID',
+                    details: validation.errors.join(', '),
+                },
+            });
         }
 
-        if (isExpired(paste)) {
-            return res.status(410).send('Paste has expired');
-        }
+        const { id } = validation.data;
 
-        // Increment view count
-        await prisma.paste.update({
-            where: { id },
-            data: { viewCount: { increment: 1 } },
+        // No password needed - clients use this to decide whether to ask for one
+        const lookup = await findLivePaste(id, req);
+
+        if (!lookup.ok) {
+            return res.status(lookup.status).json({
+                success: false,
+                error: {
+                    code: lookup.code,
+                    message: lookup.message,
+                },
+            });
+        }
+
+        const { paste } = lookup;
+
+        const forkCount = await prisma.paste.count({
+            where: { forkedFromId: id },
+        });
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                id: paste.id,
+                language: paste.language,
+                createdAt: paste.createdAt,
+                expiresAt: paste.expiresAt,
+                viewCount: paste.viewCount,
+                maxViews: paste.maxViews,
+                remainingViews: calculateRemainingViews(paste),
+                passwordProtected: paste.passwordHash !== null,
+                encrypted: paste.isEncrypted,
+                visibility: paste.visibility,
+                revision: paste.revision,
+                editedAt: paste.editedAt,
+                forkedFrom: paste.forkedFromId,
+                forkCount,
+                appendable: paste.appendable,
+                closedAt: paste.closedAt,
+            },
+        });
+    } catch (error) {
+        console.error('Error retrieving paste metadata:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to retrieve paste metadata',
+            },
         });
+    }
+});
+
+// ============================================
+// GET /api/pastes/:id/raw - Get raw paste content
+// ============================================
+
+/**
+ * ?lines=10-24 (or 1-5,9) returns just those lines
+ */
+
+router.get('/:id/raw', requireScope('paste:read'), async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(GetPasteParamsSchema, req.params);
+
+        if (!validation.success) {
+            return sendTextError(res, 400, ErrorCodes.VALIDATION_ERROR, 'Invalid paste ID');
+        }
+
+        const queryValidation = validateRequest(RawQuerySchema, req.query);
+
+        if (!queryValidation.success) {
+            return sendTextError(res, 400, ErrorCodes.VALIDATION_ERROR, queryValidation.errors.join(', '));
+        }
+
+        const { id } = validation.data;
+        const { lines } = queryValidation.data;
+
+        // Same existence, expiry and password rules as the JSON endpoint
+        const lookup = await findReadablePaste(id, req);
+
+        if (!lookup.ok) {
+            return sendTextError(res, lookup.status, lookup.code, lookup.message);
+        }
+
+        // Ciphertext is useless as plain text - don't burn a view on it
+        if (lookup.paste.isEncrypted) {
+            return sendTextError(
+                res,
+                422,
+                ErrorCodes.PASTE_ENCRYPTED,
+                'This paste is end-to-end encrypted and can only be decrypted in the browser'
+            );
+        }
+
+        // Nor on a slice that would be empty
+        const lineCount = lookup.paste.content.split('\n').length;
+
+        if (lines?.some(range => range.start > lineCount)) {
+            return sendTextError(res, 400, ErrorCodes.VALIDATION_ERROR, `Line out of range - the paste has ${lineCount} lines`);
+        }
+
+        const view = await consumeView(id);
+
+        if (!view.ok) {
+            return sendTextError(res, view.status, view.code, view.message);
+        }
 
         // Return raw content as plain text
         res.setHeader('Content-Type', 'text/plain; charset=utf-8');
-        return res.send(paste.content);
+        return res.send(lines ? sliceLines(view.paste.content, lines) : view.paste.content);
     } catch (error) {
         console.error('Error retrieving raw paste:', error);
-        return res.status(500).send('Internal server error');
+        return sendTextError(res, 500, ErrorCodes.INTERNAL_ERROR, 'Internal server error');
+    }
+});
+
+// ============================================
+// GET /api/pastes/:id/render.:format - Highlighted HTML, SVG or PNG
+// ============================================
+
+const RENDER_CONTENT_TYPES: Record<RenderFormat, string> = {
+    html: 'text/html; charset=utf-8',
+    svg: 'image/svg+xml; charset=utf-8',
+    png: 'image/png',
+};
+
+router.get('/:id/render.:format', requireScope('paste:read'), async (req: Request, res: Response) => {
+    try {
+        const paramsValidation = validateRequest(RenderParamsSchema, req.params);
+
+        if (!paramsValidation.success) {
+            return sendTextError(res, 400, ErrorCodes.VALIDATION_ERROR, paramsValidation.errors.join(', '));
+        }
+
+        const queryValidation = validateRequest(RenderQuerySchema, req.query);
+
+        if (!queryValidation.success) {
+            return sendTextError(res, 400, ErrorCodes.VALIDATION_ERROR, queryValidation.errors.join(', '));
+        }
+
+        const { id, format } = paramsValidation.data;
+        const { theme, mode, scale } = queryValidation.data;
+
+        if (mode === 'markdown' && format !== 'html') {
+            return sendTextError(res, 400, ErrorCodes.VALIDATION_ERROR, 'Markdown mode is only available for render.html');
+        }
+
+        // Same access and view rules as /raw
+        const lookup = await findReadablePaste(id, req);
+
+        if (!lookup.ok) {
+            return sendTextError(res, lookup.status, lookup.code, lookup.message);
+        }
+
+        if (lookup.paste.isEncrypted) {
+            return sendTextError(
+                res,
+                422,
+                ErrorCodes.PASTE_ENCRYPTED,
+                'This paste is end-to-end encrypted and can only be decrypted in the browser'
+            );
+        }
+
+        const view = await consumeView(id);
+
+        if (!view.ok) {
+            return sendTextError(res, view.status, view.code, view.message);
+        }
+
+        const { content, language } = view.paste;
+        const options = { title: `Paste ${id}`, theme };
+
+        const body = format === 'html'
+            ? mode === 'markdown'
+                ? renderMarkdownHtml(content, options)
+                : renderHtml(content, language, options)
+            : format === 'svg'
+                ? renderSvg(content, language, options)
+                : renderPng(content, language, { ...options, scale });
+
+        // Images are meant to be embedded on other sites; the HTML may only be framed
+        // by the app, since every load costs a view (other sites frame embed.html)
+        res.setHeader('Content-Type', RENDER_CONTENT_TYPES[format]);
+        res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+
+        if (format === 'html') {
+            res.removeHeader('X-Frame-Options');
+            res.setHeader(
+                'Content-Security-Policy',
+                `default-src 'none'; style-src 'unsafe-inline'; frame-ancestors 'self' ${new URL(getFrontendUrl()).origin}`
+            );
+        }
+
+        return res.send(body);
+    } catch (error) {
+        console.error('Error rendering paste:', error);
+        return sendTextError(res, 500, ErrorCodes.INTERNAL_ERROR, 'Internal server error');
+    }
+});
+
+// ============================================
+// DELETE /api/pastes/:id - Delete a paste (owner only)
+// ============================================
+
+router.delete('/:id', requireScope('paste:delete'), async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(GetPasteParamsSchema, req.params);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid paste ID',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const { id } = validation.data;
+
+        const paste = await prisma.paste.findUnique({
+            where: { id },
+            select: { ownerTokenHash: true, userId: true },
+        });
+
+        if (!paste) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.NOT_FOUND,
+                    message: 'Paste not found',
+                },
+            });
+        }
+
+        const access = checkOwner(paste, req);
+
+        if (!access.ok) {
+            return res.status(access.status).json({
+                success: false,
+                error: {
+                    code: access.code,
+                    message: access.message,
+                },
+            });
+        }
+
+        // Hard delete - expired or not, the content is gone immediately
+        await prisma.paste.delete({
+            where: { id },
+        });
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                id,
+                deleted: true,
+            },
+        });
+    } catch (error) {
+        console.error('Error deleting paste:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to delete paste',
+            },
+        });
+    }
+});
+
+// ============================================
+// PUT /api/pastes/:id - Edit a paste as a new revision (owner only)
+// ============================================
+
+router.put('/:id', requireScope('paste:create'), async (req: Request, res: Response) => {
+    try {
+        const paramsValidation = validateRequest(GetPasteParamsSchema, req.params);
+
+        if (!paramsValidation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid paste ID',
+                    details: paramsValidation.errors.join(', '),
+                },
+            });
+        }
+
+        const bodyValidation = validateRequest(UpdatePasteSchema, req.body);
+
+        if (!bodyValidation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid request data',
+                    details: bodyValidation.errors.join(', '),
+                },
+            });
+        }
+
+        const { id } = paramsValidation.data;
+        const { content, language, visibility, baseRevision } = bodyValidation.data;
+
+        const paste = await prisma.paste.findUnique({
+            where: { id },
+        });
+
+        if (!paste) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.NOT_FOUND,
+                    message: 'Paste not found',
+                },
+            });
+        }
+
+        const access = checkOwner(paste, req);
+
+        if (!access.ok) {
+            return res.status(access.status).json({
+                success: false,
+                error: {
+                    code: access.code,
+                    message: access.message,
+                },
+            });
+        }
+
+        if (isExpired(paste)) {
+            return res.status(410).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.PASTE_EXPIRED,
+                    message: getExpirationReason(paste) || 'This paste has expired',
+                },
+            });
+        }
+
+        // Encrypted pastes stay encrypted - the new revision must be ciphertext too
+        if (paste.isEncrypted && !/^[A-Za-z0-9+/]+={0,2}$/.test(content)) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid request data',
+                    details: 'content: Encrypted content must be base64 encoded',
+                },
+            });
+        }
+
+        // Appends don't make revisions, so an edit would race them
+        if (paste.appendable && !paste.closedAt) {
+            return res.status(409).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.REVISION_CONFLICT,
+                    message: 'This paste is still being appended to - close it before editing',
+                },
+            });
+        }
+
+        if (baseRevision !== undefined && baseRevision !== paste.revision) {
+            return res.status(409).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.REVISION_CONFLICT,
+                    message: `Paste is at revision ${paste.revision}, edit was based on revision ${baseRevision}`,
+                },
+            });
+        }
+
+        // Archive the current content, then move the paste to the next revision.
+        // A concurrent edit archives the same number and fails the unique constraint.
+        const updatedPaste = await prisma.$transaction(async (tx) => {
+            await tx.pasteRevision.create({
+                data: {
+                    pasteId: id,
+                    number: paste.revision,
+                    content: paste.content,
+                    language: paste.language,
+                    createdAt: paste.editedAt ?? paste.createdAt,
+                },
+            });
+
+            return tx.paste.update({
+                where: { id },
+                data: {
+                    content,
+                    language: language === undefined ? paste.language : language,
+                    visibility: visibility ?? paste.visibility,
+                    revision: paste.revision + 1,
+                    editedAt: new Date(),
+                },
+            });
+        });
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                id: updatedPaste.id,
+                revision: updatedPaste.revision,
+                language: updatedPaste.language,
+                visibility: updatedPaste.visibility,
+                editedAt: updatedPaste.editedAt,
+            },
+        });
+    } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return res.status(409).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.REVISION_CONFLICT,
+                    message: 'Paste was edited concurrently. Reload and try again.',
+                },
+            });
+        }
+
+        console.error('Error updating paste:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to update paste',
+            },
+        });
+    }
+});
+
+// ============================================
+// POST /api/pastes/:id/append - Add a chunk to a live tail (owner)
+// ============================================
+
+router.post('/:id/append', requireScope('paste:create'), async (req: Request, res: Response) => {
+    try {
+        const paramsValidation = validateRequest(GetPasteParamsSchema, req.params);
+
+        if (!paramsValidation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid paste ID',
+                    details: paramsValidation.errors.join(', '),
+                },
+            });
+        }
+
+        const bodyValidation = validateRequest(AppendPasteSchema, req.body);
+
+        if (!bodyValidation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid request data',
+                    details: bodyValidation.errors.join(', '),
+                },
+            });
+        }
+
+        const { id } = paramsValidation.data;
+        const { content: chunk, done } = bodyValidation.data;
+
+        const paste = await prisma.paste.findUnique({
+            where: { id },
+        });
+
+        if (!paste) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.NOT_FOUND,
+                    message: 'Paste not found',
+                },
+            });
+        }
+
+        const access = checkOwner(paste, req);
+
+        if (!access.ok) {
+            return res.status(access.status).json({
+                success: false,
+                error: {
+                    code: access.code,
+                    message: access.message,
+                },
+            });
+        }
+
+        if (isExpired(paste)) {
+            return res.status(410).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.PASTE_EXPIRED,
+                    message: getExpirationReason(paste) || 'This paste has expired',
+                },
+            });
+        }
+
+        if (!paste.appendable) {
+            return res.status(409).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.PASTE_NOT_APPENDABLE,
+                    message: 'This paste was not created as appendable',
+                },
+            });
+        }
+
+        // Lock the row so concurrent appends land one after another instead of
+        // overwriting each other
+        const appended = await prisma.$transaction(async (tx) => {
+            await tx.$queryRaw`SELECT "id" FROM "Paste" WHERE "id" = ${id} FOR UPDATE`;
+
+            const current = await tx.paste.findUnique({
+                where: { id },
+            });
+
+            if (!current || current.closedAt) {
+                return null;
+            }
+
+            const { content, dropped } = appendWithinLimit(current.content, chunk);
+
+            const updated = await tx.paste.update({
+                where: { id },
+                data: {
+                    content,
+                    appendCount: { increment: 1 },
+                    droppedChars: { increment: dropped },
+                    closedAt: done ? new Date() : null,
+                },
+            });
+
+            return { paste: updated, dropped };
+        });
+
+        if (!appended) {
+            return res.status(409).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.PASTE_NOT_APPENDABLE,
+                    message: 'This paste has been closed to appends',
+                },
+            });
+        }
+
+        const { paste: updatedPaste, dropped } = appended;
+
+        publishAppend(id, {
+            chunk,
+            dropped,
+            appendCount: updatedPaste.appendCount,
+            closedAt: updatedPaste.closedAt,
+        });
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                id: updatedPaste.id,
+                size: Buffer.byteLength(updatedPaste.content, 'utf8'),
+                dropped,
+                appendCount: updatedPaste.appendCount,
+                closedAt: updatedPaste.closedAt,
+            },
+        });
+    } catch (error) {
+        console.error('Error appending to paste:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to append to paste',
+            },
+        });
+    }
+});
+
+// ============================================
+// GET /api/pastes/:id/stream - Follow a live tail (Server-Sent Events)
+// ============================================
+
+/**
+ * Comment lines keep proxies from closing a quiet stream
+ */
+const STREAM_HEARTBEAT_MS = 25 * 1000;
+
+/**
+ * How often a stream checks the database for appends made through other instances
+ */
+const STREAM_POLL_MS = 2 * 1000;
+
+router.get('/:id/stream', requireScope('paste:read'), async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(GetPasteParamsSchema, req.params);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid paste ID',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const { id } = validation.data;
+
+        // Live tails can't limit views, so following one doesn't count any
+        const lookup = await findReadablePaste(id, req);
+
+        if (!lookup.ok) {
+            return res.status(lookup.status).json({
+                success: false,
+                error: {
+                    code: lookup.code,
+                    message: lookup.message,
+                },
+            });
+        }
+
+        if (!lookup.paste.appendable) {
+            return res.status(409).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.PASTE_NOT_APPENDABLE,
+                    message: 'Only appendable pastes can be followed',
+                },
+            });
+        }
+
+        res.status(200).set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        });
+        res.flushHeaders();
+
+        const send = (event: string, data: object) => {
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+
+        // Subscribe before reading the content, so no append can fall in between;
+        // appends the read already includes are skipped by their count
+        let seen = 0;
+        let content = '';
+        let offset = 0;
+        let started = false;
+        let finished = false;
+        let polling = false;
+        const pending: AppendEvent[] = [];
+
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), STREAM_HEARTBEAT_MS);
+
+        const finish = () => {
+            if (finished) return;
+            finished = true;
+            unsubscribe();
+            clearInterval(heartbeat);
+            clearInterval(poller);
+            res.end();
+        };
+
+        const relay = (event: AppendEvent) => {
+            if (finished || event.appendCount <= seen) return;
+
+            // One was missed (another instance handled it) - the poll catches up
+            if (event.appendCount !== seen + 1) {
+                void poll();
+                return;
+            }
+
+            seen = event.appendCount;
+            content = content.slice(event.dropped) + event.chunk;
+            offset += event.dropped;
+
+            send('append', { chunk: event.chunk, dropped: event.dropped, appendCount: event.appendCount });
+
+            if (event.closedAt) {
+                send('end', { closedAt: event.closedAt, expired: false });
+                finish();
+            }
+        };
+
+        // Appends made through other instances only show up in the database,
+        // and so does the paste expiring
+        const poll = async () => {
+            if (!started || finished || polling) return;
+            polling = true;
+
+            try {
+                const latest = await prisma.paste.findUnique({
+                    where: { id },
+                    select: { appendCount: true, isExpired: true, expiresAt: true, maxViews: true, viewCount: true },
+                });
+
+                if (!latest) {
+                    return finish();
+                }
+
+                if (isExpired(latest)) {
+                    send('end', { closedAt: null, expired: true });
+                    return finish();
+                }
+
+                if (latest.appendCount <= seen) return;
+
+                const current = await prisma.paste.findUnique({
+                    where: { id },
+                    select: { content: true, droppedChars: true, appendCount: true, closedAt: true },
+                });
+
+                if (!current) {
+                    return finish();
+                }
+
+                // Relayed appends may have caught up while the content loaded
+                if (finished || current.appendCount <= seen) return;
+
+                const { chunk, dropped } = diffAppend(
+                    { content, offset },
+                    { content: current.content, offset: current.droppedChars }
+                );
+                seen = current.appendCount;
+                content = current.content;
+                offset = current.droppedChars;
+
+                send('append', { chunk, dropped, appendCount: current.appendCount });
+
+                if (current.closedAt) {
+                    send('end', { closedAt: current.closedAt, expired: false });
+                    finish();
+                }
+            } catch (error) {
+                console.error('Error polling live tail:', error);
+            } finally {
+                polling = false;
+            }
+        };
+
+        const poller = setInterval(poll, STREAM_POLL_MS);
+
+        const unsubscribe = subscribeToAppends(id, (event) => {
+            if (started) relay(event);
+            else pending.push(event);
+        });
+
+        res.on('close', finish);
+
+        const current = await prisma.paste.findUnique({
+            where: { id },
+        });
+
+        if (!current) {
+            return finish();
+        }
+
+        seen = current.appendCount;
+        content = current.content;
+        offset = current.droppedChars;
+        started = true;
+        send('content', { content: current.content, appendCount: current.appendCount });
+
+        if (current.closedAt) {
+            send('end', { closedAt: current.closedAt, expired: false });
+            return finish();
+        }
+
+        if (isExpired(current)) {
+            send('end', { closedAt: null, expired: true });
+            return finish();
+        }
+
+        pending.forEach(relay);
+    } catch (error) {
+        console.error('Error streaming paste:', error);
+
+        if (res.headersSent) {
+            return res.end();
+        }
+
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to stream paste',
+            },
+        });
+    }
+});
+
+// ============================================
+// GET /api/pastes/:id/revisions - List revisions (no view counted)
+// ============================================
+
+router.get('/:id/revisions', requireScope('paste:read'), async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(GetPasteParamsSchema, req.params);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid paste ID',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const { id } = validation.data;
+
+        const lookup = await findReadablePaste(id, req);
+
+        if (!lookup.ok) {
+            return res.status(lookup.status).json({
+                success: false,
+                error: {
+                    code: lookup.code,
+                    message: lookup.message,
+                },
+            });
+        }
+
+        const { paste } = lookup;
+
+        const archived = await prisma.pasteRevision.findMany({
+            where: { pasteId: id },
+            orderBy: { number: 'asc' },
+        });
+
+        const revisions = [
+            ...archived.map(revision => ({
+                number: revision.number,
+                language: revision.language,
+                size: revision.content.length,
+                createdAt: revision.createdAt,
+                current: false,
+            })),
+            {
+                number: paste.revision,
+                language: paste.language,
+                size: paste.content.length,
+                createdAt: paste.editedAt ?? paste.createdAt,
+                current: true,
+            },
+        ];
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                id,
+                currentRevision: paste.revision,
+                revisions,
+            },
+        });
+    } catch (error) {
+        console.error('Error listing revisions:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to list revisions',
+            },
+        });
+    }
+});
+
+// ============================================
+// GET /api/pastes/:id/revisions/:n - Retrieve a single revision
+// ============================================
+
+router.get('/:id/revisions/:n', requireScope('paste:read'), async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(GetRevisionParamsSchema, req.params);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid paste ID or revision',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const { id, n } = validation.data;
+
+        const lookup = await findReadablePaste(id, req);
+
+        if (!lookup.ok) {
+            return res.status(lookup.status).json({
+                success: false,
+                error: {
+                    code: lookup.code,
+                    message: lookup.message,
+                },
+            });
+        }
+
+        const { paste } = lookup;
+
+        const revision = await findRevision(paste, n);
+
+        if (!revision) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.NOT_FOUND,
+                    message: `Revision ${n} not found`,
+                },
+            });
+        }
+
+        // Reading any revision's content counts as a view
+        const view = await consumeView(id);
+
+        if (!view.ok) {
+            return res.status(view.status).json({
+                success: false,
+                error: {
+                    code: view.code,
+                    message: view.message,
+                },
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                id,
+                revision: n,
+                currentRevision: paste.revision,
+                content: revision.content,
+                language: revision.language,
+                createdAt: revision.createdAt,
+                encrypted: paste.isEncrypted,
+            },
+        });
+    } catch (error) {
+        console.error('Error retrieving revision:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to retrieve revision',
+            },
+        });
+    }
+});
+
+// ============================================
+// GET /api/pastes/:id/diff/:otherId - Line diff between two pastes or revisions
+// ============================================
+
+router.get('/:id/diff/:otherId', requireScope('paste:read'), async (req: Request, res: Response) => {
+    try {
+        const paramsValidation = validateRequest(DiffParamsSchema, req.params);
+        const queryValidation = validateRequest(DiffQuerySchema, req.query);
+
+        if (!paramsValidation.success || !queryValidation.success) {
+            const errors = [
+                ...(paramsValidation.success ? [] : paramsValidation.errors),
+                ...(queryValidation.success ? [] : queryValidation.errors),
+            ];
+
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid diff request',
+                    details: errors.join(', '),
+                },
+            });
+        }
+
+        const { id, otherId } = paramsValidation.data;
+        const { rev, otherRev } = queryValidation.data;
+
+        // Both sides follow the same read rules; one password header covers both
+        const lookups = id === otherId
+            ? [await findReadablePaste(id, req)]
+            : [await findReadablePaste(id, req), await findReadablePaste(otherId, req)];
+
+        const pastes: Paste[] = [];
+
+        for (const lookup of lookups) {
+            if (!lookup.ok) {
+                return res.status(lookup.status).json({
+                    success: false,
+                    error: {
+                        code: lookup.code,
+                        message: lookup.message,
+                    },
+                });
+            }
+            pastes.push(lookup.paste);
+        }
+
+        const fromPaste = pastes[0];
+        const toPaste = pastes[pastes.length - 1];
+
+        if (pastes.some(paste => paste.isEncrypted)) {
+            return res.status(422).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.PASTE_ENCRYPTED,
+                    message: 'End-to-end encrypted pastes can only be compared in the browser',
+                },
+            });
+        }
+
+        const [from, to] = await Promise.all([
+            findRevision(fromPaste, rev),
+            findRevision(toPaste, otherRev),
+        ]);
+
+        if (!from || !to) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.NOT_FOUND,
+                    message: `Revision ${!from ? rev : otherRev} not found`,
+                },
+            });
+        }
+
+        const diff = diffLines(from.content, to.content);
+
+        // Count one view per paste whose content was read
+        for (const paste of pastes) {
+            const view = await consumeView(paste.id);
+
+            if (!view.ok) {
+                return res.status(view.status).json({
+                    success: false,
+                    error: {
+                        code: view.code,
+                        message: view.message,
+                    },
+                });
+            }
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                from: { id: fromPaste.id, revision: from.revision, language: from.language },
+                to: { id: toPaste.id, revision: to.revision, language: to.language },
+                stats: diff.stats,
+                lines: diff.lines,
+            },
+        });
+    } catch (error) {
+        if (error instanceof DiffTooLargeError) {
+            return res.status(422).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.DIFF_TOO_LARGE,
+                    message: error.message,
+                },
+            });
+        }
+
+        console.error('Error diffing pastes:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to diff pastes',
+            },
+        });
+    }
+});
+
+// ============================================
+// GET /api/pastes/:id/comments - List comments (no view counted)
+// ============================================
+
+function toPasteComment(comment: Comment): PasteComment {
+    return {
+        id: comment.id,
+        revision: comment.revision,
+        lineStart: comment.lineStart,
+        lineEnd: comment.lineEnd,
+        body: comment.body,
+        author: comment.author,
+        byOwner: comment.byOwner,
+        createdAt: comment.createdAt,
+    };
+}
+
+router.get('/:id/comments', requireScope('paste:read'), async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequest(GetPasteParamsSchema, req.params);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid paste ID',
+                    details: validation.errors.join(', '),
+                },
+            });
+        }
+
+        const { id } = validation.data;
+
+        // Comments live and expire with their paste
+        const lookup = await findReadablePaste(id, req);
+
+        if (!lookup.ok) {
+            return res.status(lookup.status).json({
+                success: false,
+                error: {
+                    code: lookup.code,
+                    message: lookup.message,
+                },
+            });
+        }
+
+        const comments = await prisma.comment.findMany({
+            where: { pasteId: id },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                id,
+                comments: comments.map(toPasteComment),
+            },
+        });
+    } catch (error) {
+        console.error('Error listing comments:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to list comments',
+            },
+        });
+    }
+});
+
+// ============================================
+// POST /api/pastes/:id/comments - Comment on a paste or some of its lines
+// ============================================
+
+router.post('/:id/comments', requireScope('paste:read', 'paste:create'), async (req: Request, res: Response) => {
+    try {
+        const paramsValidation = validateRequest(GetPasteParamsSchema, req.params);
+
+        if (!paramsValidation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid paste ID',
+                    details: paramsValidation.errors.join(', '),
+                },
+            });
+        }
+
+        const bodyValidation = validateRequest(CreateCommentSchema, req.body ?? {});
+
+        if (!bodyValidation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid request data',
+                    details: bodyValidation.errors.join(', '),
+                },
+            });
+        }
+
+        const { id } = paramsValidation.data;
+        const { body, author, lineStart } = bodyValidation.data;
+
+        const lookup = await findReadablePaste(id, req);
+
+        if (!lookup.ok) {
+            return res.status(lookup.status).json({
+                success: false,
+                error: {
+                    code: lookup.code,
+                    message: lookup.message,
+                },
+            });
+        }
+
+        const { paste } = lookup;
+
+        // Comments are stored in plain text and would quote what the key protects
+        if (paste.isEncrypted) {
+            return res.status(422).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.PASTE_ENCRYPTED,
+                    message: 'End-to-end encrypted pastes cannot be commented on',
+                },
+            });
+        }
+
+        const target = await findRevision(paste, bodyValidation.data.revision);
+
+        if (!target) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.NOT_FOUND,
+                    message: 'Revision not found',
+                },
+            });
+        }
+
+        const lineEnd = bodyValidation.data.lineEnd ?? lineStart;
+        const lineCount = target.content.split('\n').length;
+
+        if (lineEnd !== undefined && lineEnd > lineCount) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: `Line out of range - revision ${target.revision} has ${lineCount} lines`,
+                },
+            });
+        }
+
+        const comment = await prisma.comment.create({
+            data: {
+                pasteId: id,
+                revision: target.revision,
+                lineStart: lineStart ?? null,
+                lineEnd: lineEnd ?? null,
+                body,
+                author,
+                byOwner: checkOwner(paste, req).ok,
+                userId: req.user?.id ?? null,
+            },
+        });
+
+        return res.status(201).json({
+            success: true,
+            data: toPasteComment(comment),
+        });
+    } catch (error) {
+        console.error('Error creating comment:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to create comment',
+            },
+        });
+    }
+});
+
+// ============================================
+// POST /api/pastes/:id/fork - Create a new paste from an existing one
+// ============================================
+
+router.post('/:id/fork', requireScope('paste:read', 'paste:create'), async (req: Request, res: Response) => {
+    try {
+        const paramsValidation = validateRequest(GetPasteParamsSchema, req.params);
+
+        if (!paramsValidation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid paste ID',
+                    details: paramsValidation.errors.join(', '),
+                },
+            });
+        }
+
+        const bodyValidation = validateRequest(ForkPasteSchema, req.body ?? {});
+
+        if (!bodyValidation.success) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: ErrorCodes.VALIDATION_ERROR,
+                    message: 'Invalid request data',
+                    details: bodyValidation.errors.join(', '),
+                },
+            });
+        }
+
+        const { id } = paramsValidation.data;
+        const { content, language, expiresIn, maxViews, password, encrypted, visibility } = bodyValidation.data;
+
+        // The source must be readable by the caller, password included
+        const lookup = await findReadablePaste(id, req);
+
+        if (!lookup.ok) {
+            return res.status(lookup.status).json({
+                success: false,
+                error: {
+                    code: lookup.code,
+                    message: lookup.message,
+                },
+            });
+        }
+
+        const source = lookup.paste;
+
+        // Copying the source content server-side reads it, so it counts as a view.
+        // Edited content was already read by the client and costs nothing extra.
+        if (content === undefined) {
+            const view = await consumeView(id);
+
+            if (!view.ok) {
+                return res.status(view.status).json({
+                    success: false,
+                    error: {
+                        code: view.code,
+                        message: view.message,
+                    },
+                });
+            }
+        }
+
+        const ownerToken = generateToken();
+
+        const paste = await prisma.paste.create({
+            data: {
+                id: generatePasteId(),
+                // Copied ciphertext stays encrypted with the same key
+                content: content ?? source.content,
+                language: language === undefined ? source.language : language,
+                expiresAt: calculateExpiresAt(expiresIn ?? undefined),
+                maxViews: maxViews ?? null,
+                passwordHash: password ? await hashPassword(password) : null,
+                isEncrypted: content === undefined ? source.isEncrypted : encrypted,
+                ownerTokenHash: hashToken(ownerToken),
+                forkedFromId: source.id,
+                userId: req.user?.id ?? null,
+                visibility,
+            },
+        });
+
+        const baseUrl = process.env.BASE_URL || `http://localhost:${process.env.PORT || 3001}`;
+
+        return res.status(201).json({
+            success: true,
+            data: {
+                id: paste.id,
+                url: `${baseUrl}/api/pastes/${paste.id}`,
+                expiresAt: paste.expiresAt,
+                maxViews: paste.maxViews,
+                passwordProtected: paste.passwordHash !== null,
+                encrypted: paste.isEncrypted,
+                visibility: paste.visibility,
+                language: paste.language,
+                detectedLanguage: null, // forks keep the source's language
+                ownerToken,
+                forkedFrom: paste.forkedFromId,
+                createdAt: paste.createdAt,
+            },
+        });
+    } catch (error) {
+        console.error('Error forking paste:', error);
+        return res.status(500).json({
+            success: false,
+            error: {
+                code: ErrorCodes.INTERNAL_ERROR,
+                message: 'Failed to fork paste',
+            },
+        });
     }
 });
 
@@ -8,12 +8,26 @@ import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import pasteRoutes from './routes/pastes';
+import fileRoutes from './routes/files';
 import cleanupRoutes from './routes/cleanup';
+import authRoutes from './routes/auth';
+import accountRoutes from './routes/account';
+import feedRoutes from './routes/feeds';
+import embedRoutes from './routes/embeds';
+import languageRoutes from './routes/languages';
+import liveRoutes from './routes/live';
 import { prisma } from './lib/prisma';
+import { authenticate } from './lib/auth';
+import { attachLiveSessions, isLiveSessionsEnabled } from './lib/live';
+import { getRateLimitStoreType } from './lib/ratelimit-store';
 import {
     globalRateLimiter,
     createPasteLimiter,
-    getPasteLimiter
+    getPasteLimiter,
+    appendLimiter,
+    authRateLimiter,
+    pastePasswordLimiter,
+    isAppendRequest
 } from './lib/ratelimit';
 
 // ============================================
@@ -39,11 +53,20 @@ app.use(helmet());
 // CORS configuration
 app.use(cors({
     origin: process.env.CORS_ORIGIN || '*',
-    methods: ['GET', 'POST', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Paste-Password', 'X-Owner-Token'],
+    exposedHeaders: ['X-Error-Code'],
     credentials: true,
 }));
 
+// ============================================
+// Authentication
+// ============================================
+
+// Resolve the signed-in user, if any (cleanup has its own Bearer secret)
+// Runs before every limiter so API keys get their own buckets
+app.use(['/api/pastes', '/api/files', '/api/auth', '/api/account', '/api/live'], authenticate);
+
 // ============================================
 // Rate Limiting (Global)
 // ============================================
@@ -54,6 +77,8 @@ app.use(globalRateLimiter);
 // Body Parser
 // ============================================
 
+// File uploads carry base64 content (5MB of files is ~6.7MB encoded)
+app.use('/api/files', express.json({ limit: '8mb' }));
 app.use(express.json({ limit: '1mb' }));
 app.use(express.urlencoded({ extended: true, limit: '1mb' }));
 
@@ -103,22 +128,53 @@ app.get('/health/db', async (req: Request, res: Response) => {
 // ============================================
 
 // Apply route-specific rate limiters
-app.use('/api/pastes', (req: Request, res: Response, next: NextFunction) => {
-    if (req.method === 'POST') {
+app.use(['/api/pastes', '/api/files', '/api/live'], (req: Request, res: Response, next: NextFunction) => {
+    // The form asks for detection as the user types - it creates nothing
+    const isDetect = req.baseUrl === '/api/pastes' && req.path === '/detect';
+
+    if (isAppendRequest(req)) {
+        return appendLimiter(req, res, next);
+    }
+    if ((req.method === 'POST' && !isDetect) || req.method === 'PUT') {
         return createPasteLimiter(req, res, next);
     }
-    if (req.method === 'GET') {
+    if (req.method === 'GET' || isDetect) {
         return getPasteLimiter(req, res, next);
     }
     next();
 });
 
+app.use(['/api/auth/login', '/api/auth/register'], authRateLimiter);
+
+// Wrong paste passwords are limited per paste, on top of the read limits
+app.use('/api/pastes/:id', pastePasswordLimiter);
+
 // Mount paste routes
 app.use('/api/pastes', pasteRoutes);
 
+// Mount file upload routes
+app.use('/api/files', fileRoutes);
+
+// Mount account routes
+app.use('/api/auth', authRoutes);
+app.use('/api/account', accountRoutes);
+
+// Mount the language registry
+app.use('/api/languages', languageRoutes);
+
+// Live Session Routes (the editing socket is attached to the server below)
+app.use('/api/live', liveRoutes);
+
 // Mount cleanup routes (for cron jobs)
 app.use('/api/cleanup', cleanupRoutes);
 
+// Mount public feeds
+app.use('/feeds', feedRoutes);
+
+// Mount link previews (paste pages, preview images, oEmbed)
+app.use(['/paste', '/oembed'], getPasteLimiter);
+app.use(embedRoutes);
+
 // ============================================
 // Root Endpoint
 // ============================================
@@ -132,10 +188,47 @@ app.get('/', (req: Request, res: Response) => {
             health: 'GET /health',
             healthDb: 'GET /health/db',
             createPaste: 'POST /api/pastes',
+            detectLanguage: 'POST /api/pastes/detect',
+            searchPastes: 'GET /api/pastes/search?q=&language=&page=&limit= (public pastes)',
+            recentPastes: 'GET /api/pastes/recent?cursor=&language=&limit= (public pastes)',
             getPaste: 'GET /api/pastes/:id',
+            getPasteMeta: 'GET /api/pastes/:id/meta (no view counted)',
             getRawPaste: 'GET /api/pastes/:id/raw',
+            renderPaste: 'GET /api/pastes/:id/render.{html,svg,png}',
+            updatePaste: 'PUT /api/pastes/:id (requires owner token)',
+            deletePaste: 'DELETE /api/pastes/:id (requires owner token)',
+            listRevisions: 'GET /api/pastes/:id/revisions',
+            getRevision: 'GET /api/pastes/:id/revisions/:n',
+            diffPastes: 'GET /api/pastes/:id/diff/:otherId?rev=&otherRev=',
+            forkPaste: 'POST /api/pastes/:id/fork',
+            appendPaste: 'POST /api/pastes/:id/append (appendable pastes, requires owner token)',
+            streamPaste: 'GET /api/pastes/:id/stream (Server-Sent Events)',
+            createLiveSession: 'POST /api/live',
+            getLiveSession: 'GET /api/live/:id',
+            liveSessionSocket: 'WS /api/live/:id/socket?name=',
+            listComments: 'GET /api/pastes/:id/comments',
+            createComment: 'POST /api/pastes/:id/comments',
+            createUpload: 'POST /api/files',
+            getUpload: 'GET /api/files/:id',
+            downloadFile: 'GET /api/files/:id/download/:path',
+            downloadArchive: 'GET /api/files/:id/archive?format=zip|tar.gz',
+            register: 'POST /api/auth/register',
+            login: 'POST /api/auth/login',
+            logout: 'POST /api/auth/logout (requires auth)',
+            me: 'GET /api/auth/me (requires auth)',
+            accountPastes: 'GET /api/account/pastes?q=&page=&limit= (requires auth)',
+            bulkDeletePastes: 'POST /api/account/pastes/bulk-delete (requires auth)',
+            accountUploads: 'GET /api/account/uploads?q=&page=&limit= (requires auth)',
+            bulkDeleteUploads: 'POST /api/account/uploads/bulk-delete (requires auth)',
+            apiKeys: 'GET|POST /api/account/keys, DELETE /api/account/keys/:id (requires auth)',
+            languages: 'GET /api/languages',
             cleanup: 'GET /api/cleanup (requires auth)',
             cleanupStats: 'GET /api/cleanup/stats (requires auth)',
+            atomFeed: 'GET /feeds/recent.atom?language=',
+            rssFeed: 'GET /feeds/recent.rss?language=',
+            pastePage: 'GET /paste/:id (app page with preview tags)',
+            previewImage: 'GET /paste/:id/preview.png',
+            oembed: 'GET /oembed?url=&maxwidth=&maxheight=',
         },
         documentation: 'https://github.com/umangkumarchaudhary/Pastebin-Lite--Aganitha',
     });
@@ -197,7 +290,7 @@ process.on('SIGINT', gracefulShutdown);
 // Start Server
 // ============================================
 
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
     console.log(`
 ╔═══════════════════════════════════════════════════════════════╗
 ║                                                               ║
@@ -208,10 +301,33 @@ app.listen(PORT, () => {
 ║                                                               ║
 ║   Endpoints:                                                  ║
 ║   • POST /api/pastes         - Create a new paste             ║
+║   • POST /api/pastes/detect  - Guess a paste's language       ║
+║   • GET  /api/pastes/search  - Search public pastes           ║
+║   • GET  /api/pastes/recent  - Recent public pastes           ║
 ║   • GET  /api/pastes/:id     - Retrieve a paste               ║
 ║   • GET  /api/pastes/:id/raw - Get raw paste content          ║
+║   • GET  /api/pastes/:id/render.* - Highlighted HTML/SVG/PNG  ║
+║   • GET  /api/pastes/:id/meta - Metadata, no view counted     ║
+║   • PUT  /api/pastes/:id     - Edit as new revision (owner)   ║
+║   • DELETE /api/pastes/:id   - Delete a paste (owner token)   ║
+║   • GET  /api/pastes/:id/revisions - List paste revisions     ║
+║   • GET  /api/pastes/:id/diff/:otherId - Line diff            ║
+║   • POST /api/pastes/:id/fork - Fork into a new paste         ║
+║   • GET  /api/pastes/:id/comments - Line comments             ║
+║   • POST /api/pastes/:id/append - Append to a live tail       ║
+║   • GET  /api/pastes/:id/stream - Follow a live tail (SSE)    ║
+║   • POST /api/live           - Start a live editing session   ║
+║   • WS   /api/live/:id/socket - Edit a live session together  ║
+║   • POST /api/files          - Upload files                   ║
+║   • GET  /api/files/:id      - Retrieve an upload             ║
+║   • POST /api/auth/login     - Sign in (Bearer session)       ║
+║   • GET  /api/account/pastes - Your pastes (requires auth)    ║
+║   • GET  /api/languages      - Supported languages            ║
 ║   • GET  /api/cleanup        - Cleanup cron endpoint          ║
 ║   • GET  /api/cleanup/stats  - Get paste statistics           ║
+║   • GET  /feeds/recent.atom  - Atom feed (also .rss)          ║
+║   • GET  /paste/:id          - Page with link preview tags    ║
+║   • GET  /oembed?url=        - oEmbed for paste links         ║
 ║   • GET  /health             - Health check                   ║
 ║   • GET  /health/db          - Database health check          ║
 ║                                                               ║
@@ -219,9 +335,15 @@ app.listen(PORT, () => {
 ║   • Global: 1000 req/15min                                    ║
 ║   • Create: 10 pastes/min                                     ║
 ║   • Read:   100 req/min                                       ║
+║   • Store:  ${getRateLimitStoreType().padEnd(8)}                                          ║
 ║                                                               ║
 ╚═══════════════════════════════════════════════════════════════╝
   `);
 });
 
+// Live sessions edit over WebSockets on the same port
+if (isLiveSessionsEnabled()) {
+    attachLiveSessions(server);
+}
+
 export default app;
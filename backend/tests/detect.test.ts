@@ -0,0 +1,60 @@
+/**
+ * Language Detection Tests
+ * Runs on every paste create, so besides guessing right it must stay fast on
+ * input written to make the signatures backtrack
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectLanguage } from '../lib/detect';
+
+const detected = (content: string) => detectLanguage(content)?.language;
+
+describe('detectLanguage', () => {
+    it('recognises shebangs, doctypes and JSON documents', () => {
+        assert.equal(detected('#!/usr/bin/env python3\nprint(1)'), 'python');
+        assert.equal(detected('#!/bin/bash\necho hi'), 'bash');
+        assert.equal(detected('<!DOCTYPE html>\n<html></html>'), 'html');
+        assert.deepEqual(detectLanguage('{"a": [1, 2]}'), { language: 'json', confidence: 1, confident: true });
+    });
+
+    const samples: [string, string][] = [
+        ['javascript', "import fs from 'fs';\nconst data = fs.readFileSync('a');\nconsole.log(data);"],
+        ['typescript', 'export interface User {\n    id: string;\n    name?: string;\n}\ntype Id = User["id"];'],
+        ['python', 'def greet(name):\n    if name:\n        print(name)\n    else:\n        return None'],
+        ['go', 'package main\n\nimport (\n    "fmt"\n)\n\nfunc main() {\n    fmt.Println("hi")\n}'],
+        ['rust', 'fn main() {\n    let mut total = 0;\n    println!("{}", total);\n}'],
+        ['css', '.card > h2,\n.card:hover {\n    color: #333;\n    margin: 0 4px;\n}'],
+        ['sql', 'SELECT id, name\nFROM users\nWHERE active = true\nORDER BY name;'],
+        ['yaml', 'version: 2\nservices:\n  web:\n    image: nginx\n    ports:\n      - "80:80"'],
+    ];
+
+    for (const [language, content] of samples) {
+        it(`detects ${language}`, () => {
+            assert.equal(detected(content), language);
+        });
+    }
+
+    it('returns null for blank content', () => {
+        assert.equal(detectLanguage('   \n  '), null);
+    });
+
+    describe('on adversarial input', () => {
+        const inputs: [string, string][] = [
+            ...[500, 2_000, 20_000].map((spaces): [string, string] => [`select and ${spaces} spaces`, `select ${' '.repeat(spaces)}x`]),
+            ['a selector followed by spaces', `a${' '.repeat(20_000)}x`],
+            ['a property followed by spaces', `a: ${' '.repeat(20_000)}`],
+            ['blank lines', ' \n'.repeat(10_000)],
+            ['unclosed tags', '<a '.repeat(6_000)],
+            ['unclosed generics', 'fn a<'.repeat(4_000)],
+        ];
+
+        for (const [name, content] of inputs) {
+            it(`finishes quickly for ${name}`, () => {
+                const start = performance.now();
+                detectLanguage(content);
+                assert.ok(performance.now() - start < 250, `took ${Math.round(performance.now() - start)}ms`);
+            });
+        }
+    });
+});
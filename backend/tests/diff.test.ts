@@ -0,0 +1,49 @@
+/**
+ * Line Diff Tests
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffLines, DiffTooLargeError, MAX_EDIT_DISTANCE } from '../lib/diff';
+
+const numbered = (count: number, prefix: string) => Array.from({ length: count }, (_, i) => `${prefix}${i}`).join('\n');
+
+describe('diffLines', () => {
+    it('numbers equal, deleted and inserted lines', () => {
+        const { lines, stats } = diffLines('a\nb\nc', 'a\nc\nd');
+
+        assert.deepEqual(lines, [
+            { type: 'equal', oldNumber: 1, newNumber: 1, content: 'a' },
+            { type: 'delete', oldNumber: 2, newNumber: null, content: 'b' },
+            { type: 'equal', oldNumber: 3, newNumber: 2, content: 'c' },
+            { type: 'insert', oldNumber: null, newNumber: 3, content: 'd' },
+        ]);
+        assert.deepEqual(stats, { additions: 1, deletions: 1, unchanged: 2 });
+    });
+
+    it('treats CRLF and LF alike', () => {
+        assert.deepEqual(diffLines('a\r\nb', 'a\nb').stats, { additions: 0, deletions: 0, unchanged: 2 });
+    });
+
+    it('finds a shortest edit script', () => {
+        const { lines, stats } = diffLines('a\nb\nc\na\nb\nb\na', 'c\nb\na\nb\na\nc');
+
+        assert.equal(stats.additions + stats.deletions, 5);
+        assert.equal(lines.filter(line => line.type !== 'insert').map(line => line.content).join('\n'), 'a\nb\nc\na\nb\nb\na');
+        assert.equal(lines.filter(line => line.type !== 'delete').map(line => line.content).join('\n'), 'c\nb\na\nb\na\nc');
+    });
+
+    it(`diffs texts ${MAX_EDIT_DISTANCE} edits apart`, () => {
+        const half = MAX_EDIT_DISTANCE / 2;
+        const { stats } = diffLines(numbered(half, 'old'), numbered(half, 'new'));
+
+        assert.deepEqual(stats, { additions: half, deletions: half, unchanged: 0 });
+    });
+
+    it('refuses texts further apart than that', () => {
+        assert.throws(
+            () => diffLines(numbered(MAX_EDIT_DISTANCE / 2 + 1, 'old'), numbered(MAX_EDIT_DISTANCE / 2, 'new')),
+            DiffTooLargeError
+        );
+    });
+});
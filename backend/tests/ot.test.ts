@@ -0,0 +1,132 @@
+/**
+ * Operational Transformation Tests
+ * The server and the browser each keep a copy of lib/ot, and a live session only
+ * converges while the two agree - so every case runs against both copies
+ */
+
+import path from 'path';
+import { readFileSync } from 'fs';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import ts from 'typescript';
+import * as serverOt from '../lib/ot';
+import type { TextOperation } from '../lib/ot';
+
+interface ClientOt extends Omit<typeof serverOt, 'OperationError'> {
+    OperationError: new (message: string) => Error;
+    compose(a: TextOperation, b: TextOperation): TextOperation;
+    operationFromChange(before: string, after: string): TextOperation;
+}
+
+/**
+ * The frontend is an ES module package outside this build, so its copy is
+ * transpiled here and evaluated on its own - it imports nothing
+ */
+function loadClientOt(): ClientOt {
+    const source = readFileSync(path.join(__dirname, '../../frontend/src/lib/ot.ts'), 'utf8');
+    const { outputText } = ts.transpileModule(source, {
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    });
+    const module = { exports: {} };
+
+    new Function('module', 'exports', outputText)(module, module.exports);
+    return module.exports as ClientOt;
+}
+
+const clientOt = loadClientOt();
+
+/**
+ * A random operation on a document of the given length
+ */
+function randomOperation(length: number, random: () => number): TextOperation {
+    const operation: TextOperation = [];
+    let remaining = length;
+
+    do {
+        const roll = random();
+
+        if (roll < 0.3 || remaining === 0) {
+            operation.push('xyz'.slice(0, 1 + Math.floor(random() * 3)));
+        } else {
+            const span = 1 + Math.floor(random() * Math.min(remaining, 4));
+            operation.push(roll < 0.65 ? -span : span);
+            remaining -= span;
+        }
+    } while (remaining > 0);
+
+    return operation;
+}
+
+for (const [name, ot] of [['server', serverOt], ['client', clientOt]] as const) {
+    describe(`${name} lib/ot`, () => {
+        it('checks operations arriving over the wire', () => {
+            assert.equal(ot.isTextOperation([3, 'ab', -2]), true);
+            assert.equal(ot.isTextOperation([]), true);
+            assert.equal(ot.isTextOperation([0]), false);
+            assert.equal(ot.isTextOperation(['']), false);
+            assert.equal(ot.isTextOperation([1.5]), false);
+            assert.equal(ot.isTextOperation('ab'), false);
+        });
+
+        it('measures the documents an operation spans', () => {
+            assert.equal(ot.baseLength([2, 'ab', -3]), 5);
+            assert.equal(ot.targetLength([2, 'ab', -3]), 4);
+        });
+
+        it('applies retains, inserts and deletes', () => {
+            assert.equal(ot.applyOperation('abc', [1, 'x', -1, 1]), 'axc');
+            assert.throws(() => ot.applyOperation('abcd', [1, 'x', -1, 1]), ot.OperationError);
+        });
+
+        it('puts the first operation\'s insert first on a tie', () => {
+            const [aPrime, bPrime] = ot.transform([1, 'a', 1], [1, 'b', 1]);
+
+            assert.equal(ot.applyOperation(ot.applyOperation('xy', [1, 'a', 1]), bPrime), 'xaby');
+            assert.equal(ot.applyOperation(ot.applyOperation('xy', [1, 'b', 1]), aPrime), 'xaby');
+        });
+
+        it('refuses operations on different documents', () => {
+            assert.throws(() => ot.transform([2], [3]), ot.OperationError);
+        });
+
+        it('converges for random concurrent operations', () => {
+            let seed = 42;
+            const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+
+            for (let i = 0; i < 500; i++) {
+                const document = 'abcdefghij'.slice(0, Math.floor(random() * 11));
+                const a = randomOperation(document.length, random);
+                const b = randomOperation(document.length, random);
+                const [aPrime, bPrime] = ot.transform(a, b);
+
+                assert.equal(
+                    ot.applyOperation(ot.applyOperation(document, a), bPrime),
+                    ot.applyOperation(ot.applyOperation(document, b), aPrime),
+                    `${JSON.stringify(a)} vs ${JSON.stringify(b)} on "${document}"`
+                );
+                assert.deepEqual(ot.transform(a, b), serverOt.transform(a, b));
+            }
+        });
+
+        it('moves cursors with the text around them', () => {
+            assert.equal(ot.transformPosition(2, [2, 'ab', 3]), 4);
+            assert.equal(ot.transformPosition(3, [1, -3, 1]), 1);
+            assert.deepEqual(ot.transformSelection({ anchor: 0, head: 4 }, ['>', 4]), { anchor: 1, head: 5 });
+        });
+    });
+}
+
+describe('client-only lib/ot', () => {
+    it('turns a textarea change into one replaced span', () => {
+        assert.deepEqual(clientOt.operationFromChange('abc', 'aXc'), [1, 'X', -1, 1]);
+        assert.deepEqual(clientOt.operationFromChange('abc', 'abc'), [3]);
+    });
+
+    it('composes operations into one with the same effect', () => {
+        const a: TextOperation = [1, 'xy', -1, 1];
+        const b: TextOperation = [2, -1, 'z', 1];
+
+        assert.equal(clientOt.applyOperation('abc', clientOt.compose(a, b)), 'axzc');
+        assert.throws(() => clientOt.compose([2], [3]), clientOt.OperationError);
+    });
+});
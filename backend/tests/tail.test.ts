@@ -0,0 +1,47 @@
+/**
+ * Live Tail Tests
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendWithinLimit, diffAppend } from '../lib/tail';
+
+describe('appendWithinLimit', () => {
+    it('appends while under the limit', () => {
+        assert.deepEqual(appendWithinLimit('a\n', 'b\n', 10), { content: 'a\nb\n', dropped: 0 });
+    });
+
+    it('drops whole lines from the start once over it', () => {
+        assert.deepEqual(appendWithinLimit('one\ntwo\n', 'three\n', 12), { content: 'two\nthree\n', dropped: 4 });
+    });
+
+    it('cuts a long line between characters', () => {
+        const { content, dropped } = appendWithinLimit('ééé', 'x', 4);
+
+        assert.equal(content, 'éx');
+        assert.equal(dropped, 2);
+    });
+});
+
+describe('diffAppend', () => {
+    it('finds the chunk past what the follower holds', () => {
+        assert.deepEqual(
+            diffAppend({ content: 'a\nb\n', offset: 0 }, { content: 'a\nb\nc\n', offset: 0 }),
+            { chunk: 'c\n', dropped: 0 }
+        );
+    });
+
+    it('drops what rolled off in between', () => {
+        assert.deepEqual(
+            diffAppend({ content: 'a\nb\n', offset: 4 }, { content: 'b\nc\nd\n', offset: 6 }),
+            { chunk: 'c\nd\n', dropped: 2 }
+        );
+    });
+
+    it('replaces everything once the held content has all rolled off', () => {
+        assert.deepEqual(
+            diffAppend({ content: 'a\n', offset: 0 }, { content: 'd\n', offset: 6 }),
+            { chunk: 'd\n', dropped: 2 }
+        );
+    });
+});
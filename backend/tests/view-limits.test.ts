@@ -0,0 +1,167 @@
+/**
+ * View Limit Tests
+ * Concurrent reads of a paste or upload limited to k views must succeed exactly
+ * k times. The guarantee comes from the database's row locks, so these run against a
+ * real Postgres: set TEST_DATABASE_URL to a disposable database with the migrations applied
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import type { PrismaClient } from '@prisma/client';
+
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+describe('view limits', () => {
+    let prisma: PrismaClient | undefined;
+    let server: Server | undefined;
+    let baseUrl: string;
+    const pasteIds: string[] = [];
+    const uploadIds: string[] = [];
+
+    before(async () => {
+        // Fail rather than skip, so a missing database can't pass as a green run
+        assert.ok(TEST_DATABASE_URL, 'TEST_DATABASE_URL is not set - point it at a disposable Postgres database (see README)');
+
+        // Before the client is first loaded, so it connects to the test database
+        process.env.DATABASE_URL = TEST_DATABASE_URL;
+
+        ({ prisma } = await import('../lib/prisma'));
+        const { default: pasteRoutes } = await import('../routes/pastes');
+        const { default: fileRoutes } = await import('../routes/files');
+
+        const app = express();
+        app.use(express.json());
+        app.use('/api/pastes', pasteRoutes);
+        app.use('/api/files', fileRoutes);
+
+        server = app.listen(0);
+        await once(server, 'listening');
+        baseUrl = `http://localhost:${(server.address() as AddressInfo).port}/api`;
+    });
+
+    after(async () => {
+        await prisma?.paste.deleteMany({ where: { id: { in: pasteIds } } });
+        await prisma?.upload.deleteMany({ where: { id: { in: uploadIds } } });
+        await prisma?.$disconnect();
+        server?.close();
+    });
+
+    describe('pastes', () => {
+        const createPaste = async (maxViews: number) => {
+            const paste = await prisma!.paste.create({
+                data: { content: 'view limit test', maxViews },
+            });
+            pasteIds.push(paste.id);
+            return paste.id;
+        };
+
+        /**
+         * Fire every read at once, alternating between the JSON and raw endpoints
+         */
+        const readConcurrently = async (id: string, reads: number) => {
+            const responses = await Promise.all(
+                Array.from({ length: reads }, (_, i) => fetch(i % 2 === 0 ? `${baseUrl}/pastes/${id}` : `${baseUrl}/pastes/${id}/raw`))
+            );
+            await Promise.all(responses.map(response => response.arrayBuffer()));
+            return responses.map(response => response.status);
+        };
+
+        for (const [reads, maxViews] of [[12, 1], [24, 5]]) {
+            it(`allows exactly ${maxViews} of ${reads} concurrent reads`, async () => {
+                const id = await createPaste(maxViews);
+
+                const statuses = await readConcurrently(id, reads);
+
+                assert.equal(statuses.filter(status => status === 200).length, maxViews);
+                assert.equal(statuses.filter(status => status === 410).length, reads - maxViews);
+
+                const paste = await prisma!.paste.findUniqueOrThrow({ where: { id } });
+                assert.equal(paste.viewCount, maxViews);
+                assert.equal(paste.isExpired, true);
+            });
+        }
+
+        it('keeps answering 410 once the views are used up', async () => {
+            const id = await createPaste(1);
+
+            assert.deepEqual(await readConcurrently(id, 1), [200]);
+            assert.deepEqual(await readConcurrently(id, 4), [410, 410, 410, 410]);
+        });
+    });
+
+    describe('uploads', () => {
+        const createUpload = async (maxViews: number) => {
+            const upload = await prisma!.upload.create({
+                data: {
+                    name: 'view limit test',
+                    fileCount: 1,
+                    totalSize: 5,
+                    maxViews,
+                    files: {
+                        create: [{ path: 'a.txt', name: 'a.txt', type: 'text/plain', size: 5, content: Buffer.from('hello') }],
+                    },
+                },
+            });
+            uploadIds.push(upload.id);
+            return upload.id;
+        };
+
+        it('allows exactly 3 of 15 concurrent reads', async () => {
+            const id = await createUpload(3);
+
+            const responses = await Promise.all(Array.from({ length: 15 }, () => fetch(`${baseUrl}/files/${id}`)));
+            await Promise.all(responses.map(response => response.arrayBuffer()));
+            const statuses = responses.map(response => response.status);
+
+            assert.equal(statuses.filter(status => status === 200).length, 3);
+            assert.equal(statuses.filter(status => status === 410).length, 12);
+
+            const upload = await prisma!.upload.findUniqueOrThrow({ where: { id } });
+            assert.equal(upload.viewCount, 3);
+            assert.equal(upload.isExpired, true);
+        });
+
+        it('lets the last view download with its token, and no one else', async () => {
+            const id = await createUpload(1);
+
+            const view = await fetch(`${baseUrl}/files/${id}`);
+            assert.equal(view.status, 200);
+            const { data } = await view.json() as { data: { downloadToken: string } };
+
+            const withToken = await fetch(`${baseUrl}/files/${id}/download/a.txt?token=${encodeURIComponent(data.downloadToken)}`);
+            assert.equal(withToken.status, 200);
+            assert.equal(await withToken.text(), 'hello');
+
+            const archive = await fetch(`${baseUrl}/files/${id}/archive?token=${encodeURIComponent(data.downloadToken)}`);
+            assert.equal(archive.status, 200);
+            await archive.arrayBuffer();
+
+            const withoutToken = await fetch(`${baseUrl}/files/${id}/download/a.txt`);
+            assert.equal(withoutToken.status, 410);
+            await withoutToken.arrayBuffer();
+
+            const forged = await fetch(`${baseUrl}/files/${id}/archive?token=${encodeURIComponent(`${data.downloadToken}x`)}`);
+            assert.equal(forged.status, 403);
+            await forged.arrayBuffer();
+        });
+
+        it('counts a view for a download without a token', async () => {
+            const id = await createUpload(2);
+
+            const statuses = await Promise.all(
+                Array.from({ length: 6 }, async () => {
+                    const response = await fetch(`${baseUrl}/files/${id}/download/a.txt`);
+                    await response.arrayBuffer();
+                    return response.status;
+                })
+            );
+
+            assert.equal(statuses.filter(status => status === 200).length, 2);
+            assert.equal(statuses.filter(status => status === 410).length, 4);
+        });
+    });
+});
@@ -0,0 +1,190 @@
+/**
+ * API Client
+ * Every JSON endpoint answers with the same envelope - it is unwrapped here,
+ * in one place, so commands only ever see data or an ApiError
+ */
+
+import { CliConfig } from './config';
+import {
+    ApiEnvelope,
+    AppendPasteParams,
+    AppendPasteResponse,
+    CreatePasteParams,
+    CreateUploadParams,
+    PasteResponse,
+    PasteStreamEvent,
+    UploadResponse,
+} from './types';
+
+/**
+ * A request the API refused, or one that never got an answer
+ */
+export class ApiError extends Error {
+    constructor(
+        message: string,
+        readonly status: number | null,
+        readonly code: string | null = null
+    ) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+function buildHeaders(config: CliConfig, extra: Record<string, string | undefined> = {}): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    if (config.token) headers['Authorization'] = `Bearer ${config.token}`;
+
+    for (const [name, value] of Object.entries(extra)) {
+        if (value !== undefined) headers[name] = value;
+    }
+
+    return headers;
+}
+
+async function send(config: CliConfig, path: string, init: RequestInit): Promise<Response> {
+    try {
+        return await fetch(`${config.url}${path}`, init);
+    } catch (error) {
+        const cause = (error as { cause?: Error }).cause;
+        throw new ApiError(`Cannot reach ${config.url}: ${cause?.message ?? (error as Error).message}`, null);
+    }
+}
+
+/**
+ * Send a JSON request and unwrap the response envelope
+ */
+async function apiRequest<T>(
+    config: CliConfig,
+    path: string,
+    init: { method?: string; body?: unknown; headers?: Record<string, string | undefined> } = {}
+): Promise<T> {
+    const response = await send(config, path, {
+        method: init.method ?? 'GET',
+        headers: buildHeaders(config, {
+            ...(init.body !== undefined && { 'Content-Type': 'application/json' }),
+            ...init.headers,
+        }),
+        body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+
+    let envelope: ApiEnvelope<T>;
+
+    try {
+        envelope = (await response.json()) as ApiEnvelope<T>;
+    } catch {
+        throw new ApiError(`Unexpected response from ${config.url} (status ${response.status})`, response.status);
+    }
+
+    if (!envelope.success) {
+        const { code, message, details } = envelope.error ?? {};
+        throw new ApiError(
+            details ? `${message}: ${details}` : message || `Request failed with status ${response.status}`,
+            response.status,
+            code ?? null
+        );
+    }
+
+    return envelope.data;
+}
+
+/**
+ * Passwords travel URL-encoded in X-Paste-Password
+ */
+const passwordHeader = (password?: string) => ({
+    'X-Paste-Password': password === undefined ? undefined : encodeURIComponent(password),
+});
+
+// ============================================
+// Pastes
+// ============================================
+
+export function createPaste(config: CliConfig, params: CreatePasteParams): Promise<PasteResponse> {
+    return apiRequest<PasteResponse>(config, '/api/pastes', { method: 'POST', body: params });
+}
+
+export function appendToPaste(
+    config: CliConfig,
+    id: string,
+    ownerToken: string,
+    params: AppendPasteParams
+): Promise<AppendPasteResponse> {
+    return apiRequest<AppendPasteResponse>(config, `/api/pastes/${id}/append`, {
+        method: 'POST',
+        body: params,
+        headers: { 'X-Owner-Token': ownerToken },
+    });
+}
+
+/**
+ * Paste content as plain text - /raw answers errors in plain text too
+ */
+export async function getRawPaste(
+    config: CliConfig,
+    id: string,
+    options: { password?: string; lines?: string } = {}
+): Promise<string> {
+    const query = options.lines ? `?lines=${encodeURIComponent(options.lines)}` : '';
+    const response = await send(config, `/api/pastes/${id}/raw${query}`, {
+        headers: buildHeaders(config, passwordHeader(options.password)),
+    });
+    const text = await response.text();
+
+    if (!response.ok) {
+        throw new ApiError(text || `Request failed with status ${response.status}`, response.status);
+    }
+
+    return text;
+}
+
+/**
+ * Follow a live tail's Server-Sent Events until it is closed
+ */
+export async function streamPaste(
+    config: CliConfig,
+    id: string,
+    onEvent: (event: PasteStreamEvent) => void,
+    options: { password?: string } = {}
+): Promise<void> {
+    const response = await send(config, `/api/pastes/${id}/stream`, {
+        headers: buildHeaders(config, passwordHeader(options.password)),
+    });
+
+    if (!response.ok || !response.body) {
+        const envelope = (await response.json().catch(() => null)) as ApiEnvelope<never> | null;
+        const error = envelope && !envelope.success ? envelope.error : null;
+        throw new ApiError(error?.message ?? `Request failed with status ${response.status}`, response.status, error?.code);
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const bytes of response.body) {
+        buffer += decoder.decode(bytes, { stream: true });
+        const messages = buffer.split('\n\n');
+        buffer = messages.pop() ?? '';
+
+        for (const message of messages) {
+            let type = '';
+            let data = '';
+
+            for (const line of message.split('\n')) {
+                if (line.startsWith('event: ')) type = line.slice(7);
+                else if (line.startsWith('data: ')) data += line.slice(6);
+            }
+
+            // Heartbeats are comment-only messages
+            if (type && data) {
+                onEvent({ type, ...JSON.parse(data) } as PasteStreamEvent);
+            }
+        }
+    }
+}
+
+// ============================================
+// Uploads
+// ============================================
+
+export function createUpload(config: CliConfig, params: CreateUploadParams): Promise<UploadResponse> {
+    return apiRequest<UploadResponse>(config, '/api/files', { method: 'POST', body: params });
+}
@@ -0,0 +1,182 @@
+/**
+ * pastebin [create] [file] - Paste a file or stdin
+ * With --tail, stdin is streamed into a live tail as it arrives
+ */
+
+import { readFile } from 'fs/promises';
+import { ApiError, appendToPaste, createPaste } from '../api';
+import { CliConfig } from '../config';
+import { CreatePasteParams, PasteVisibility } from '../types';
+import { parseCommandArgs, parseDuration, parsePositiveInt, shareLink, sleep, UsageError } from '../utils';
+
+// The API's MAX_CONTENT_SIZE, in characters
+const MAX_CHUNK = 500 * 1024;
+
+// Appends are limited to 60 a minute - leave room for retries
+const FLUSH_INTERVAL_MS = 1500;
+
+const VISIBILITIES: PasteVisibility[] = ['public', 'unlisted', 'private'];
+
+export const CREATE_USAGE = `Usage: pastebin [create] [file] [options]
+
+Paste a file, or stdin when no file is given. Prints the link.
+
+Options:
+  -l, --lang <language>     Language for highlighting (guessed when omitted)
+  -e, --expires <duration>  Expire after minutes, or e.g. 12h, 7d, 2w
+      --max-views <n>       Delete after n views
+  -p, --password <secret>   Require a password to read
+      --visibility <value>  public, unlisted (default) or private
+  -t, --tail                Stream stdin into a live tail, echoing it, until it ends`;
+
+export async function runCreate(config: CliConfig, args: string[]): Promise<void> {
+    const { values, positionals } = parseCommandArgs(args, {
+        lang: { type: 'string', short: 'l' },
+        expires: { type: 'string', short: 'e' },
+        'max-views': { type: 'string' },
+        password: { type: 'string', short: 'p' },
+        visibility: { type: 'string' },
+        tail: { type: 'boolean', short: 't' },
+    });
+
+    if (positionals.length > 1) {
+        throw new UsageError('Only one file can be pasted - use "pastebin upload" for several');
+    }
+
+    if (values.visibility !== undefined && !VISIBILITIES.includes(values.visibility as PasteVisibility)) {
+        throw new UsageError(`--visibility must be one of ${VISIBILITIES.join(', ')}`);
+    }
+
+    const params: Omit<CreatePasteParams, 'content'> = {
+        language: values.lang,
+        expiresIn: parseDuration(values.expires, '--expires'),
+        maxViews: parsePositiveInt(values['max-views'], '--max-views'),
+        password: values.password,
+        visibility: values.visibility as PasteVisibility | undefined,
+    };
+
+    const [file] = positionals;
+
+    if (values.tail) {
+        if (file) throw new UsageError('--tail streams stdin - pipe the output in instead of naming a file');
+        if (params.maxViews) throw new UsageError('--tail pastes cannot be limited by views');
+        return tailStdin(config, params);
+    }
+
+    if (!file && process.stdin.isTTY) {
+        throw new UsageError('Nothing to paste - pipe something in or name a file');
+    }
+
+    const content = file ? await readInput(file) : await readStdin();
+
+    if (!content.trim()) {
+        throw new UsageError('Nothing to paste - the input is empty');
+    }
+
+    const paste = await createPaste(config, { ...params, content });
+
+    process.stdout.write(`${shareLink(config, 'paste', paste.id, paste.url)}\n`);
+    process.stderr.write(`Owner token (to edit or delete): ${paste.ownerToken}\n`);
+}
+
+async function readInput(file: string): Promise<string> {
+    try {
+        return await readFile(file, 'utf8');
+    } catch (error) {
+        throw new UsageError(`Cannot read ${file}: ${(error as Error).message}`);
+    }
+}
+
+async function readStdin(): Promise<string> {
+    process.stdin.setEncoding('utf8');
+
+    let content = '';
+    for await (const chunk of process.stdin) {
+        content += chunk;
+    }
+    return content;
+}
+
+// ============================================
+// Live Tail
+// ============================================
+
+/**
+ * Echo stdin while batching it into appends, then close the tail when stdin
+ * ends (or on Ctrl-C)
+ */
+async function tailStdin(config: CliConfig, params: Omit<CreatePasteParams, 'content'>): Promise<void> {
+    let buffer = '';
+    let finished = false;
+
+    const ended = new Promise<void>((resolve) => {
+        process.stdin.setEncoding('utf8');
+        process.stdin.on('data', (chunk: string) => {
+            process.stdout.write(chunk);
+            buffer += chunk;
+        });
+        process.stdin.on('end', () => {
+            finished = true;
+            resolve();
+        });
+
+        // The first Ctrl-C closes the tail, a second one quits straight away
+        process.once('SIGINT', () => {
+            finished = true;
+            resolve();
+            process.once('SIGINT', () => process.exit(130));
+        });
+    });
+
+    const take = (length: number) => {
+        const chunk = buffer.slice(0, length);
+        buffer = buffer.slice(chunk.length);
+        return chunk;
+    };
+
+    // The API trims what it's created with, so trailing whitespace waits for the first append
+    while (!buffer.trim() && !finished) {
+        await Promise.race([sleep(FLUSH_INTERVAL_MS), ended]);
+    }
+
+    const first = buffer.slice(0, MAX_CHUNK).trimEnd();
+
+    if (!first) {
+        throw new UsageError('Nothing to paste - the input is empty');
+    }
+
+    take(first.length);
+
+    const paste = await createPaste(config, { ...params, content: first, appendable: true });
+
+    process.stderr.write(`Live tail: ${shareLink(config, 'paste', paste.id, paste.url)}\n`);
+    process.stderr.write(`Owner token (to edit or delete): ${paste.ownerToken}\n`);
+
+    for (;;) {
+        if (!finished) {
+            await Promise.race([sleep(FLUSH_INTERVAL_MS), ended]);
+        }
+
+        const done = finished && buffer.length <= MAX_CHUNK;
+        const chunk = take(MAX_CHUNK);
+
+        if (!chunk && !done) continue;
+
+        try {
+            await appendToPaste(config, paste.id, paste.ownerToken, { content: chunk || undefined, done });
+        } catch (error) {
+            // Rate limited or briefly unreachable - keep the chunk for the next round
+            if (error instanceof ApiError && (error.status === 429 || error.status === null)) {
+                buffer = chunk + buffer;
+                if (finished) await sleep(FLUSH_INTERVAL_MS);
+                continue;
+            }
+            throw error;
+        }
+
+        if (done) break;
+    }
+
+    // stdin may still be open after Ctrl-C
+    process.stdin.destroy();
+}
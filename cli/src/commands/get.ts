@@ -0,0 +1,49 @@
+/**
+ * pastebin get <id|url> - Print a paste's content
+ */
+
+import { getRawPaste, streamPaste } from '../api';
+import { CliConfig } from '../config';
+import { parseCommandArgs, parsePasteId, UsageError } from '../utils';
+
+export const GET_USAGE = `Usage: pastebin get <id|url> [options]
+
+Print a paste's content.
+
+Options:
+  -p, --password <secret>  Password for a protected paste
+      --lines <range>      Only these lines, e.g. 10 or 10-20
+  -f, --follow             Keep printing a live tail's appends until it is closed`;
+
+export async function runGet(config: CliConfig, args: string[]): Promise<void> {
+    const { values, positionals } = parseCommandArgs(args, {
+        password: { type: 'string', short: 'p' },
+        lines: { type: 'string' },
+        follow: { type: 'boolean', short: 'f' },
+    });
+
+    if (positionals.length !== 1) {
+        throw new UsageError('Expected one paste ID or link');
+    }
+
+    const id = parsePasteId(positionals[0]);
+
+    if (!values.follow) {
+        process.stdout.write(await getRawPaste(config, id, { password: values.password, lines: values.lines }));
+        return;
+    }
+
+    if (values.lines) {
+        throw new UsageError('--lines cannot be combined with --follow');
+    }
+
+    await streamPaste(
+        config,
+        id,
+        (event) => {
+            if (event.type === 'content') process.stdout.write(event.content);
+            else if (event.type === 'append') process.stdout.write(event.chunk);
+        },
+        { password: values.password }
+    );
+}
@@ -0,0 +1,131 @@
+/**
+ * pastebin upload <path...> - Upload files and directories as one shared bundle
+ */
+
+import { readdir, readFile, stat } from 'fs/promises';
+import { basename, dirname, join, relative, resolve, sep } from 'path';
+import { createUpload } from '../api';
+import { CliConfig } from '../config';
+import { UploadedFile } from '../types';
+import { parseCommandArgs, parseDuration, parsePositiveInt, shareLink, UsageError } from '../utils';
+
+// The files API's limits
+const MAX_UPLOAD_FILES = 20;
+const MAX_UPLOAD_SIZE = 5 * 1024 * 1024;
+
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+export const UPLOAD_USAGE = `Usage: pastebin upload <path...> [options]
+
+Upload files and directories (up to ${MAX_UPLOAD_FILES} files, ${MAX_UPLOAD_SIZE / (1024 * 1024)}MB in total).
+Directories keep their layout; .git and node_modules are skipped.
+
+Options:
+      --name <name>         Name of the upload (defaults to the first path)
+  -e, --expires <duration>  Expire after minutes, or e.g. 12h, 7d, 2w
+      --max-views <n>       Delete after n views`;
+
+interface FoundFile {
+    absolute: string;
+    path: string; // as shown in the upload
+    size: number;
+}
+
+export async function runUpload(config: CliConfig, args: string[]): Promise<void> {
+    const { values, positionals } = parseCommandArgs(args, {
+        name: { type: 'string' },
+        expires: { type: 'string', short: 'e' },
+        'max-views': { type: 'string' },
+    });
+
+    if (positionals.length === 0) {
+        throw new UsageError('Expected at least one file or directory');
+    }
+
+    const expiresIn = parseDuration(values.expires, '--expires');
+    const maxViews = parsePositiveInt(values['max-views'], '--max-views');
+
+    const found: FoundFile[] = [];
+
+    for (const path of positionals) {
+        const absolute = resolve(path);
+        await collectFiles(absolute, dirname(absolute), found);
+    }
+
+    if (found.length === 0) {
+        throw new UsageError('No files to upload');
+    }
+
+    // Check the limits before reading anything
+    const totalSize = found.reduce((sum, file) => sum + file.size, 0);
+
+    if (found.length > MAX_UPLOAD_FILES) {
+        throw new UsageError(`Found ${found.length} files - an upload holds at most ${MAX_UPLOAD_FILES}`);
+    }
+
+    if (totalSize > MAX_UPLOAD_SIZE) {
+        throw new UsageError(`Files total ${formatSize(totalSize)} - an upload holds at most ${formatSize(MAX_UPLOAD_SIZE)}`);
+    }
+
+    const paths = new Set<string>();
+
+    for (const file of found) {
+        if (paths.has(file.path)) {
+            throw new UsageError(`Two files would both be uploaded as ${file.path}`);
+        }
+        paths.add(file.path);
+    }
+
+    const files: UploadedFile[] = await Promise.all(
+        found.map(async (file) => ({
+            path: file.path,
+            name: basename(file.path),
+            content: (await readFile(file.absolute)).toString('base64'),
+            size: file.size,
+        }))
+    );
+
+    const upload = await createUpload(config, {
+        name: values.name ?? basename(resolve(positionals[0])),
+        files,
+        expiresIn,
+        maxViews,
+    });
+
+    process.stdout.write(`${shareLink(config, 'files', upload.id, upload.url)}\n`);
+    process.stderr.write(`Uploaded ${upload.fileCount} file${upload.fileCount === 1 ? '' : 's'} (${formatSize(upload.totalSize)})\n`);
+}
+
+/**
+ * Walk a path, naming each file relative to the directory the walk began in
+ */
+async function collectFiles(absolute: string, root: string, found: FoundFile[]): Promise<void> {
+    let stats;
+
+    try {
+        stats = await stat(absolute);
+    } catch (error) {
+        throw new UsageError(`Cannot read ${absolute}: ${(error as Error).message}`);
+    }
+
+    if (stats.isFile()) {
+        found.push({ absolute, path: relative(root, absolute).split(sep).join('/'), size: stats.size });
+        return;
+    }
+
+    if (!stats.isDirectory()) return;
+
+    const entries = await readdir(absolute, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+        if (entry.isDirectory() && SKIPPED_DIRECTORIES.has(entry.name)) continue;
+        await collectFiles(join(absolute, entry.name), root, found);
+    }
+}
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,55 @@
+/**
+ * Configuration
+ * Read from a JSON file, with environment variables taking precedence:
+ *
+ *   ~/.config/pastebin/config.json
+ *   { "url": "https://api.example.com", "token": "pb_...", "webUrl": "https://paste.example.com" }
+ */
+
+import { readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+
+export interface CliConfig {
+    url: string;            // API base URL
+    token: string | null;   // API key or session token, sent as a Bearer token
+    webUrl: string | null;  // frontend URL - links for people point here when set
+}
+
+const DEFAULT_URL = 'http://localhost:3001';
+
+/**
+ * $PASTEBIN_CONFIG, else config.json under $XDG_CONFIG_HOME (or ~/.config)
+ */
+export function getConfigPath(): string {
+    if (process.env.PASTEBIN_CONFIG) {
+        return process.env.PASTEBIN_CONFIG;
+    }
+
+    const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+    return join(configHome, 'pastebin', 'config.json');
+}
+
+/**
+ * Load the config - a missing file is fine, an unreadable one is an error
+ */
+export function loadConfig(path: string = getConfigPath()): CliConfig {
+    let file: Partial<Record<keyof CliConfig, unknown>> = {};
+
+    try {
+        file = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw new Error(`Cannot read config ${path}: ${(error as Error).message}`);
+        }
+    }
+
+    const pick = (env: string | undefined, value: unknown): string | null =>
+        env || (typeof value === 'string' && value ? value : null);
+
+    return {
+        url: (pick(process.env.PASTEBIN_URL, file.url) ?? DEFAULT_URL).replace(/\/+$/, ''),
+        token: pick(process.env.PASTEBIN_TOKEN, file.token),
+        webUrl: pick(process.env.PASTEBIN_WEB_URL, file.webUrl)?.replace(/\/+$/, '') ?? null,
+    };
+}
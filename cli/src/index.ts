@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+/**
+ * pastebin - Command-line client for the Pastebin API
+ *
+ *   cat error.log | pastebin --lang log --expires 1d
+ *   pastebin get abc123XY --lines 10-20
+ *   pastebin upload ./src --expires 1w
+ */
+
+import { runCreate, CREATE_USAGE } from './commands/create';
+import { runGet, GET_USAGE } from './commands/get';
+import { runUpload, UPLOAD_USAGE } from './commands/upload';
+import { getConfigPath, loadConfig } from './config';
+import { UsageError } from './utils';
+
+const VERSION = '1.0.0';
+
+const USAGE = `Usage: pastebin <command> [options]
+
+Commands:
+  create [file]         Paste a file or stdin (the default command)
+  get <id|url>          Print a paste's content
+  upload <path...>      Upload files and directories
+  help [command]        Show help for a command
+
+Configuration is read from ${getConfigPath()}
+({ "url": ..., "token": ..., "webUrl": ... }) and overridden by
+PASTEBIN_URL, PASTEBIN_TOKEN and PASTEBIN_WEB_URL.`;
+
+const COMMANDS: Record<string, { usage: string; run: typeof runCreate }> = {
+    create: { usage: CREATE_USAGE, run: runCreate },
+    get: { usage: GET_USAGE, run: runGet },
+    upload: { usage: UPLOAD_USAGE, run: runUpload },
+};
+
+async function main(argv: string[]): Promise<void> {
+    const [first, ...rest] = argv;
+
+    if (first === 'help' || first === '-h' || first === '--help') {
+        const topic = first === 'help' ? COMMANDS[rest[0]] : undefined;
+        console.log(topic ? topic.usage : USAGE);
+        return;
+    }
+
+    if (first === '--version') {
+        console.log(VERSION);
+        return;
+    }
+
+    const command = COMMANDS[first];
+
+    if (command && (rest.includes('-h') || rest.includes('--help'))) {
+        console.log(command.usage);
+        return;
+    }
+
+    const config = loadConfig();
+
+    // Anything that isn't a command is create's own arguments: `pastebin notes.txt`
+    if (command) {
+        await command.run(config, rest);
+    } else {
+        await runCreate(config, argv);
+    }
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+    if (error instanceof UsageError) {
+        console.error(`pastebin: ${error.message}`);
+        console.error('Run "pastebin help" for usage');
+        process.exit(2);
+    }
+
+    console.error(`pastebin: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+});
@@ -0,0 +1,89 @@
+/**
+ * API Types
+ * The parts of the backend's responses the CLI reads
+ */
+
+export type PasteVisibility = 'public' | 'unlisted' | 'private';
+
+export interface ApiErrorBody {
+    code: string;
+    message: string;
+    details?: string;
+}
+
+export type ApiEnvelope<T> =
+    | { success: true; data: T }
+    | { success: false; error: ApiErrorBody };
+
+// ============================================
+// Pastes
+// ============================================
+
+export interface CreatePasteParams {
+    content: string;
+    language?: string;
+    expiresIn?: number; // minutes
+    maxViews?: number;
+    password?: string;
+    visibility?: PasteVisibility;
+    appendable?: boolean;
+}
+
+export interface PasteResponse {
+    id: string;
+    url: string;
+    expiresAt: string | null;
+    maxViews: number | null;
+    visibility: PasteVisibility;
+    language: string | null;
+    ownerToken: string;
+    appendable: boolean;
+    createdAt: string;
+}
+
+export interface AppendPasteParams {
+    content?: string;
+    done?: boolean;
+}
+
+export interface AppendPasteResponse {
+    id: string;
+    size: number;
+    dropped: number;
+    appendCount: number;
+    closedAt: string | null;
+}
+
+export type PasteStreamEvent =
+    | { type: 'content'; content: string; appendCount: number }
+    | { type: 'append'; chunk: string; dropped: number; appendCount: number }
+    | { type: 'end'; closedAt: string | null; expired: boolean };
+
+// ============================================
+// Uploads
+// ============================================
+
+export interface UploadedFile {
+    path: string;
+    name: string;
+    content: string; // base64
+    size: number;
+}
+
+export interface CreateUploadParams {
+    name: string;
+    files: UploadedFile[];
+    expiresIn?: number;
+    maxViews?: number;
+}
+
+export interface UploadResponse {
+    id: string;
+    url: string;
+    name: string;
+    fileCount: number;
+    totalSize: number;
+    expiresAt: string | null;
+    maxViews: number | null;
+    createdAt: string;
+}
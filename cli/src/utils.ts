@@ -0,0 +1,91 @@
+/**
+ * Shared helpers for the commands
+ */
+
+import { parseArgs, ParseArgsConfig } from 'util';
+import { CliConfig } from './config';
+
+/**
+ * Bad flags or arguments - reported with a pointer to the usage text
+ */
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+type OptionsConfig = NonNullable<ParseArgsConfig['options']>;
+
+/**
+ * parseArgs, with its errors turned into UsageErrors
+ */
+export function parseCommandArgs<T extends OptionsConfig>(args: string[], options: T) {
+    try {
+        return parseArgs({ args, options, allowPositionals: true, strict: true });
+    } catch (error) {
+        throw new UsageError((error as Error).message);
+    }
+}
+
+const DURATION_UNITS: Record<string, number> = { m: 1, h: 60, d: 24 * 60, w: 7 * 24 * 60 };
+
+/**
+ * Minutes from "90", "90m", "12h", "7d" or "2w" - the API takes minutes
+ */
+export function parseDuration(value: string | undefined, flag: string): number | undefined {
+    if (value === undefined) return undefined;
+
+    const match = value.trim().match(/^(\d+)([mhdw]?)$/i);
+
+    if (!match) {
+        throw new UsageError(`${flag} must be minutes, or a number with m, h, d or w (got "${value}")`);
+    }
+
+    return parseInt(match[1], 10) * DURATION_UNITS[(match[2] || 'm').toLowerCase()];
+}
+
+export function parsePositiveInt(value: string | undefined, flag: string): number | undefined {
+    if (value === undefined) return undefined;
+
+    if (!/^\d+$/.test(value.trim()) || parseInt(value, 10) < 1) {
+        throw new UsageError(`${flag} must be a positive whole number (got "${value}")`);
+    }
+
+    return parseInt(value, 10);
+}
+
+/**
+ * The paste ID from an ID or any link to it: /abc123XY, /paste/abc123XY#L4,
+ * /api/pastes/abc123XY/raw
+ */
+export function parsePasteId(value: string): string {
+    if (/^[a-zA-Z0-9]{1,20}$/.test(value)) {
+        return value;
+    }
+
+    let pathname: string;
+
+    try {
+        pathname = new URL(value).pathname;
+    } catch {
+        throw new UsageError(`"${value}" is not a paste ID or link`);
+    }
+
+    const match = pathname.match(/^\/(?:api\/pastes\/|paste\/)?([a-zA-Z0-9]{1,20})(?:\/raw)?\/?$/);
+
+    if (!match) {
+        throw new UsageError(`"${value}" is not a paste ID or link`);
+    }
+
+    return match[1];
+}
+
+/**
+ * Link for people when the frontend URL is configured, otherwise the API's own
+ */
+export function shareLink(config: CliConfig, page: 'paste' | 'files', id: string, apiUrl: string): string {
+    return config.webUrl ? `${config.webUrl}/${page}/${id}` : apiUrl;
+}
+
+export const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
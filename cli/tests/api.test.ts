@@ -0,0 +1,72 @@
+/**
+ * API Client Tests
+ * The event stream parser runs against a local server that splits messages
+ * across writes, the way a proxy might
+ */
+
+import { once } from 'events';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiError, streamPaste } from '../src/api';
+import { CliConfig } from '../src/config';
+import { PasteStreamEvent } from '../src/types';
+
+describe('streamPaste', () => {
+    let server: Server;
+    let config: CliConfig;
+
+    before(async () => {
+        server = createServer((req, res) => {
+            if (req.url === '/api/pastes/missing/stream') {
+                res.writeHead(404, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: { code: 'NOT_FOUND', message: 'Paste not found' } }));
+                return;
+            }
+
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+
+            const stream = [
+                'event: content\ndata: {"content":"a\\n","appendCount":0}\n\n',
+                ': ping\n\n',
+                'event: append\ndata: {"chunk":"bé\\n","dropped":2,"appendCount":1}\n\n',
+                'event: end\ndata: {"closedAt":null,"expired":true}\n\n',
+            ].join('');
+
+            // Every few bytes on its own, so messages and UTF-8 arrive in pieces
+            const bytes = Buffer.from(stream);
+            for (let i = 0; i < bytes.length; i += 7) {
+                res.write(bytes.subarray(i, i + 7));
+            }
+            res.end();
+        });
+
+        server.listen(0);
+        await once(server, 'listening');
+        config = { url: `http://localhost:${(server.address() as AddressInfo).port}`, token: null, webUrl: null };
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    it('delivers each event once, whole, and skips heartbeats', async () => {
+        const events: PasteStreamEvent[] = [];
+
+        await streamPaste(config, 'abc123XY', event => events.push(event));
+
+        assert.deepEqual(events, [
+            { type: 'content', content: 'a\n', appendCount: 0 },
+            { type: 'append', chunk: 'bé\n', dropped: 2, appendCount: 1 },
+            { type: 'end', closedAt: null, expired: true },
+        ]);
+    });
+
+    it('turns a refusal into an ApiError', async () => {
+        await assert.rejects(
+            streamPaste(config, 'missing', () => {}),
+            (error: unknown) => error instanceof ApiError && error.status === 404 && error.code === 'NOT_FOUND'
+        );
+    });
+});
@@ -0,0 +1,62 @@
+/**
+ * Configuration Tests
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { after, afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadConfig } from '../src/config';
+
+const ENV_NAMES = ['PASTEBIN_URL', 'PASTEBIN_TOKEN', 'PASTEBIN_WEB_URL'];
+
+describe('loadConfig', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pastebin-cli-'));
+    const saved = Object.fromEntries(ENV_NAMES.map(name => [name, process.env[name]]));
+
+    const writeConfig = (config: unknown) => {
+        const path = join(dir, 'config.json');
+        writeFileSync(path, typeof config === 'string' ? config : JSON.stringify(config));
+        return path;
+    };
+
+    afterEach(() => {
+        for (const name of ENV_NAMES) {
+            if (saved[name] === undefined) delete process.env[name];
+            else process.env[name] = saved[name];
+        }
+    });
+
+    after(() => rmSync(dir, { recursive: true, force: true }));
+
+    it('falls back to the local API without a file', () => {
+        ENV_NAMES.forEach(name => delete process.env[name]);
+
+        assert.deepEqual(loadConfig(join(dir, 'missing.json')), { url: 'http://localhost:3001', token: null, webUrl: null });
+    });
+
+    it('reads the file, without trailing slashes on URLs', () => {
+        ENV_NAMES.forEach(name => delete process.env[name]);
+        const path = writeConfig({ url: 'https://api.example.com/', token: 'pb_file', webUrl: 'https://paste.example.com//' });
+
+        assert.deepEqual(loadConfig(path), { url: 'https://api.example.com', token: 'pb_file', webUrl: 'https://paste.example.com' });
+    });
+
+    it('lets the environment override the file', () => {
+        const path = writeConfig({ url: 'https://api.example.com', token: 'pb_file', webUrl: 'https://paste.example.com' });
+        process.env.PASTEBIN_URL = 'https://env.example.com/';
+        process.env.PASTEBIN_TOKEN = 'pb_env';
+        delete process.env.PASTEBIN_WEB_URL;
+
+        assert.deepEqual(loadConfig(path), { url: 'https://env.example.com', token: 'pb_env', webUrl: 'https://paste.example.com' });
+    });
+
+    it('ignores empty values and fails on a broken file', () => {
+        ENV_NAMES.forEach(name => delete process.env[name]);
+        process.env.PASTEBIN_TOKEN = '';
+
+        assert.equal(loadConfig(writeConfig({ token: '' })).token, null);
+        assert.throws(() => loadConfig(writeConfig('{ not json')), /Cannot read config/);
+    });
+});
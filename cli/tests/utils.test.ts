@@ -0,0 +1,44 @@
+/**
+ * Argument Parsing Tests
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDuration, parsePasteId, UsageError } from '../src/utils';
+
+describe('parsePasteId', () => {
+    it('takes a bare ID', () => {
+        assert.equal(parsePasteId('abc123XY'), 'abc123XY');
+    });
+
+    it('takes links to the paste, its page or its raw content', () => {
+        assert.equal(parsePasteId('https://paste.example.com/abc123XY'), 'abc123XY');
+        assert.equal(parsePasteId('https://paste.example.com/paste/abc123XY#L4'), 'abc123XY');
+        assert.equal(parsePasteId('http://localhost:3001/api/pastes/abc123XY/raw?x=1'), 'abc123XY');
+    });
+
+    it('refuses anything else', () => {
+        assert.throws(() => parsePasteId('not an id'), UsageError);
+        assert.throws(() => parsePasteId('https://paste.example.com/files/abc123XY'), UsageError);
+        assert.throws(() => parsePasteId('https://paste.example.com/'), UsageError);
+    });
+});
+
+describe('parseDuration', () => {
+    it('reads minutes with or without a unit', () => {
+        assert.equal(parseDuration('90', '--expires'), 90);
+        assert.equal(parseDuration('90m', '--expires'), 90);
+        assert.equal(parseDuration(' 12H ', '--expires'), 720);
+        assert.equal(parseDuration('7d', '--expires'), 10_080);
+        assert.equal(parseDuration('2w', '--expires'), 20_160);
+    });
+
+    it('leaves a missing flag unset', () => {
+        assert.equal(parseDuration(undefined, '--expires'), undefined);
+    });
+
+    it('names the flag when the value is wrong', () => {
+        assert.throws(() => parseDuration('1.5h', '--expires'), /--expires must be minutes/);
+        assert.throws(() => parseDuration('10y', '--expires'), UsageError);
+    });
+});
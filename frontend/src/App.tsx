@@ -3,6 +3,12 @@ import { Layout } from './components/Layout';
 import { HomePage } from './pages/HomePage';
 import { PastePage } from './pages/PastePage';
 import { FilesPage } from './pages/FilesPage';
+import { DeletePage } from './pages/DeletePage';
+import { DiffPage } from './pages/DiffPage';
+import { LoginPage } from './pages/LoginPage';
+import { DashboardPage } from './pages/DashboardPage';
+import { SearchPage } from './pages/SearchPage';
+import { LivePage } from './pages/LivePage';
 import { NotFound } from './pages/NotFound';
 
 function App() {
@@ -13,6 +19,12 @@ function App() {
           <Route path="/" element={<HomePage />} />
           <Route path="/paste/:id" element={<PastePage />} />
           <Route path="/files/:id" element={<FilesPage />} />
+          <Route path="/delete/:id" element={<DeletePage />} />
+          <Route path="/diff/:a/:b" element={<DiffPage />} />
+          <Route path="/login" element={<LoginPage />} />
+          <Route path="/dashboard" element={<DashboardPage />} />
+          <Route path="/search" element={<SearchPage />} />
+          <Route path="/live/:id" element={<LivePage />} />
           <Route path="/:id" element={<PastePage />} />
           <Route path="*" element={<NotFound />} />
         </Route>
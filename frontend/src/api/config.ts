@@ -3,10 +3,87 @@
  * Configure the backend API URL for different environments
  */
 
-import type { CreatePasteParams, PasteResponse, GetPasteResponse, ApiResponse } from './types';
+import type {
+    CreatePasteParams,
+    PasteResponse,
+    GetPasteResponse,
+    PasteMetaResponse,
+    PasteStreamEvent,
+    DeletePasteResponse,
+    ForkPasteParams,
+    UpdatePasteParams,
+    UpdatePasteResponse,
+    ListRevisionsResponse,
+    GetRevisionResponse,
+    DiffResponse,
+    PasteComment,
+    CreateCommentParams,
+    ListCommentsResponse,
+    CreateLiveSessionParams,
+    LiveSessionResponse,
+    AccountUser,
+    AuthResponse,
+    CredentialsParams,
+    AccountPasteSummary,
+    AccountUploadSummary,
+    AccountListQuery,
+    AccountList,
+    BulkDeleteResponse,
+    ApiKeySummary,
+    CreateApiKeyParams,
+    CreatedApiKey,
+    SearchQuery,
+    SearchResult,
+    SearchResponse,
+    RecentQuery,
+    RecentPaste,
+    RecentPastesResponse,
+    LanguageDetection,
+    Language,
+    ApiResponse,
+} from './types';
+import { getSession, clearSession } from '../lib/session';
+import { getOwnerToken } from '../lib/ownerTokens';
 
 // Re-export types for convenience
-export type { CreatePasteParams, PasteResponse, GetPasteResponse, ApiResponse };
+export type {
+    CreatePasteParams,
+    PasteResponse,
+    GetPasteResponse,
+    PasteMetaResponse,
+    PasteStreamEvent,
+    DeletePasteResponse,
+    ForkPasteParams,
+    UpdatePasteParams,
+    UpdatePasteResponse,
+    ListRevisionsResponse,
+    GetRevisionResponse,
+    DiffResponse,
+    PasteComment,
+    CreateCommentParams,
+    ListCommentsResponse,
+    CreateLiveSessionParams,
+    LiveSessionResponse,
+    AccountUser,
+    AuthResponse,
+    CredentialsParams,
+    AccountPasteSummary,
+    AccountUploadSummary,
+    AccountListQuery,
+    AccountList,
+    BulkDeleteResponse,
+    ApiKeySummary,
+    CreatedApiKey,
+    SearchQuery,
+    SearchResult,
+    SearchResponse,
+    RecentQuery,
+    RecentPaste,
+    RecentPastesResponse,
+    LanguageDetection,
+    Language,
+    ApiResponse,
+};
 
 // API Base URL - Change this to your Render backend URL after deployment
 export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
@@ -17,7 +94,12 @@ export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:30
 export const API_ENDPOINTS = {
     pastes: `${API_BASE_URL}/api/pastes`,
     files: `${API_BASE_URL}/api/files`,
+    auth: `${API_BASE_URL}/api/auth`,
+    account: `${API_BASE_URL}/api/account`,
     health: `${API_BASE_URL}/health`,
+    feeds: `${API_BASE_URL}/feeds`,
+    languages: `${API_BASE_URL}/api/languages`,
+    live: `${API_BASE_URL}/api/live`,
 } as const;
 
 /**
@@ -27,21 +109,31 @@ export async function apiRequest<T>(
     endpoint: string,
     options: RequestInit = {}
 ): Promise<ApiResponse<T>> {
+    // Signed-in requests carry the session so new pastes belong to the account
+    const session = getSession();
+
     try {
         const response = await fetch(endpoint, {
+            ...options,
             headers: {
                 'Content-Type': 'application/json',
+                ...(session && { Authorization: `Bearer ${session.token}` }),
                 ...options.headers,
             },
-            ...options,
         });
 
         const data = await response.json();
 
+        // A revoked session would otherwise fail every request
+        if (response.status === 401 && session && data.error?.code === 'UNAUTHORIZED') {
+            clearSession();
+        }
+
         if (!response.ok) {
             return {
                 success: false,
                 error: data.error?.message || `Request failed with status ${response.status}`,
+                code: data.error?.code,
             };
         }
 
@@ -64,19 +156,130 @@ export async function createPaste(params: CreatePasteParams): Promise<ApiRespons
     });
 }
 
+/**
+ * Supported languages with their names, extensions and grammars
+ */
+export async function getLanguages(): Promise<ApiResponse<Language[]>> {
+    return apiRequest<Language[]>(API_ENDPOINTS.languages);
+}
+
+/**
+ * Guess the language create would store for this content
+ */
+export async function detectLanguage(content: string): Promise<ApiResponse<LanguageDetection | null>> {
+    return apiRequest<LanguageDetection | null>(`${API_ENDPOINTS.pastes}/detect`, {
+        method: 'POST',
+        body: JSON.stringify({ content }),
+    });
+}
+
+/**
+ * Headers for reading a paste: its password, and the owner token when it was
+ * created in this browser so private pastes stay readable to their owner
+ */
+function readHeaders(id: string, password?: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const ownerToken = getOwnerToken(id);
+
+    if (password) headers['X-Paste-Password'] = encodeURIComponent(password);
+    if (ownerToken) headers['X-Owner-Token'] = ownerToken;
+
+    return headers;
+}
+
 /**
  * Get a paste by ID
  */
-export async function getPaste(id: string): Promise<ApiResponse<GetPasteResponse>> {
-    return apiRequest<GetPasteResponse>(`${API_ENDPOINTS.pastes}/${id}`);
+export async function getPaste(id: string, password?: string): Promise<ApiResponse<GetPasteResponse>> {
+    return apiRequest<GetPasteResponse>(`${API_ENDPOINTS.pastes}/${id}`, {
+        headers: readHeaders(id, password),
+    });
+}
+
+/**
+ * Get paste metadata without counting a view
+ */
+export async function getPasteMeta(id: string): Promise<ApiResponse<PasteMetaResponse>> {
+    return apiRequest<PasteMetaResponse>(`${API_ENDPOINTS.pastes}/${id}/meta`, {
+        headers: readHeaders(id),
+    });
+}
+
+/**
+ * The stream was refused - status tells a gone or locked paste from a dropped connection
+ */
+export class StreamError extends Error {
+    readonly status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = 'StreamError';
+        this.status = status;
+    }
+}
+
+/**
+ * Follow a live tail: calls onEvent with the content so far, then with each
+ * append. Resolves when the tail is closed or the connection drops, and
+ * rejects when the stream can't be opened (with a StreamError) or signal
+ * aborts it
+ */
+export async function streamPaste(
+    id: string,
+    onEvent: (event: PasteStreamEvent) => void,
+    options: { password?: string; signal?: AbortSignal } = {}
+): Promise<void> {
+    // EventSource can't send headers, which password-protected and private pastes need
+    const session = getSession();
+    const response = await fetch(`${API_ENDPOINTS.pastes}/${id}/stream`, {
+        headers: {
+            ...readHeaders(id, options.password),
+            ...(session && { Authorization: `Bearer ${session.token}` }),
+        },
+        signal: options.signal,
+    });
+
+    if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => null);
+        throw new StreamError(data?.error?.message || `Request failed with status ${response.status}`, response.status);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    for (;;) {
+        const { value, done } = await reader.read();
+        if (done) return;
+
+        buffer += value;
+        const messages = buffer.split('\n\n');
+        buffer = messages.pop() ?? '';
+
+        for (const message of messages) {
+            let type = '';
+            let data = '';
+
+            for (const line of message.split('\n')) {
+                if (line.startsWith('event: ')) type = line.slice(7);
+                else if (line.startsWith('data: ')) data += line.slice(6);
+            }
+
+            // Heartbeats are comment-only messages
+            if (type && data) {
+                onEvent({ type, ...JSON.parse(data) } as PasteStreamEvent);
+            }
+        }
+    }
 }
 
 /**
  * Get raw paste content
  */
-export async function getRawPaste(id: string): Promise<string | null> {
+export async function getRawPaste(id: string, password?: string): Promise<string | null> {
     try {
-        const response = await fetch(`${API_ENDPOINTS.pastes}/${id}/raw`);
+        const response = await fetch(`${API_ENDPOINTS.pastes}/${id}/raw`, {
+            headers: readHeaders(id, password),
+        });
         if (!response.ok) return null;
         return response.text();
     } catch {
@@ -84,6 +287,182 @@ export async function getRawPaste(id: string): Promise<string | null> {
     }
 }
 
+/**
+ * Delete a paste with its owner token
+ */
+export async function deletePaste(id: string, ownerToken: string): Promise<ApiResponse<DeletePasteResponse>> {
+    return apiRequest<DeletePasteResponse>(`${API_ENDPOINTS.pastes}/${id}`, {
+        method: 'DELETE',
+        headers: { 'X-Owner-Token': ownerToken },
+    });
+}
+
+/**
+ * Full-text search over public pastes
+ */
+export async function searchPastes(query: SearchQuery): Promise<ApiResponse<SearchResponse>> {
+    const params = new URLSearchParams({ q: query.q });
+    if (query.language) params.set('language', query.language);
+    if (query.page) params.set('page', String(query.page));
+    if (query.limit) params.set('limit', String(query.limit));
+
+    return apiRequest<SearchResponse>(`${API_ENDPOINTS.pastes}/search?${params}`);
+}
+
+/**
+ * Newest public pastes - pass the previous page's nextCursor to continue
+ */
+export async function getRecentPastes(query: RecentQuery = {}): Promise<ApiResponse<RecentPastesResponse>> {
+    const params = new URLSearchParams();
+    if (query.cursor) params.set('cursor', query.cursor);
+    if (query.language) params.set('language', query.language);
+    if (query.limit) params.set('limit', String(query.limit));
+
+    return apiRequest<RecentPastesResponse>(`${API_ENDPOINTS.pastes}/recent?${params}`);
+}
+
+/**
+ * Atom or RSS feed URL for recent public pastes
+ */
+export function getRecentFeedUrl(format: 'atom' | 'rss', language?: string): string {
+    const query = language ? `?language=${encodeURIComponent(language)}` : '';
+    return `${API_ENDPOINTS.feeds}/recent.${format}${query}`;
+}
+
+/**
+ * URL of a paste rendered server-side as a highlighted HTML page or image
+ */
+export function getRenderUrl(id: string, format: 'html' | 'svg' | 'png', mode: 'code' | 'markdown' = 'code'): string {
+    const query = mode === 'markdown' ? '?mode=markdown' : '';
+    return `${API_ENDPOINTS.pastes}/${id}/render.${format}${query}`;
+}
+
+/**
+ * Fork a paste into a new one that links back to it
+ */
+export async function forkPaste(
+    id: string,
+    params: ForkPasteParams,
+    password?: string
+): Promise<ApiResponse<PasteResponse>> {
+    return apiRequest<PasteResponse>(`${API_ENDPOINTS.pastes}/${id}/fork`, {
+        method: 'POST',
+        headers: readHeaders(id, password),
+        body: JSON.stringify(params),
+    });
+}
+
+/**
+ * Edit a paste with its owner token - creates a new revision
+ */
+export async function updatePaste(
+    id: string,
+    ownerToken: string,
+    params: UpdatePasteParams
+): Promise<ApiResponse<UpdatePasteResponse>> {
+    return apiRequest<UpdatePasteResponse>(`${API_ENDPOINTS.pastes}/${id}`, {
+        method: 'PUT',
+        headers: { 'X-Owner-Token': ownerToken },
+        body: JSON.stringify(params),
+    });
+}
+
+/**
+ * List the revisions of a paste
+ */
+export async function getRevisions(id: string, password?: string): Promise<ApiResponse<ListRevisionsResponse>> {
+    return apiRequest<ListRevisionsResponse>(`${API_ENDPOINTS.pastes}/${id}/revisions`, {
+        headers: readHeaders(id, password),
+    });
+}
+
+/**
+ * Get a single revision of a paste
+ */
+export async function getRevision(
+    id: string,
+    revision: number,
+    password?: string
+): Promise<ApiResponse<GetRevisionResponse>> {
+    return apiRequest<GetRevisionResponse>(`${API_ENDPOINTS.pastes}/${id}/revisions/${revision}`, {
+        headers: readHeaders(id, password),
+    });
+}
+
+/**
+ * Get a line diff between two pastes, or two revisions of one paste
+ */
+export async function getDiff(
+    id: string,
+    otherId: string,
+    revisions: { rev?: number; otherRev?: number } = {},
+    password?: string
+): Promise<ApiResponse<DiffResponse>> {
+    const query = new URLSearchParams();
+    if (revisions.rev) query.set('rev', String(revisions.rev));
+    if (revisions.otherRev) query.set('otherRev', String(revisions.otherRev));
+    const suffix = query.toString() ? `?${query}` : '';
+
+    return apiRequest<DiffResponse>(`${API_ENDPOINTS.pastes}/${id}/diff/${otherId}${suffix}`, {
+        headers: readHeaders(id, password),
+    });
+}
+
+/**
+ * List the comments on a paste - doesn't count a view
+ */
+export async function getComments(id: string, password?: string): Promise<ApiResponse<ListCommentsResponse>> {
+    return apiRequest<ListCommentsResponse>(`${API_ENDPOINTS.pastes}/${id}/comments`, {
+        headers: readHeaders(id, password),
+    });
+}
+
+/**
+ * Comment on a paste, or on a range of its lines
+ */
+export async function createComment(
+    id: string,
+    params: CreateCommentParams,
+    password?: string
+): Promise<ApiResponse<PasteComment>> {
+    return apiRequest<PasteComment>(`${API_ENDPOINTS.pastes}/${id}/comments`, {
+        method: 'POST',
+        headers: readHeaders(id, password),
+        body: JSON.stringify(params),
+    });
+}
+
+// ============================================
+// Live Sessions API
+// ============================================
+
+/**
+ * Start a live editing session, optionally seeded with some text
+ */
+export async function createLiveSession(
+    params: CreateLiveSessionParams = {}
+): Promise<ApiResponse<LiveSessionResponse>> {
+    return apiRequest<LiveSessionResponse>(API_ENDPOINTS.live, {
+        method: 'POST',
+        body: JSON.stringify(params),
+    });
+}
+
+/**
+ * Check a live session still exists and see who's in it
+ */
+export async function getLiveSession(id: string): Promise<ApiResponse<LiveSessionResponse>> {
+    return apiRequest<LiveSessionResponse>(`${API_ENDPOINTS.live}/${id}`);
+}
+
+/**
+ * WebSocket URL for editing a live session
+ */
+export function getLiveSocketUrl(id: string, name: string): string {
+    const query = name ? `?name=${encodeURIComponent(name)}` : '';
+    return `${API_ENDPOINTS.live.replace(/^http/, 'ws')}/${id}/socket${query}`;
+}
+
 // ============================================
 // File Upload API
 // ============================================
@@ -125,6 +504,8 @@ export interface GetUploadResponse {
     remainingViews: number | null;
     expiresAt: string | null;
     createdAt: string;
+    downloadToken: string; // downloads made with it don't count more views
+    downloadTokenExpiresAt: string;
 }
 
 /**
@@ -144,3 +525,135 @@ export async function getUpload(id: string): Promise<ApiResponse<GetUploadRespon
     return apiRequest<GetUploadResponse>(`${API_ENDPOINTS.files}/${id}`);
 }
 
+/**
+ * Get the URL for downloading one file of an upload
+ */
+export function getUploadFileUrl(id: string, path: string, token: string): string {
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    return `${API_ENDPOINTS.files}/${id}/download/${encodedPath}?token=${encodeURIComponent(token)}`;
+}
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+/**
+ * Get the URL for downloading every file of an upload as one archive
+ */
+export function getUploadArchiveUrl(id: string, token: string, format: ArchiveFormat = 'zip'): string {
+    return `${API_ENDPOINTS.files}/${id}/archive?format=${encodeURIComponent(format)}&token=${encodeURIComponent(token)}`;
+}
+
+// ============================================
+// Account API
+// ============================================
+
+/**
+ * Create an account - signs in on success
+ */
+export async function register(params: CredentialsParams): Promise<ApiResponse<AuthResponse>> {
+    return apiRequest<AuthResponse>(`${API_ENDPOINTS.auth}/register`, {
+        method: 'POST',
+        body: JSON.stringify(params),
+    });
+}
+
+/**
+ * Sign in with email and password
+ */
+export async function login(params: CredentialsParams): Promise<ApiResponse<AuthResponse>> {
+    return apiRequest<AuthResponse>(`${API_ENDPOINTS.auth}/login`, {
+        method: 'POST',
+        body: JSON.stringify(params),
+    });
+}
+
+/**
+ * End the current session
+ */
+export async function logout(): Promise<ApiResponse<{ loggedOut: true }>> {
+    return apiRequest<{ loggedOut: true }>(`${API_ENDPOINTS.auth}/logout`, {
+        method: 'POST',
+    });
+}
+
+/**
+ * Get the signed-in user
+ */
+export async function getCurrentUser(): Promise<ApiResponse<AccountUser>> {
+    return apiRequest<AccountUser>(`${API_ENDPOINTS.auth}/me`);
+}
+
+function accountListQuery(query: AccountListQuery): string {
+    const params = new URLSearchParams();
+    if (query.q) params.set('q', query.q);
+    if (query.page) params.set('page', String(query.page));
+    if (query.limit) params.set('limit', String(query.limit));
+    return params.toString() ? `?${params}` : '';
+}
+
+/**
+ * List the signed-in user's pastes, newest first
+ */
+export async function getAccountPastes(
+    query: AccountListQuery = {}
+): Promise<ApiResponse<AccountList<AccountPasteSummary>>> {
+    return apiRequest<AccountList<AccountPasteSummary>>(
+        `${API_ENDPOINTS.account}/pastes${accountListQuery(query)}`
+    );
+}
+
+/**
+ * Delete several of the signed-in user's pastes
+ */
+export async function bulkDeletePastes(ids: string[]): Promise<ApiResponse<BulkDeleteResponse>> {
+    return apiRequest<BulkDeleteResponse>(`${API_ENDPOINTS.account}/pastes/bulk-delete`, {
+        method: 'POST',
+        body: JSON.stringify({ ids }),
+    });
+}
+
+/**
+ * List the signed-in user's uploads, newest first
+ */
+export async function getAccountUploads(
+    query: AccountListQuery = {}
+): Promise<ApiResponse<AccountList<AccountUploadSummary>>> {
+    return apiRequest<AccountList<AccountUploadSummary>>(
+        `${API_ENDPOINTS.account}/uploads${accountListQuery(query)}`
+    );
+}
+
+/**
+ * Delete several of the signed-in user's uploads
+ */
+export async function bulkDeleteUploads(ids: string[]): Promise<ApiResponse<BulkDeleteResponse>> {
+    return apiRequest<BulkDeleteResponse>(`${API_ENDPOINTS.account}/uploads/bulk-delete`, {
+        method: 'POST',
+        body: JSON.stringify({ ids }),
+    });
+}
+
+/**
+ * List the signed-in user's API keys
+ */
+export async function getApiKeys(): Promise<ApiResponse<ApiKeySummary[]>> {
+    return apiRequest<ApiKeySummary[]>(`${API_ENDPOINTS.account}/keys`);
+}
+
+/**
+ * Create an API key - the key itself is only returned here
+ */
+export async function createApiKey(params: CreateApiKeyParams): Promise<ApiResponse<CreatedApiKey>> {
+    return apiRequest<CreatedApiKey>(`${API_ENDPOINTS.account}/keys`, {
+        method: 'POST',
+        body: JSON.stringify(params),
+    });
+}
+
+/**
+ * Revoke an API key
+ */
+export async function revokeApiKey(id: string): Promise<ApiResponse<{ id: string; deleted: true }>> {
+    return apiRequest<{ id: string; deleted: true }>(`${API_ENDPOINTS.account}/keys/${id}`, {
+        method: 'DELETE',
+    });
+}
@@ -7,11 +7,18 @@
 // Create Paste
 // ============================================
 
+// public pastes are searchable, unlisted need the link, private only the owner can read
+export type PasteVisibility = 'public' | 'unlisted' | 'private';
+
 export interface CreatePasteParams {
     content: string;
     language?: string;
     expiresIn?: number;
     maxViews?: number;
+    password?: string;
+    encrypted?: boolean;
+    visibility?: PasteVisibility;
+    appendable?: boolean;
 }
 
 export interface PasteResponse {
@@ -19,9 +26,40 @@ export interface PasteResponse {
     url: string;
     expiresAt: string | null;
     maxViews: number | null;
+    passwordProtected: boolean;
+    encrypted: boolean;
+    visibility: PasteVisibility;
+    language: string | null;
+    detectedLanguage: LanguageDetection | null;
+    ownerToken: string;
+    forkedFrom: string | null;
+    appendable: boolean;
     createdAt: string;
 }
 
+// ============================================
+// Languages
+// ============================================
+
+export interface Language {
+    id: string;
+    name: string;
+    extensions: string[]; // first one is used for downloads
+    mimeType: string;
+    prism: string; // Prism grammar name
+    aliases: string[];
+}
+
+// ============================================
+// Language Detection
+// ============================================
+
+export interface LanguageDetection {
+    language: string;
+    confidence: number; // 0-1
+    confident: boolean; // stored on create when no language is picked
+}
+
 // ============================================
 // Get Paste
 // ============================================
@@ -36,6 +74,312 @@ export interface GetPasteResponse {
     maxViews: number | null;
     remainingViews: number | null;
     isExpired: boolean;
+    encrypted: boolean;
+    visibility: PasteVisibility;
+    revision: number;
+    editedAt: string | null;
+    forkedFrom: string | null;
+    forkCount: number;
+    appendable: boolean; // a live tail - follow it with streamPaste
+    closedAt: string | null;
+}
+
+// Events on a live tail's stream: the content so far, then each append
+export type PasteStreamEvent =
+    | { type: 'content'; content: string; appendCount: number }
+    | { type: 'append'; chunk: string; dropped: number; appendCount: number }
+    | { type: 'end'; closedAt: string | null; expired: boolean };
+
+// Metadata only - fetching it doesn't count a view
+export interface PasteMetaResponse {
+    id: string;
+    language: string | null;
+    createdAt: string;
+    expiresAt: string | null;
+    viewCount: number;
+    maxViews: number | null;
+    remainingViews: number | null;
+    passwordProtected: boolean;
+    encrypted: boolean;
+    visibility: PasteVisibility;
+    revision: number;
+    editedAt: string | null;
+    forkedFrom: string | null;
+    forkCount: number;
+    appendable: boolean;
+    closedAt: string | null;
+}
+
+// ============================================
+// Search
+// ============================================
+
+export interface SearchQuery {
+    q: string;
+    language?: string;
+    page?: number;
+    limit?: number;
+}
+
+export interface SearchResult {
+    id: string;
+    preview: string;
+    language: string | null;
+    createdAt: string;
+    viewCount: number;
+    rank: number;
+}
+
+// Same pagination as the account listings
+export type SearchResponse = AccountList<SearchResult>;
+
+// ============================================
+// Recent Pastes
+// ============================================
+
+export interface RecentQuery {
+    cursor?: string;
+    language?: string;
+    limit?: number;
+}
+
+export interface RecentPaste {
+    id: string;
+    language: string | null;
+    createdAt: string;
+    preview: string;
+}
+
+export interface RecentPastesResponse {
+    items: RecentPaste[];
+    nextCursor: string | null;
+}
+
+// ============================================
+// Fork Paste
+// ============================================
+
+// Omitted content and language are copied from the source paste
+export type ForkPasteParams = Partial<CreatePasteParams>;
+
+// ============================================
+// Edit Paste & Revisions
+// ============================================
+
+export interface UpdatePasteParams {
+    content: string;
+    language?: string;
+    visibility?: PasteVisibility;
+    baseRevision?: number;
+}
+
+export interface UpdatePasteResponse {
+    id: string;
+    revision: number;
+    language: string | null;
+    visibility: PasteVisibility;
+    editedAt: string;
+}
+
+export interface RevisionSummary {
+    number: number;
+    language: string | null;
+    size: number;
+    createdAt: string;
+    current: boolean;
+}
+
+export interface ListRevisionsResponse {
+    id: string;
+    currentRevision: number;
+    revisions: RevisionSummary[];
+}
+
+export interface GetRevisionResponse {
+    id: string;
+    revision: number;
+    currentRevision: number;
+    content: string;
+    language: string | null;
+    createdAt: string;
+    encrypted: boolean;
+}
+
+// ============================================
+// Comments
+// ============================================
+
+export interface PasteComment {
+    id: string;
+    revision: number;
+    lineStart: number | null;
+    lineEnd: number | null;
+    body: string;
+    author: string | null;
+    byOwner: boolean;
+    createdAt: string;
+}
+
+export interface CreateCommentParams {
+    body: string;
+    author?: string;
+    revision?: number;
+    lineStart?: number;
+    lineEnd?: number;
+}
+
+export interface ListCommentsResponse {
+    id: string;
+    comments: PasteComment[];
+}
+
+// ============================================
+// Live Sessions
+// ============================================
+
+export interface LiveParticipant {
+    id: string;
+    name: string;
+    color: string;
+    selection: { anchor: number; head: number } | null;
+}
+
+export interface CreateLiveSessionParams {
+    content?: string;
+    language?: string;
+}
+
+export interface LiveSessionResponse {
+    id: string;
+    language: string | null;
+    revision: number;
+    participants: LiveParticipant[];
+    createdAt: string;
+    socketPath: string;
+}
+
+// ============================================
+// Diff
+// ============================================
+
+export interface DiffLine {
+    type: 'equal' | 'insert' | 'delete';
+    oldNumber: number | null;
+    newNumber: number | null;
+    content: string;
+}
+
+export interface DiffSide {
+    id: string;
+    revision: number;
+    language: string | null;
+}
+
+export interface DiffResponse {
+    from: DiffSide;
+    to: DiffSide;
+    stats: {
+        additions: number;
+        deletions: number;
+        unchanged: number;
+    };
+    lines: DiffLine[];
+}
+
+// ============================================
+// Delete Paste
+// ============================================
+
+export interface DeletePasteResponse {
+    id: string;
+    deleted: true;
+}
+
+// ============================================
+// Accounts
+// ============================================
+
+export interface CredentialsParams {
+    email: string;
+    password: string;
+}
+
+export interface AccountUser {
+    id: string;
+    email: string;
+    createdAt: string;
+}
+
+export interface AuthResponse {
+    user: AccountUser;
+    token: string;
+    expiresAt: string;
+}
+
+export interface AccountPasteSummary {
+    id: string;
+    preview: string | null;
+    language: string | null;
+    createdAt: string;
+    expiresAt: string | null;
+    viewCount: number;
+    maxViews: number | null;
+    isExpired: boolean;
+    encrypted: boolean;
+    passwordProtected: boolean;
+    visibility: PasteVisibility;
+    revision: number;
+}
+
+export interface AccountUploadSummary {
+    id: string;
+    name: string;
+    fileCount: number;
+    totalSize: number;
+    createdAt: string;
+    expiresAt: string | null;
+    viewCount: number;
+    maxViews: number | null;
+    isExpired: boolean;
+}
+
+export interface AccountListQuery {
+    q?: string;
+    page?: number;
+    limit?: number;
+}
+
+export interface AccountList<T> {
+    items: T[];
+    total: number;
+    page: number;
+    limit: number;
+}
+
+export interface BulkDeleteResponse {
+    deleted: number;
+}
+
+export type ApiScope = 'paste:create' | 'paste:read' | 'paste:delete' | 'admin:stats';
+
+export interface CreateApiKeyParams {
+    name: string;
+    scopes?: ApiScope[];
+    rateLimit?: number | null; // requests per minute, null for the default
+}
+
+export interface ApiKeySummary {
+    id: string;
+    name: string;
+    prefix: string;
+    scopes: ApiScope[];
+    rateLimit: number | null;
+    createdAt: string;
+    lastUsedAt: string | null;
+}
+
+export interface CreatedApiKey extends ApiKeySummary {
+    key: string;
 }
 
 // ============================================
@@ -44,4 +388,4 @@ export interface GetPasteResponse {
 
 export type ApiResponse<T> =
     | { success: true; data: T }
-    | { success: false; error: string };
+    | { success: false; error: string; code?: string };
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import './AuthForm.css';
+import { login, register } from '../api/config';
+import { saveSession } from '../lib/session';
+
+type AuthMode = 'login' | 'register';
+
+export function AuthForm() {
+    const navigate = useNavigate();
+    const [mode, setMode] = useState<AuthMode>('login');
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setIsSubmitting(true);
+
+        const result = mode === 'login'
+            ? await login({ email, password })
+            : await register({ email, password });
+
+        setIsSubmitting(false);
+
+        if (result.success) {
+            saveSession({
+                token: result.data.token,
+                email: result.data.user.email,
+                expiresAt: result.data.expiresAt,
+            });
+            navigate('/dashboard');
+        } else {
+            setError(result.error);
+        }
+    };
+
+    const switchMode = () => {
+        setMode(mode === 'login' ? 'register' : 'login');
+        setError(null);
+    };
+
+    return (
+        <div className="auth-form-container">
+            <div className="container">
+                <form onSubmit={handleSubmit} className="auth-form glass">
+                    <Link to="/" className="back-link">
+                        PASTEBIN
+                    </Link>
+                    <h2>{mode === 'login' ? 'Sign In' : 'Create Account'}</h2>
+                    <p>
+                        Accounts are optional - they keep your pastes and uploads in one place
+                        and let you create API keys.
+                    </p>
+
+                    <div className="form-group">
+                        <label htmlFor="email" className="form-label">
+                            Email
+                        </label>
+                        <input
+                            id="email"
+                            type="email"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            className="form-input"
+                            autoComplete="email"
+                            required
+                            disabled={isSubmitting}
+                        />
+                    </div>
+
+                    <div className="form-group">
+                        <label htmlFor="account-password" className="form-label">
+                            Password
+                        </label>
+                        <input
+                            id="account-password"
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            className="form-input"
+                            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+                            minLength={mode === 'register' ? 8 : undefined}
+                            required
+                            disabled={isSubmitting}
+                        />
+                    </div>
+
+                    {error && <p className="auth-form-error">{error}</p>}
+
+                    <button type="submit" className="btn auth-form-submit" disabled={isSubmitting}>
+                        {isSubmitting
+                            ? 'PLEASE WAIT...'
+                            : mode === 'login' ? 'SIGN IN' : 'CREATE ACCOUNT'}
+                    </button>
+
+                    <button type="button" onClick={switchMode} className="auth-form-switch">
+                        {mode === 'login'
+                            ? 'No account yet? Create one'
+                            : 'Already have an account? Sign in'}
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+}
+
+export default AuthForm;
@@ -0,0 +1,491 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import './Dashboard.css';
+import {
+    getAccountPastes,
+    getAccountUploads,
+    bulkDeletePastes,
+    bulkDeleteUploads,
+    getApiKeys,
+    createApiKey,
+    revokeApiKey,
+    logout,
+} from '../api/config';
+import type {
+    AccountList,
+    AccountPasteSummary,
+    AccountUploadSummary,
+    ApiKeySummary,
+    ApiScope,
+    CreatedApiKey,
+} from '../api/types';
+import { getSession, clearSession } from '../lib/session';
+import { useLanguages } from '../lib/languages';
+
+type DashboardTab = 'pastes' | 'uploads' | 'keys';
+
+const PAGE_SIZE = 20;
+
+const API_SCOPES: { value: ApiScope; label: string }[] = [
+    { value: 'paste:create', label: 'Create' },
+    { value: 'paste:read', label: 'Read' },
+    { value: 'paste:delete', label: 'Delete' },
+    { value: 'admin:stats', label: 'Stats (admins only)' },
+];
+
+const DEFAULT_SCOPES: ApiScope[] = ['paste:create', 'paste:read', 'paste:delete'];
+
+export function Dashboard() {
+    const navigate = useNavigate();
+    const registry = useLanguages();
+    const [session] = useState(() => getSession());
+    const [tab, setTab] = useState<DashboardTab>('pastes');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+
+    // Search, paging and selection for the paste and upload lists
+    const [query, setQuery] = useState('');
+    const [search, setSearch] = useState('');
+    const [page, setPage] = useState(1);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [deleting, setDeleting] = useState(false);
+    const [pastes, setPastes] = useState<AccountList<AccountPasteSummary> | null>(null);
+    const [uploads, setUploads] = useState<AccountList<AccountUploadSummary> | null>(null);
+
+    // API keys
+    const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+    const [keyName, setKeyName] = useState('');
+    const [keyScopes, setKeyScopes] = useState<ApiScope[]>(DEFAULT_SCOPES);
+    const [keyRateLimit, setKeyRateLimit] = useState('');
+    const [newKey, setNewKey] = useState<CreatedApiKey | null>(null);
+    const [keyCopied, setKeyCopied] = useState(false);
+
+    useEffect(() => {
+        if (!session) return;
+
+        async function fetchTab() {
+            setLoading(true);
+            setError(null);
+
+            const listQuery = { q: search || undefined, page, limit: PAGE_SIZE };
+
+            if (tab === 'pastes') {
+                const result = await getAccountPastes(listQuery);
+                if (result.success) setPastes(result.data);
+                else setError(result.error);
+            } else if (tab === 'uploads') {
+                const result = await getAccountUploads(listQuery);
+                if (result.success) setUploads(result.data);
+                else setError(result.error);
+            } else {
+                const result = await getApiKeys();
+                if (result.success) setKeys(result.data);
+                else setError(result.error);
+            }
+
+            setLoading(false);
+        }
+
+        fetchTab();
+    }, [session, tab, search, page, reloadKey]);
+
+    const switchTab = (next: DashboardTab) => {
+        setTab(next);
+        setQuery('');
+        setSearch('');
+        setPage(1);
+        setSelected(new Set());
+        setNewKey(null);
+    };
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        setSearch(query.trim());
+        setPage(1);
+        setSelected(new Set());
+    };
+
+    const toggleSelected = (id: string) => {
+        const next = new Set(selected);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        setSelected(next);
+    };
+
+    const handleBulkDelete = async () => {
+        const noun = tab === 'pastes' ? 'paste' : 'upload';
+        if (!window.confirm(`Delete ${selected.size} ${noun}${selected.size === 1 ? '' : 's'}? This cannot be undone.`)) {
+            return;
+        }
+
+        setDeleting(true);
+
+        const ids = [...selected];
+        const result = tab === 'pastes' ? await bulkDeletePastes(ids) : await bulkDeleteUploads(ids);
+
+        if (result.success) {
+            setSelected(new Set());
+            setReloadKey(key => key + 1);
+        } else {
+            setError(result.error);
+        }
+
+        setDeleting(false);
+    };
+
+    const toggleKeyScope = (scope: ApiScope) => {
+        setKeyScopes(current =>
+            current.includes(scope) ? current.filter(s => s !== scope) : [...current, scope]
+        );
+    };
+
+    const handleCreateKey = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!keyName.trim() || keyScopes.length === 0) return;
+
+        const result = await createApiKey({
+            name: keyName.trim(),
+            scopes: keyScopes,
+            rateLimit: keyRateLimit ? parseInt(keyRateLimit, 10) : null,
+        });
+
+        if (result.success) {
+            setNewKey(result.data);
+            setKeyName('');
+            setKeyScopes(DEFAULT_SCOPES);
+            setKeyRateLimit('');
+            setReloadKey(key => key + 1);
+        } else {
+            setError(result.error);
+        }
+    };
+
+    const handleRevokeKey = async (key: ApiKeySummary) => {
+        if (!window.confirm(`Revoke "${key.name}"? Anything using it will stop working.`)) {
+            return;
+        }
+
+        const result = await revokeApiKey(key.id);
+
+        if (result.success) {
+            setNewKey(current => (current?.id === key.id ? null : current));
+            setReloadKey(k => k + 1);
+        } else {
+            setError(result.error);
+        }
+    };
+
+    const copyNewKey = async () => {
+        if (!newKey) return;
+
+        try {
+            await navigator.clipboard.writeText(newKey.key);
+            setKeyCopied(true);
+            setTimeout(() => setKeyCopied(false), 2000);
+        } catch {
+            // The key stays visible to copy by hand
+        }
+    };
+
+    const handleSignOut = async () => {
+        await logout();
+        clearSession();
+        navigate('/');
+    };
+
+    const formatSize = (bytes: number) => {
+        if (bytes < 1024) return `${bytes} B`;
+        if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    };
+
+    const formatDate = (dateString: string) => {
+        return new Date(dateString).toLocaleString();
+    };
+
+    // Signed out
+    if (!session) {
+        return (
+            <div className="dashboard-container">
+                <div className="container">
+                    <div className="dashboard-empty glass">
+                        <h2>Sign In Required</h2>
+                        <p>Sign in to see your pastes, uploads and API keys.</p>
+                        <Link to="/login" className="btn">
+                            SIGN IN
+                        </Link>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    const list = tab === 'pastes' ? pastes : tab === 'uploads' ? uploads : null;
+    const pageCount = list ? Math.max(1, Math.ceil(list.total / list.limit)) : 1;
+
+    return (
+        <div className="dashboard-container">
+            <div className="container">
+                {/* Header */}
+                <div className="dashboard-header">
+                    <div className="dashboard-header-left">
+                        <Link to="/" className="back-link">
+                            PASTEBIN
+                        </Link>
+                        <span className="header-divider">/</span>
+                        <span className="dashboard-title">DASHBOARD</span>
+                    </div>
+                    <div className="dashboard-header-right">
+                        <span className="dashboard-email">{session.email}</span>
+                        <button onClick={handleSignOut} className="btn btn-secondary btn-sm">
+                            SIGN OUT
+                        </button>
+                    </div>
+                </div>
+
+                {/* Tab Navigation */}
+                <div className="tab-nav">
+                    <button
+                        className={`tab-btn ${tab === 'pastes' ? 'active' : ''}`}
+                        onClick={() => switchTab('pastes')}
+                    >
+                        PASTES
+                    </button>
+                    <button
+                        className={`tab-btn ${tab === 'uploads' ? 'active' : ''}`}
+                        onClick={() => switchTab('uploads')}
+                    >
+                        UPLOADS
+                    </button>
+                    <button
+                        className={`tab-btn ${tab === 'keys' ? 'active' : ''}`}
+                        onClick={() => switchTab('keys')}
+                    >
+                        API KEYS
+                    </button>
+                </div>
+
+                {error && <div className="dashboard-error">{error}</div>}
+
+                {tab !== 'keys' ? (
+                    <div className="dashboard-panel glass">
+                        {/* Search and bulk actions */}
+                        <div className="dashboard-toolbar">
+                            <form onSubmit={handleSearch} className="dashboard-search">
+                                <input
+                                    type="search"
+                                    value={query}
+                                    onChange={(e) => setQuery(e.target.value)}
+                                    placeholder={tab === 'pastes'
+                                        ? 'Search by content, ID or language'
+                                        : 'Search by name, file path or ID'}
+                                    className="form-input"
+                                />
+                                <button type="submit" className="btn btn-secondary btn-sm">
+                                    SEARCH
+                                </button>
+                            </form>
+                            <button
+                                onClick={handleBulkDelete}
+                                className="btn btn-sm"
+                                disabled={selected.size === 0 || deleting}
+                            >
+                                {deleting ? 'DELETING...' : `DELETE SELECTED (${selected.size})`}
+                            </button>
+                        </div>
+
+                        {/* List */}
+                        {loading && !list ? (
+                            <div className="dashboard-message">Loading...</div>
+                        ) : list && list.items.length === 0 ? (
+                            <div className="dashboard-message">
+                                {search ? 'Nothing matches your search.' : `No ${tab} yet.`}
+                            </div>
+                        ) : (
+                            <ul className="dashboard-list">
+                                {tab === 'pastes' && pastes?.items.map((paste) => (
+                                    <li key={paste.id} className="dashboard-item">
+                                        <input
+                                            type="checkbox"
+                                            checked={selected.has(paste.id)}
+                                            onChange={() => toggleSelected(paste.id)}
+                                            aria-label={`Select paste ${paste.id}`}
+                                        />
+                                        <div className="dashboard-item-main">
+                                            <Link to={`/paste/${paste.id}`} className="dashboard-item-id">
+                                                {paste.id}
+                                            </Link>
+                                            <span className="dashboard-item-preview">
+                                                {paste.preview === null ? 'Encrypted content' : paste.preview}
+                                            </span>
+                                        </div>
+                                        <div className="dashboard-item-meta">
+                                            <span>{(registry.find(paste.language)?.name ?? paste.language ?? 'text').toUpperCase()}</span>
+                                            <span>
+                                                {paste.viewCount}
+                                                {paste.maxViews && ` / ${paste.maxViews}`} views
+                                            </span>
+                                            <span>{formatDate(paste.createdAt)}</span>
+                                            {paste.isExpired && <span className="badge badge-error">Expired</span>}
+                                            {paste.passwordProtected && <span className="badge">Password</span>}
+                                            {paste.visibility !== 'unlisted' && (
+                                                <span className="badge">
+                                                    {paste.visibility === 'public' ? 'Public' : 'Private'}
+                                                </span>
+                                            )}
+                                        </div>
+                                    </li>
+                                ))}
+                                {tab === 'uploads' && uploads?.items.map((upload) => (
+                                    <li key={upload.id} className="dashboard-item">
+                                        <input
+                                            type="checkbox"
+                                            checked={selected.has(upload.id)}
+                                            onChange={() => toggleSelected(upload.id)}
+                                            aria-label={`Select upload ${upload.id}`}
+                                        />
+                                        <div className="dashboard-item-main">
+                                            <Link to={`/files/${upload.id}`} className="dashboard-item-id">
+                                                {upload.id}
+                                            </Link>
+                                            <span className="dashboard-item-preview">{upload.name}</span>
+                                        </div>
+                                        <div className="dashboard-item-meta">
+                                            <span>
+                                                {upload.fileCount} {upload.fileCount === 1 ? 'file' : 'files'}
+                                            </span>
+                                            <span>{formatSize(upload.totalSize)}</span>
+                                            <span>{formatDate(upload.createdAt)}</span>
+                                            {upload.isExpired && <span className="badge badge-error">Expired</span>}
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        {/* Pagination */}
+                        {list && pageCount > 1 && (
+                            <div className="dashboard-pagination">
+                                <button
+                                    onClick={() => setPage(page - 1)}
+                                    className="btn btn-secondary btn-sm"
+                                    disabled={page <= 1 || loading}
+                                >
+                                    PREVIOUS
+                                </button>
+                                <span>
+                                    Page {page} of {pageCount}
+                                </span>
+                                <button
+                                    onClick={() => setPage(page + 1)}
+                                    className="btn btn-secondary btn-sm"
+                                    disabled={page >= pageCount || loading}
+                                >
+                                    NEXT
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                ) : (
+                    <div className="dashboard-panel glass">
+                        <p className="dashboard-hint">
+                            Send a key as <code>Authorization: Bearer &lt;key&gt;</code> to create pastes
+                            and uploads that belong to your account. Each key is rate limited on its own,
+                            so shared networks like CI runners don't compete with each other.
+                        </p>
+
+                        <form onSubmit={handleCreateKey} className="dashboard-key-form">
+                            <div className="dashboard-search">
+                                <input
+                                    type="text"
+                                    value={keyName}
+                                    onChange={(e) => setKeyName(e.target.value)}
+                                    placeholder="Key name, e.g. CI pipeline"
+                                    className="form-input"
+                                    maxLength={100}
+                                />
+                                <input
+                                    type="number"
+                                    value={keyRateLimit}
+                                    onChange={(e) => setKeyRateLimit(e.target.value)}
+                                    placeholder="Requests/min"
+                                    className="form-input dashboard-key-limit"
+                                    min={1}
+                                    max={1000}
+                                    aria-label="Rate limit in requests per minute (optional)"
+                                />
+                                <button
+                                    type="submit"
+                                    className="btn btn-sm"
+                                    disabled={!keyName.trim() || keyScopes.length === 0}
+                                >
+                                    CREATE KEY
+                                </button>
+                            </div>
+                            <div className="dashboard-key-scopes">
+                                {API_SCOPES.map(({ value, label }) => (
+                                    <label key={value}>
+                                        <input
+                                            type="checkbox"
+                                            checked={keyScopes.includes(value)}
+                                            onChange={() => toggleKeyScope(value)}
+                                        />
+                                        <span>{label}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </form>
+
+                        {newKey && (
+                            <div className="dashboard-new-key">
+                                <span>Copy this key now - it won't be shown again.</span>
+                                <div className="dashboard-new-key-row">
+                                    <code>{newKey.key}</code>
+                                    <button onClick={copyNewKey} className="btn btn-secondary btn-sm">
+                                        {keyCopied ? 'COPIED' : 'COPY'}
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        {keys.length === 0 ? (
+                            <div className="dashboard-message">{loading ? 'Loading...' : 'No API keys yet.'}</div>
+                        ) : (
+                            <ul className="dashboard-list">
+                                {keys.map((key) => (
+                                    <li key={key.id} className="dashboard-item">
+                                        <div className="dashboard-item-main">
+                                            <span className="dashboard-item-id">{key.prefix}…</span>
+                                            <span className="dashboard-item-preview">{key.name}</span>
+                                        </div>
+                                        <div className="dashboard-item-meta">
+                                            <span className="dashboard-key-badges">
+                                                {key.scopes.map(scope => (
+                                                    <span key={scope} className="badge">{scope}</span>
+                                                ))}
+                                            </span>
+                                            <span>{key.rateLimit ? `${key.rateLimit}/min` : 'Default limit'}</span>
+                                            <span>Created {formatDate(key.createdAt)}</span>
+                                            <span>
+                                                {key.lastUsedAt ? `Last used ${formatDate(key.lastUsedAt)}` : 'Never used'}
+                                            </span>
+                                            <button
+                                                onClick={() => handleRevokeKey(key)}
+                                                className="btn btn-secondary btn-sm"
+                                            >
+                                                REVOKE
+                                            </button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default Dashboard;
@@ -0,0 +1,224 @@
+import { useState, useEffect } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { Highlight, themes, type RenderProps } from 'prism-react-renderer';
+import './DiffViewer.css';
+import { getDiff } from '../api/config';
+import type { DiffLine, DiffResponse } from '../api/types';
+import { useLanguages } from '../lib/languages';
+
+type DiffMode = 'split' | 'unified';
+
+interface SplitRow {
+    left: DiffLine | null;
+    right: DiffLine | null;
+}
+
+/**
+ * Pair lines for side-by-side display
+ * A run of deletions is matched row by row with the insertions that follow it
+ */
+const buildSplitRows = (lines: DiffLine[]): SplitRow[] => {
+    const rows: SplitRow[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        if (lines[i].type === 'equal') {
+            rows.push({ left: lines[i], right: lines[i] });
+            i++;
+            continue;
+        }
+
+        const deletions: DiffLine[] = [];
+        const insertions: DiffLine[] = [];
+        while (i < lines.length && lines[i].type === 'delete') deletions.push(lines[i++]);
+        while (i < lines.length && lines[i].type === 'insert') insertions.push(lines[i++]);
+
+        for (let row = 0; row < Math.max(deletions.length, insertions.length); row++) {
+            rows.push({ left: deletions[row] ?? null, right: insertions[row] ?? null });
+        }
+    }
+
+    return rows;
+};
+
+const parseRevision = (value: string | null): number | undefined => {
+    const n = value ? parseInt(value) : NaN;
+    return Number.isInteger(n) && n > 0 ? n : undefined;
+};
+
+export function DiffViewer() {
+    const { a, b } = useParams<{ a: string; b: string }>();
+    const [searchParams] = useSearchParams();
+    const rev = parseRevision(searchParams.get('rev'));
+    const otherRev = parseRevision(searchParams.get('otherRev'));
+    const registry = useLanguages();
+
+    const [diff, setDiff] = useState<DiffResponse | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [mode, setMode] = useState<DiffMode>('split');
+
+    useEffect(() => {
+        if (!a || !b) return;
+
+        async function fetchDiff() {
+            setLoading(true);
+            setError(null);
+
+            const result = await getDiff(a!, b!, { rev, otherRev });
+
+            if (result.success) {
+                setDiff(result.data);
+            } else {
+                setError(result.error);
+            }
+
+            setLoading(false);
+        }
+
+        fetchDiff();
+    }, [a, b, rev, otherRev]);
+
+    // Loading State
+    if (loading) {
+        return (
+            <div className="diff-viewer-container">
+                <div className="container">
+                    <div className="diff-viewer glass">
+                        <div className="loading-state">
+                            <div className="loading-text">LOADING</div>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    // Error State
+    if (error || !diff) {
+        return (
+            <div className="diff-viewer-container">
+                <div className="container">
+                    <div className="diff-viewer glass">
+                        <div className="error-state">
+                            <h2>Cannot Compare</h2>
+                            <p>{error}</p>
+                            <Link to="/" className="btn">
+                                BACK TO HOME
+                            </Link>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    // Highlight each side as a whole so multi-line tokens keep their context
+    const oldCode = diff.lines.filter(l => l.type !== 'insert').map(l => l.content).join('\n');
+    const newCode = diff.lines.filter(l => l.type !== 'delete').map(l => l.content).join('\n');
+    const languageId = diff.to.language || diff.from.language || 'text';
+    const language = registry.find(languageId)?.prism ?? languageId;
+
+    const renderLine = (
+        line: DiffLine | null,
+        side: 'old' | 'new',
+        oldTokens: RenderProps,
+        newTokens: RenderProps
+    ) => {
+        if (!line) {
+            return <span className="line-content diff-empty"></span>;
+        }
+
+        const source = side === 'old' ? oldTokens : newTokens;
+        const number = side === 'old' ? line.oldNumber : line.newNumber;
+        const tokens = number ? source.tokens[number - 1] : undefined;
+
+        return (
+            <span className="line-content">
+                {tokens
+                    ? tokens.map((token, key) => <span key={key} {...source.getTokenProps({ token })} />)
+                    : line.content}
+            </span>
+        );
+    };
+
+    const describeSide = (side: DiffResponse['from']) =>
+        `${side.id} r${side.revision}`;
+
+    return (
+        <div className="diff-viewer-container">
+            <div className="container">
+                {/* Header */}
+                <div className="diff-header">
+                    <div className="diff-header-left">
+                        <Link to="/" className="back-link">
+                            PASTEBIN
+                        </Link>
+                        <span className="header-divider">/</span>
+                        <Link to={`/paste/${diff.from.id}`} className="diff-side">{describeSide(diff.from)}</Link>
+                        <span className="header-divider">→</span>
+                        <Link to={`/paste/${diff.to.id}`} className="diff-side">{describeSide(diff.to)}</Link>
+                    </div>
+                    <div className="diff-header-right">
+                        <span className="diff-stat diff-stat-add">+{diff.stats.additions}</span>
+                        <span className="diff-stat diff-stat-del">-{diff.stats.deletions}</span>
+                        <button
+                            onClick={() => setMode('split')}
+                            className={`btn btn-sm ${mode === 'split' ? '' : 'btn-secondary'}`}
+                        >
+                            SPLIT
+                        </button>
+                        <button
+                            onClick={() => setMode('unified')}
+                            className={`btn btn-sm ${mode === 'unified' ? '' : 'btn-secondary'}`}
+                        >
+                            UNIFIED
+                        </button>
+                    </div>
+                </div>
+
+                {/* Diff */}
+                <div className="diff-code-container glass">
+                    <Highlight theme={themes.vsDark} code={oldCode} language={language}>
+                        {(oldTokens) => (
+                            <Highlight theme={themes.vsDark} code={newCode} language={language}>
+                                {(newTokens) => (
+                                    <pre
+                                        className={`${newTokens.className} diff-code`}
+                                        style={{ ...newTokens.style, background: 'transparent' }}
+                                    >
+                                        {mode === 'unified'
+                                            ? diff.lines.map((line, i) => (
+                                                <div key={i} className={`diff-line diff-${line.type}`}>
+                                                    <span className="line-number">{line.oldNumber ?? ''}</span>
+                                                    <span className="line-number">{line.newNumber ?? ''}</span>
+                                                    <span className="diff-marker">
+                                                        {line.type === 'insert' ? '+' : line.type === 'delete' ? '-' : ' '}
+                                                    </span>
+                                                    {renderLine(line, line.type === 'insert' ? 'new' : 'old', oldTokens, newTokens)}
+                                                </div>
+                                            ))
+                                            : buildSplitRows(diff.lines).map((row, i) => (
+                                                <div key={i} className="diff-row">
+                                                    <div className={`diff-line diff-${row.left?.type ?? 'empty'}`}>
+                                                        <span className="line-number">{row.left?.oldNumber ?? ''}</span>
+                                                        {renderLine(row.left, 'old', oldTokens, newTokens)}
+                                                    </div>
+                                                    <div className={`diff-line diff-${row.right?.type ?? 'empty'}`}>
+                                                        <span className="line-number">{row.right?.newNumber ?? ''}</span>
+                                                        {renderLine(row.right, 'new', oldTokens, newTokens)}
+                                                    </div>
+                                                </div>
+                                            ))}
+                                    </pre>
+                                )}
+                            </Highlight>
+                        )}
+                    </Highlight>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default DiffViewer;
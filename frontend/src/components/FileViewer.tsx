@@ -2,53 +2,32 @@ import { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { Highlight, themes } from 'prism-react-renderer';
 import './FileViewer.css';
-import { getUpload, type GetUploadResponse, type UploadedFile, API_ENDPOINTS } from '../api/config';
+import { getUpload, getUploadArchiveUrl, getUploadFileUrl, type GetUploadResponse, type UploadedFile } from '../api/config';
+import { useLanguages } from '../lib/languages';
 
-// Language detection from file extension
-const getLanguage = (filename: string): string => {
-    const ext = filename.split('.').pop()?.toLowerCase() || '';
-    const langMap: Record<string, string> = {
-        js: 'javascript',
-        jsx: 'jsx',
-        ts: 'typescript',
-        tsx: 'tsx',
-        py: 'python',
-        java: 'java',
-        cpp: 'cpp',
-        c: 'c',
-        cs: 'csharp',
-        go: 'go',
-        rs: 'rust',
-        rb: 'ruby',
-        php: 'php',
-        html: 'html',
-        css: 'css',
-        json: 'json',
-        sql: 'sql',
-        sh: 'bash',
-        md: 'markdown',
-        yaml: 'yaml',
-        yml: 'yaml',
-        xml: 'xml',
-    };
-    return langMap[ext] || 'text';
-};
-
-// Check if file is text-based
-const isTextFile = (type: string, name: string): boolean => {
-    if (type.startsWith('text/')) return true;
-    if (type.includes('json') || type.includes('javascript') || type.includes('xml')) return true;
-    const textExtensions = ['js', 'jsx', 'ts', 'tsx', 'py', 'java', 'cpp', 'c', 'cs', 'go', 'rs', 'rb', 'php', 'html', 'css', 'json', 'sql', 'sh', 'md', 'yaml', 'yml', 'xml', 'txt', 'env', 'gitignore', 'prisma'];
-    const ext = name.split('.').pop()?.toLowerCase() || '';
-    return textExtensions.includes(ext);
-};
+/**
+ * Text files without a registered language extension
+ */
+const EXTRA_TEXT_EXTENSIONS = ['env', 'gitignore', 'prisma'];
 
 export function FileViewer() {
     const { id } = useParams<{ id: string }>();
     const [upload, setUpload] = useState<GetUploadResponse | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
-    const [selectedFile, setSelectedFile] = useState<UploadedFile | null>(null);
+    const [pickedFile, setPickedFile] = useState<UploadedFile | null>(null);
+    const registry = useLanguages();
+
+    // Check if file is text-based
+    const isTextFile = (type: string, name: string): boolean => {
+        if (type.startsWith('text/')) return true;
+        if (type.includes('json') || type.includes('javascript') || type.includes('xml')) return true;
+        const ext = name.split('.').pop()?.toLowerCase() || '';
+        return registry.fromFilename(name) !== undefined || EXTRA_TEXT_EXTENSIONS.includes(ext);
+    };
+
+    // First text file until one is picked - the registry may load after the upload
+    const selectedFile = pickedFile ?? upload?.files.find(f => isTextFile(f.type, f.name)) ?? null;
 
     useEffect(() => {
         if (!id) return;
@@ -59,9 +38,6 @@ export function FileViewer() {
 
             if (result.success) {
                 setUpload(result.data);
-                // Select first text file by default
-                const firstTextFile = result.data.files.find(f => isTextFile(f.type, f.name));
-                if (firstTextFile) setSelectedFile(firstTextFile);
             } else {
                 setError(result.error);
             }
@@ -168,6 +144,12 @@ export function FileViewer() {
                     <div className="file-header-right">
                         <span className="meta-badge">{upload.fileCount} FILES</span>
                         <span className="meta-badge">{formatSize(upload.totalSize)}</span>
+                        <a href={getUploadArchiveUrl(upload.id, upload.downloadToken, 'zip')} className="btn btn-sm" download>
+                            DOWNLOAD ALL
+                        </a>
+                        <a href={getUploadArchiveUrl(upload.id, upload.downloadToken, 'tar.gz')} className="btn btn-secondary btn-sm" download>
+                            TAR.GZ
+                        </a>
                     </div>
                 </div>
 
@@ -207,7 +189,7 @@ export function FileViewer() {
                                     <div
                                         key={idx}
                                         className={`tree-file ${selectedFile?.path === file.path ? 'selected' : ''}`}
-                                        onClick={() => setSelectedFile(file)}
+                                        onClick={() => setPickedFile(file)}
                                     >
                                         <span className="file-icon">{isTextFile(file.type, file.name) ? '◇' : '◈'}</span>
                                         <span className="file-label">{file.name}</span>
@@ -230,7 +212,7 @@ export function FileViewer() {
                                         <Highlight
                                             theme={themes.vsDark}
                                             code={decodeContent(selectedFile.content)}
-                                            language={getLanguage(selectedFile.name) as any}
+                                            language={registry.fromFilename(selectedFile.name)?.prism ?? 'text'}
                                         >
                                             {({ className, style, tokens, getLineProps, getTokenProps }) => (
                                                 <pre className={className} style={{ ...style, background: 'transparent' }}>
@@ -252,7 +234,7 @@ export function FileViewer() {
                                     <div className="preview-binary">
                                         <p>Binary file - cannot preview</p>
                                         <a
-                                            href={`${API_ENDPOINTS.files}/${id}/download/${selectedFile.path}`}
+                                            href={getUploadFileUrl(upload.id, selectedFile.path, upload.downloadToken)}
                                             className="btn btn-sm"
                                             download
                                         >
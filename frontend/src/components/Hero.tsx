@@ -1,20 +1,32 @@
+import { Link } from 'react-router-dom';
 import './Hero.css';
+import { getSession } from '../lib/session';
 
 export function Hero() {
+    const signedIn = getSession() !== null;
+
     return (
         <section className="hero">
             <div className="hero-content container">
                 {/* Top bar with brand and portfolio link */}
                 <div className="hero-topbar">
                     <span className="hero-brand">PASTEBIN</span>
-                    <a
-                        href="https://umangkumar.netlify.app"
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="hero-portfolio-link"
-                    >
-                        About Developer
-                    </a>
+                    <div className="hero-topbar-links">
+                        <Link to="/search" className="hero-portfolio-link">
+                            Search
+                        </Link>
+                        <Link to={signedIn ? '/dashboard' : '/login'} className="hero-portfolio-link">
+                            {signedIn ? 'Dashboard' : 'Sign In'}
+                        </Link>
+                        <a
+                            href="https://umangkumar.netlify.app"
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="hero-portfolio-link"
+                        >
+                            About Developer
+                        </a>
+                    </div>
                 </div>
 
                 <h1 className="hero-title animate-slide-up">
@@ -0,0 +1,292 @@
+import { useEffect, useLayoutEffect, useRef, useState, type FormEvent, type ReactNode } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import './LiveEditor.css';
+import { createPaste, getLiveSession } from '../api/config';
+import type { LiveParticipant } from '../api/types';
+import { useLanguages } from '../lib/languages';
+import { useLiveSession } from '../lib/liveSession';
+import { saveOwnerToken } from '../lib/ownerTokens';
+import type { TextSelection } from '../lib/ot';
+
+const NAME_STORAGE_KEY = 'pastebin:liveName';
+
+const readSelection = (textarea: HTMLTextAreaElement): TextSelection =>
+    textarea.selectionDirection === 'backward'
+        ? { anchor: textarea.selectionEnd, head: textarea.selectionStart }
+        : { anchor: textarea.selectionStart, head: textarea.selectionEnd };
+
+/**
+ * The text again, transparent, with everyone else's selections tinted and
+ * carets drawn where they are - it sits under the textarea, which is
+ * transparent too, and sets the height of both
+ */
+const renderPresence = (content: string, participants: LiveParticipant[]): ReactNode[] => {
+    const ranges = participants
+        .filter((participant) => participant.selection)
+        .map((participant) => {
+            const { anchor, head } = participant.selection!;
+            const clamp = (position: number) => Math.max(0, Math.min(position, content.length));
+            return {
+                participant,
+                start: clamp(Math.min(anchor, head)),
+                end: clamp(Math.max(anchor, head)),
+                head: clamp(head),
+            };
+        });
+
+    const boundaries = [...new Set([0, content.length, ...ranges.flatMap((range) => [range.start, range.end])])]
+        .sort((a, b) => a - b);
+
+    const caretsAt = (position: number) =>
+        ranges
+            .filter((range) => range.head === position)
+            .map(({ participant }) => (
+                <span key={`caret-${participant.id}`} className="live-caret" style={{ borderColor: participant.color }}>
+                    <span className="live-caret-label" style={{ background: participant.color }}>
+                        {participant.name}
+                    </span>
+                </span>
+            ));
+
+    const nodes: ReactNode[] = [];
+
+    boundaries.forEach((start, i) => {
+        nodes.push(...caretsAt(start));
+
+        const end = boundaries[i + 1];
+        if (end === undefined) return;
+
+        const covering = ranges.find((range) => range.start <= start && end <= range.end && range.start < range.end);
+        nodes.push(
+            <span key={`text-${start}`} style={covering && { background: `${covering.participant.color}33` }}>
+                {content.slice(start, end)}
+            </span>
+        );
+    });
+
+    // Keeps a trailing newline's empty line in the height
+    nodes.push('\u200b');
+    return nodes;
+};
+
+export function LiveEditor() {
+    const { id } = useParams<{ id: string }>();
+    const registry = useLanguages();
+
+    const [name, setName] = useState(() => localStorage.getItem(NAME_STORAGE_KEY) ?? '');
+    const [joinedAs, setJoinedAs] = useState<string | null>(null);
+    const [missing, setMissing] = useState(false);
+    const [copied, setCopied] = useState(false);
+    const [snapshotting, setSnapshotting] = useState(false);
+    const [snapshotError, setSnapshotError] = useState<string | null>(null);
+    const [ownSnapshots, setOwnSnapshots] = useState<string[]>([]);
+
+    const live = useLiveSession(id ?? '', joinedAs);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    // Check the session exists before asking for a name
+    useEffect(() => {
+        if (!id) return;
+
+        getLiveSession(id).then((result) => {
+            if (!result.success && result.code === 'NOT_FOUND') {
+                setMissing(true);
+            }
+        });
+    }, [id]);
+
+    // Remote edits replace the textarea's value - put the caret back where it belongs
+    useLayoutEffect(() => {
+        const textarea = textareaRef.current;
+        const selection = live.selection;
+        if (!textarea || !selection || document.activeElement !== textarea) return;
+
+        const start = Math.min(selection.anchor, selection.head);
+        const end = Math.max(selection.anchor, selection.head);
+
+        if (textarea.selectionStart !== start || textarea.selectionEnd !== end) {
+            textarea.setSelectionRange(start, end, selection.anchor > selection.head ? 'backward' : 'forward');
+        }
+    }, [live.content, live.selection]);
+
+    const handleJoin = (e: FormEvent) => {
+        e.preventDefault();
+
+        const trimmed = name.trim();
+        localStorage.setItem(NAME_STORAGE_KEY, trimmed);
+        setJoinedAs(trimmed);
+    };
+
+    const copyLink = async () => {
+        try {
+            await navigator.clipboard.writeText(window.location.href);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch {
+            // Fallback
+        }
+    };
+
+    // Freeze the text as it is now into an ordinary paste
+    const handleSnapshot = async () => {
+        setSnapshotting(true);
+        setSnapshotError(null);
+
+        const result = await createPaste({
+            content: live.content,
+            language: live.language ?? undefined,
+        });
+
+        if (result.success) {
+            saveOwnerToken(result.data.id, result.data.ownerToken);
+            setOwnSnapshots((snapshots) => [...snapshots, result.data.id]);
+            live.announceSnapshot(result.data.id, result.data.ownerToken);
+        } else {
+            setSnapshotError(result.error);
+        }
+
+        setSnapshotting(false);
+    };
+
+    // Ended State
+    if (missing || live.status === 'ended') {
+        return (
+            <div className="live-editor-container">
+                <div className="container">
+                    <div className="live-editor glass">
+                        <div className="error-state">
+                            <h2>Session Ended</h2>
+                            <p>This live session doesn't exist any more. Snapshots taken from it are still available.</p>
+                            <Link to="/" className="btn">
+                                BACK TO HOME
+                            </Link>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    // Join State
+    if (joinedAs === null) {
+        return (
+            <div className="live-editor-container">
+                <div className="container">
+                    <form onSubmit={handleJoin} className="live-join glass">
+                        <h2>Join Live Session</h2>
+                        <p>Everyone in the session sees your name next to your cursor.</p>
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="Your name (optional)"
+                            maxLength={50}
+                            className="form-input"
+                            autoFocus
+                        />
+                        <button type="submit" className="btn">
+                            JOIN
+                        </button>
+                    </form>
+                </div>
+            </div>
+        );
+    }
+
+    const snapshots = [
+        ...ownSnapshots.map((pasteId) => ({ by: 'You', pasteId })),
+        ...live.snapshots,
+    ];
+
+    return (
+        <div className="live-editor-container">
+            <div className="container">
+                {/* Header */}
+                <div className="live-header">
+                    <div className="live-header-left">
+                        <Link to="/" className="back-link">
+                            PASTEBIN
+                        </Link>
+                        <span className="header-divider">/</span>
+                        <span className="live-id">LIVE {id}</span>
+                        <span className={`live-status live-status-${live.status}`}>
+                            {live.status.toUpperCase()}
+                        </span>
+                    </div>
+                    <div className="live-header-right">
+                        <select
+                            value={live.language ?? ''}
+                            onChange={(e) => live.setLanguage(e.target.value || null)}
+                            className="form-select live-language"
+                            disabled={live.status !== 'connected'}
+                        >
+                            <option value="">Plain text</option>
+                            {registry.languages.map((lang) => (
+                                <option key={lang.id} value={lang.id}>
+                                    {lang.name}
+                                </option>
+                            ))}
+                        </select>
+                        <button onClick={copyLink} className="btn btn-secondary btn-sm">
+                            {copied ? 'COPIED' : 'COPY LINK'}
+                        </button>
+                        <button
+                            onClick={handleSnapshot}
+                            className="btn btn-sm"
+                            disabled={snapshotting || live.status !== 'connected' || !live.content.trim()}
+                        >
+                            {snapshotting ? 'SAVING...' : 'SNAPSHOT'}
+                        </button>
+                    </div>
+                </div>
+
+                {/* Participants */}
+                <div className="live-participants">
+                    <span className="live-participant live-participant-self">You{joinedAs && ` (${joinedAs})`}</span>
+                    {live.participants.map((participant) => (
+                        <span
+                            key={participant.id}
+                            className="live-participant"
+                            style={{ borderColor: participant.color, color: participant.color }}
+                        >
+                            {participant.name}
+                        </span>
+                    ))}
+                </div>
+
+                {snapshotError && <div className="live-error">{snapshotError}</div>}
+
+                {snapshots.length > 0 && (
+                    <ul className="live-snapshots">
+                        {snapshots.map(({ by, pasteId }) => (
+                            <li key={pasteId}>
+                                {by} saved a snapshot: <Link to={`/${pasteId}`}>/{pasteId}</Link>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {/* Editor */}
+                <div className="live-editor glass">
+                    <div className="live-surface">
+                        <div className="live-presence" aria-hidden="true">
+                            {renderPresence(live.content, live.participants)}
+                        </div>
+                        <textarea
+                            ref={textareaRef}
+                            value={live.content}
+                            onChange={(e) => live.edit(e.target.value, readSelection(e.target))}
+                            onSelect={(e) => live.select(readSelection(e.currentTarget))}
+                            className="live-textarea"
+                            placeholder={live.status === 'connected' ? 'Start typing...' : 'Connecting...'}
+                            readOnly={live.status !== 'connected'}
+                            spellCheck={false}
+                        />
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default LiveEditor;
@@ -0,0 +1,99 @@
+import { useMemo, type ReactNode } from 'react';
+import Markdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeSlug from 'rehype-slug';
+import { Highlight, themes } from 'prism-react-renderer';
+import './MarkdownView.css';
+import { useLanguages } from '../lib/languages';
+
+interface MarkdownViewProps {
+    content: string;
+}
+
+type HeadingTag = 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+
+/**
+ * Heading with a hover anchor - rehype-slug gives it a GitHub-style id
+ */
+function heading(Tag: HeadingTag) {
+    return function Heading({ id, children }: { id?: string; children?: ReactNode }) {
+        return (
+            <Tag id={id}>
+                {id && (
+                    <a href={`#${id}`} className="markdown-anchor" aria-hidden="true">
+                        #
+                    </a>
+                )}
+                {children}
+            </Tag>
+        );
+    };
+}
+
+/**
+ * GitHub-flavored markdown - raw HTML is sanitized away, fenced code is
+ * highlighted like the source view
+ */
+export function MarkdownView({ content }: MarkdownViewProps) {
+    const registry = useLanguages();
+
+    const components = useMemo<Components>(
+        () => ({
+            h1: heading('h1'),
+            h2: heading('h2'),
+            h3: heading('h3'),
+            h4: heading('h4'),
+            h5: heading('h5'),
+            h6: heading('h6'),
+            // Linked rather than loaded - a remote image would tell its host who read the paste
+            img: ({ src, alt }) => <a href={src}>{alt || src}</a>,
+            // Blocks render their own <pre> below
+            pre: ({ children }) => <>{children}</>,
+            code: ({ className, children }) => {
+                const text = String(children);
+                const fence = /language-(\S+)/.exec(className ?? '')?.[1];
+
+                // Fenced blocks end with a newline; inline code never does
+                if (!fence && !text.endsWith('\n')) {
+                    return <code className="markdown-inline-code">{children}</code>;
+                }
+
+                return (
+                    <Highlight
+                        theme={themes.vsDark}
+                        code={text.replace(/\n$/, '')}
+                        language={registry.find(fence)?.prism ?? fence ?? 'plain'}
+                    >
+                        {({ className, style, tokens, getLineProps, getTokenProps }) => (
+                            <pre className={`${className} markdown-code`} style={style}>
+                                {tokens.map((line, i) => (
+                                    <div key={i} {...getLineProps({ line })}>
+                                        {line.map((token, key) => (
+                                            <span key={key} {...getTokenProps({ token })} />
+                                        ))}
+                                    </div>
+                                ))}
+                            </pre>
+                        )}
+                    </Highlight>
+                );
+            },
+        }),
+        [registry]
+    );
+
+    return (
+        <div className="markdown-body">
+            <Markdown
+                remarkPlugins={[remarkGfm]}
+                rehypePlugins={[rehypeSanitize, rehypeSlug]}
+                components={components}
+            >
+                {content}
+            </Markdown>
+        </div>
+    );
+}
+
+export default MarkdownView;
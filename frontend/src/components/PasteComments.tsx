@@ -0,0 +1,115 @@
+import { useState, type FormEvent } from 'react';
+import './PasteComments.css';
+import type { PasteComment, CreateCommentParams } from '../api/types';
+import { formatLineRanges, type LineRange } from '../lib/lineRanges';
+
+function getCommentLines(comment: PasteComment): string | null {
+    if (comment.lineStart === null) return null;
+    return formatLineRanges([{ start: comment.lineStart, end: comment.lineEnd ?? comment.lineStart }]);
+}
+
+interface CommentThreadProps {
+    comments: PasteComment[];
+    currentRevision?: number; // comments on other revisions are labelled with theirs
+}
+
+/**
+ * A run of comments - inline under a code line, or in the list below the paste
+ */
+export function CommentThread({ comments, currentRevision }: CommentThreadProps) {
+    return (
+        <div className="comment-thread">
+            {comments.map((comment) => {
+                const lines = getCommentLines(comment);
+                const revision = comment.revision !== currentRevision ? `REV ${comment.revision}` : null;
+
+                return (
+                    <article key={comment.id} className="comment">
+                        <header className="comment-header">
+                            <span className="comment-author">{comment.author ?? 'Anonymous'}</span>
+                            {comment.byOwner && <span className="comment-badge">OWNER</span>}
+                            {(revision || lines) && (
+                                <span className="comment-anchor">
+                                    {[revision, lines].filter(Boolean).join(' · ')}
+                                </span>
+                            )}
+                            <time className="comment-date" dateTime={comment.createdAt}>
+                                {new Date(comment.createdAt).toLocaleString()}
+                            </time>
+                        </header>
+                        <p className="comment-body">{comment.body}</p>
+                    </article>
+                );
+            })}
+        </div>
+    );
+}
+
+interface CommentFormProps {
+    lines: LineRange | null; // null comments on the whole paste
+    onSubmit: (params: Pick<CreateCommentParams, 'body' | 'author'>) => Promise<string | null>;
+    onCancel?: () => void;
+}
+
+/**
+ * Write a comment - onSubmit resolves to an error message, or null once posted
+ */
+export function CommentForm({ lines, onSubmit, onCancel }: CommentFormProps) {
+    const [body, setBody] = useState('');
+    const [author, setAuthor] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const target = lines ? formatLineRanges([lines]) : null;
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!body.trim()) return;
+
+        setSubmitting(true);
+        setError(null);
+
+        const result = await onSubmit({ body, author: author.trim() || undefined });
+
+        if (result) {
+            setError(result);
+        } else {
+            setBody('');
+        }
+
+        setSubmitting(false);
+    };
+
+    return (
+        <form className="comment-form" onSubmit={handleSubmit}>
+            <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                className="form-textarea comment-form-body"
+                placeholder={target ? `Comment on ${target}` : 'Comment on this paste'}
+                maxLength={5000}
+                rows={3}
+                autoFocus={lines !== null}
+            />
+            <div className="comment-form-actions">
+                <input
+                    type="text"
+                    value={author}
+                    onChange={(e) => setAuthor(e.target.value)}
+                    className="form-input comment-form-author"
+                    placeholder="Name (optional)"
+                    maxLength={50}
+                />
+                {onCancel && (
+                    <button type="button" onClick={onCancel} className="btn btn-secondary btn-sm">
+                        CANCEL
+                    </button>
+                )}
+                <button type="submit" className="btn btn-sm" disabled={submitting || !body.trim()}>
+                    {submitting ? 'POSTING...' : 'COMMENT'}
+                </button>
+            </div>
+            {error && <p className="form-error">{error}</p>}
+        </form>
+    );
+}
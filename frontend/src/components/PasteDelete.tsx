@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import './PasteDelete.css';
+import { deletePaste } from '../api/config';
+import { removeOwnerToken } from '../lib/ownerTokens';
+
+/**
+ * Read the owner token from a fragment like "#token=abc"
+ */
+const getTokenFromHash = (hash: string): string | null => {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    return params.get('token');
+};
+
+export function PasteDelete() {
+    const { id } = useParams<{ id: string }>();
+    const [token] = useState(() => getTokenFromHash(window.location.hash));
+    const [isDeleting, setIsDeleting] = useState(false);
+    const [deleted, setDeleted] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleDelete = async () => {
+        if (!id || !token) return;
+
+        setIsDeleting(true);
+        setError(null);
+
+        const result = await deletePaste(id, token);
+
+        if (result.success) {
+            removeOwnerToken(id);
+            setDeleted(true);
+        } else {
+            setError(result.error);
+        }
+
+        setIsDeleting(false);
+    };
+
+    return (
+        <div className="paste-delete-container">
+            <div className="container">
+                <div className="paste-delete glass">
+                    {deleted ? (
+                        <>
+                            <h2>Paste Deleted</h2>
+                            <p>Paste {id} has been permanently removed.</p>
+                            <Link to="/" className="btn">
+                                CREATE NEW PASTE
+                            </Link>
+                        </>
+                    ) : !token ? (
+                        <>
+                            <h2>Invalid Delete Link</h2>
+                            <p>This link is missing its owner token.</p>
+                            <Link to="/" className="btn">
+                                BACK TO HOME
+                            </Link>
+                        </>
+                    ) : (
+                        <>
+                            <h2>Delete Paste?</h2>
+                            <p>
+                                Paste <span className="paste-delete-id">{id}</span> will be removed
+                                immediately. This cannot be undone.
+                            </p>
+                            {error && <p className="paste-delete-error">{error}</p>}
+                            <div className="paste-delete-actions">
+                                <Link to="/" className="btn btn-secondary">
+                                    CANCEL
+                                </Link>
+                                <button onClick={handleDelete} className="btn" disabled={isDeleting}>
+                                    {isDeleting ? 'DELETING...' : 'DELETE PASTE'}
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default PasteDelete;
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import './PasteEditor.css';
+import { updatePaste } from '../api/config';
+import type { UpdatePasteResponse } from '../api/types';
+import { encryptContentWithKey, getKeyFromHash } from '../lib/crypto';
+
+interface PasteEditorProps {
+    id: string;
+    content: string;
+    language: string | null;
+    revision: number;
+    encrypted: boolean;
+    ownerToken: string;
+    onSaved: (content: string, result: UpdatePasteResponse) => void;
+    onCancel: () => void;
+}
+
+export function PasteEditor({
+    id,
+    content,
+    language,
+    revision,
+    encrypted,
+    ownerToken,
+    onSaved,
+    onCancel,
+}: PasteEditorProps) {
+    const [draft, setDraft] = useState(content);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft.trim()) {
+            setError('Please enter some content');
+            return;
+        }
+
+        setIsSaving(true);
+        setError(null);
+
+        try {
+            // Encrypted pastes are re-encrypted with the key from the link
+            const key = encrypted ? getKeyFromHash(window.location.hash) : null;
+            if (encrypted && !key) {
+                setError('The decryption key is missing from the link');
+                return;
+            }
+
+            const result = await updatePaste(id, ownerToken, {
+                content: key ? await encryptContentWithKey(draft.trim(), key) : draft.trim(),
+                language: language ?? undefined,
+                baseRevision: revision,
+            });
+
+            if (result.success) {
+                onSaved(draft.trim(), result.data);
+            } else {
+                setError(result.error);
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSave} className="paste-editor glass">
+            <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="form-textarea paste-editor-textarea"
+                disabled={isSaving}
+                autoFocus
+            />
+            {error && <div className="paste-editor-error">{error}</div>}
+            <div className="paste-editor-actions">
+                <span className="text-muted">Saving creates revision {revision + 1}</span>
+                <div className="paste-editor-buttons">
+                    <button type="button" onClick={onCancel} className="btn btn-secondary btn-sm" disabled={isSaving}>
+                        CANCEL
+                    </button>
+                    <button type="submit" className="btn btn-sm" disabled={isSaving || draft.trim() === content}>
+                        {isSaving ? 'SAVING...' : 'SAVE REVISION'}
+                    </button>
+                </div>
+            </div>
+        </form>
+    );
+}
+
+export default PasteEditor;
@@ -1,7 +1,16 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import './PasteForm.css';
-import { createPaste } from '../api/config';
-import type { PasteResponse } from '../api/types';
+import { createPaste, forkPaste, detectLanguage, createLiveSession } from '../api/config';
+import type { PasteResponse, PasteVisibility, LanguageDetection } from '../api/types';
+import { encryptContent, buildKeyHash } from '../lib/crypto';
+import { saveOwnerToken } from '../lib/ownerTokens';
+import { useLanguages } from '../lib/languages';
+
+/**
+ * Pause in typing before asking the server to detect the language
+ */
+const DETECT_DELAY_MS = 600;
 
 /**
  * Expiration presets for time-based expiration
@@ -27,50 +36,84 @@ const MAX_VIEWS_OPTIONS = [
 ];
 
 /**
- * Language options for syntax highlighting
+ * Who can find and read the paste
  */
-const LANGUAGE_OPTIONS = [
-    { label: 'Plain Text', value: '' },
-    { label: 'JavaScript', value: 'javascript' },
-    { label: 'TypeScript', value: 'typescript' },
-    { label: 'Python', value: 'python' },
-    { label: 'Java', value: 'java' },
-    { label: 'C++', value: 'cpp' },
-    { label: 'C#', value: 'csharp' },
-    { label: 'Go', value: 'go' },
-    { label: 'Rust', value: 'rust' },
-    { label: 'Ruby', value: 'ruby' },
-    { label: 'PHP', value: 'php' },
-    { label: 'HTML', value: 'html' },
-    { label: 'CSS', value: 'css' },
-    { label: 'JSON', value: 'json' },
-    { label: 'SQL', value: 'sql' },
-    { label: 'Bash', value: 'bash' },
-    { label: 'Markdown', value: 'markdown' },
+const VISIBILITY_OPTIONS: { label: string; value: PasteVisibility }[] = [
+    { label: 'Unlisted - anyone with the link', value: 'unlisted' },
+    { label: 'Public - listed in search', value: 'public' },
+    { label: 'Private - only you', value: 'private' },
 ];
 
+/**
+ * Paste being forked - content as shown in the viewer, already decrypted
+ */
+export interface ForkSource {
+    id: string;
+    content: string;
+    language: string | null;
+    encrypted: boolean;
+    password?: string; // the source's password, needed to fork a protected paste
+}
+
 interface PasteFormProps {
+    fork?: ForkSource;
     onSuccess?: (paste: PasteResponse) => void;
 }
 
-export function PasteForm({ onSuccess }: PasteFormProps) {
+export function PasteForm({ fork, onSuccess }: PasteFormProps) {
     // Form state
-    const [content, setContent] = useState('');
-    const [language, setLanguage] = useState('');
+    const [forkSource, setForkSource] = useState<ForkSource | null>(fork ?? null);
+    const [content, setContent] = useState(fork?.content ?? '');
+    const [language, setLanguage] = useState(fork?.language ?? '');
     const [expiresIn, setExpiresIn] = useState('');
     const [maxViews, setMaxViews] = useState('');
+    const [password, setPassword] = useState('');
+    const [encrypt, setEncrypt] = useState(fork?.encrypted ?? false);
+    const [visibility, setVisibility] = useState<PasteVisibility>('unlisted');
 
     // UI state
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [successData, setSuccessData] = useState<PasteResponse | null>(null);
+    const [keyHash, setKeyHash] = useState('');
     const [copied, setCopied] = useState(false);
+    const [deleteCopied, setDeleteCopied] = useState(false);
+    const [detection, setDetection] = useState<LanguageDetection | null>(null);
+
+    const registry = useLanguages();
+    const navigate = useNavigate();
+    const languageLabel = (id: string) => registry.find(id)?.name ?? id;
 
     // Character count
     const charCount = content.length;
     const maxChars = 500000;
     const isOverLimit = charCount > maxChars;
 
+    // Plaintext of an encrypted paste must never reach the server
+    const shouldDetect = !language && !encrypt && !isOverLimit && content.trim().length > 0;
+
+    /**
+     * Live "detected" hint while the language is left on auto-detect
+     */
+    useEffect(() => {
+        if (!shouldDetect) return;
+
+        let ignore = false;
+
+        const timer = setTimeout(async () => {
+            const result = await detectLanguage(content);
+
+            if (!ignore && result.success) {
+                setDetection(result.data);
+            }
+        }, DETECT_DELAY_MS);
+
+        return () => {
+            ignore = true;
+            clearTimeout(timer);
+        };
+    }, [content, shouldDetect]);
+
     /**
      * Handle form submission
      */
@@ -93,14 +136,29 @@ export function PasteForm({ onSuccess }: PasteFormProps) {
         setIsSubmitting(true);
 
         try {
-            const result = await createPaste({
-                content: content.trim(),
+            // Encrypt in the browser - the server only ever sees ciphertext
+            const payload = encrypt ? await encryptContent(content.trim()) : null;
+
+            const params = {
+                content: payload ? payload.ciphertext : content.trim(),
                 language: language || undefined,
                 expiresIn: expiresIn ? parseInt(expiresIn) : undefined,
                 maxViews: maxViews ? parseInt(maxViews) : undefined,
-            });
+                password: password || undefined,
+                encrypted: encrypt || undefined,
+                visibility,
+            };
+
+            // Content is always sent, so forking doesn't cost the source another view
+            const result = forkSource
+                ? await forkPaste(forkSource.id, params, forkSource.password)
+                : await createPaste(params);
 
             if (result.success) {
+                // The key travels only in the URL fragment, which browsers never send
+                setKeyHash(payload ? buildKeyHash(payload.key) : '');
+                // Lets this browser edit the paste later
+                saveOwnerToken(result.data.id, result.data.ownerToken);
                 setSuccessData(result.data);
                 onSuccess?.(result.data);
             } else {
@@ -113,37 +171,63 @@ export function PasteForm({ onSuccess }: PasteFormProps) {
         }
     };
 
+    // Carry what's typed so far into a session others can edit too
+    const handleStartLive = async () => {
+        setError(null);
+        setIsSubmitting(true);
+
+        const result = await createLiveSession({ content, language: language || undefined });
+
+        if (result.success) {
+            navigate(`/live/${result.data.id}`);
+        } else {
+            setError(result.error);
+            setIsSubmitting(false);
+        }
+    };
+
+    // Encrypted pastes are only readable through the frontend, which holds the key
+    const shareUrl = successData?.encrypted
+        ? `${window.location.origin}/paste/${successData.id}${keyHash}`
+        : successData?.url ?? '';
+
+    // Keep this link private - anyone holding it can delete the paste
+    const deleteUrl = successData
+        ? `${window.location.origin}/delete/${successData.id}#token=${successData.ownerToken}`
+        : '';
+
     /**
-     * Copy URL to clipboard
+     * Copy text to clipboard and flash the given indicator
      */
-    const copyToClipboard = async () => {
-        if (!successData) return;
-
+    const copyToClipboard = async (text: string, setFlag: (value: boolean) => void) => {
         try {
-            await navigator.clipboard.writeText(successData.url);
-            setCopied(true);
-            setTimeout(() => setCopied(false), 2000);
+            await navigator.clipboard.writeText(text);
         } catch {
             // Fallback for older browsers
             const textArea = document.createElement('textarea');
-            textArea.value = successData.url;
+            textArea.value = text;
             document.body.appendChild(textArea);
             textArea.select();
             document.execCommand('copy');
             document.body.removeChild(textArea);
-            setCopied(true);
-            setTimeout(() => setCopied(false), 2000);
         }
+        setFlag(true);
+        setTimeout(() => setFlag(false), 2000);
     };
 
     /**
      * Reset form for new paste
      */
     const handleNewPaste = () => {
+        setForkSource(null);
         setContent('');
         setLanguage('');
         setExpiresIn('');
         setMaxViews('');
+        setPassword('');
+        setEncrypt(false);
+        setVisibility('unlisted');
+        setKeyHash('');
         setSuccessData(null);
         setError(null);
     };
@@ -154,24 +238,45 @@ export function PasteForm({ onSuccess }: PasteFormProps) {
             <div className="paste-form-card glass animate-slide-up">
                 <div className="success-container">
                     <div className="success-icon">✓</div>
-                    <h2>Paste Created!</h2>
+                    <h2>{successData.forkedFrom ? 'Paste Forked!' : 'Paste Created!'}</h2>
                     <p className="text-secondary">Your paste is ready to share</p>
 
                     <div className="success-url-container">
                         <input
                             type="text"
-                            value={successData.url}
+                            value={shareUrl}
                             readOnly
                             className="success-url-input"
                         />
                         <button
-                            onClick={copyToClipboard}
+                            onClick={() => copyToClipboard(shareUrl, setCopied)}
                             className="btn copy-btn"
                         >
                             {copied ? '✓ Copied!' : 'Copy'}
                         </button>
                     </div>
 
+                    <div className="delete-link">
+                        <label htmlFor="delete-url" className="form-label">
+                            Delete link - keep it private, it is shown only once
+                        </label>
+                        <div className="success-url-container">
+                            <input
+                                id="delete-url"
+                                type="text"
+                                value={deleteUrl}
+                                readOnly
+                                className="success-url-input"
+                            />
+                            <button
+                                onClick={() => copyToClipboard(deleteUrl, setDeleteCopied)}
+                                className="btn btn-secondary copy-btn"
+                            >
+                                {deleteCopied ? '✓ Copied!' : 'Copy'}
+                            </button>
+                        </div>
+                    </div>
+
                     <div className="success-meta">
                         {successData.expiresAt && (
                             <span className="badge badge-warning">
@@ -183,11 +288,36 @@ export function PasteForm({ onSuccess }: PasteFormProps) {
                                 Max views: {successData.maxViews}
                             </span>
                         )}
+                        {successData.encrypted && (
+                            <span className="badge badge-success">
+                                End-to-end encrypted
+                            </span>
+                        )}
+                        {successData.passwordProtected && (
+                            <span className="badge">
+                                Password protected
+                            </span>
+                        )}
+                        {successData.visibility !== 'unlisted' && (
+                            <span className="badge">
+                                {successData.visibility === 'public' ? 'Public' : 'Private'}
+                            </span>
+                        )}
+                        {successData.forkedFrom && (
+                            <span className="badge">
+                                Forked from {successData.forkedFrom}
+                            </span>
+                        )}
+                        {successData.detectedLanguage?.confident && (
+                            <span className="badge">
+                                Detected: {languageLabel(successData.detectedLanguage.language)}
+                            </span>
+                        )}
                     </div>
 
                     <div className="success-actions">
                         <a
-                            href={`/paste/${successData.id}`}
+                            href={`/paste/${successData.id}${keyHash}`}
                             className="btn btn-secondary"
                         >
                             VIEW PASTE
@@ -204,8 +334,18 @@ export function PasteForm({ onSuccess }: PasteFormProps) {
     return (
         <form onSubmit={handleSubmit} className="paste-form-card glass animate-fade-in">
             <div className="paste-form-header">
-                <h2>Create New Paste</h2>
-                <p className="text-secondary">Share code and text instantly with optional expiration</p>
+                <h2>{forkSource ? 'Fork Paste' : 'Create New Paste'}</h2>
+                {forkSource ? (
+                    <p className="text-secondary">
+                        Forking{' '}
+                        <Link to={`/paste/${forkSource.id}`} className="fork-source-link">
+                            {forkSource.id}
+                        </Link>
+                        {' '}- edit it and save as a new paste that links back to the original
+                    </p>
+                ) : (
+                    <p className="text-secondary">Share code and text instantly with optional expiration</p>
+                )}
             </div>
 
             {/* Content Textarea */}
@@ -234,6 +374,11 @@ export function PasteForm({ onSuccess }: PasteFormProps) {
                 <div className="form-group">
                     <label htmlFor="language" className="form-label">
                         Syntax Highlighting
+                        {shouldDetect && detection?.confident && (
+                            <span className="detect-hint">
+                                detected: {languageLabel(detection.language)}
+                            </span>
+                        )}
                     </label>
                     <select
                         id="language"
@@ -242,9 +387,11 @@ export function PasteForm({ onSuccess }: PasteFormProps) {
                         className="form-select"
                         disabled={isSubmitting}
                     >
-                        {LANGUAGE_OPTIONS.map((opt) => (
-                            <option key={opt.value} value={opt.value}>
-                                {opt.label}
+                        {/* Leaving it on auto-detect lets the server pick one */}
+                        <option value="">Auto-detect</option>
+                        {registry.languages.map((lang) => (
+                            <option key={lang.id} value={lang.id}>
+                                {lang.name}
                             </option>
                         ))}
                     </select>
@@ -289,8 +436,59 @@ export function PasteForm({ onSuccess }: PasteFormProps) {
                         ))}
                     </select>
                 </div>
+
+                {/* Visibility Select */}
+                <div className="form-group">
+                    <label htmlFor="visibility" className="form-label">
+                        Visibility
+                    </label>
+                    <select
+                        id="visibility"
+                        value={visibility}
+                        onChange={(e) => setVisibility(e.target.value as PasteVisibility)}
+                        className="form-select"
+                        disabled={isSubmitting}
+                    >
+                        {VISIBILITY_OPTIONS.map((opt) => (
+                            <option key={opt.value} value={opt.value}>
+                                {opt.label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
             </div>
 
+            {/* Password Input */}
+            <div className="form-group">
+                <label htmlFor="password" className="form-label">
+                    Password (optional)
+                </label>
+                <input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Leave empty for no password"
+                    className="form-input"
+                    autoComplete="new-password"
+                    minLength={4}
+                    disabled={isSubmitting}
+                />
+            </div>
+
+            {/* Encryption Toggle */}
+            <label className="encrypt-toggle">
+                <input
+                    type="checkbox"
+                    checked={encrypt}
+                    onChange={(e) => setEncrypt(e.target.checked)}
+                    disabled={isSubmitting}
+                />
+                <span>
+                    Encrypt in browser - the key stays in the link and never reaches the server
+                </span>
+            </label>
+
             {/* Error Display */}
             {error && (
                 <div className="error-container animate-fade-in">
@@ -312,10 +510,22 @@ export function PasteForm({ onSuccess }: PasteFormProps) {
                     </>
                 ) : (
                     <>
-                        Create Paste
+                        {forkSource ? 'Create Fork' : 'Create Paste'}
                     </>
                 )}
             </button>
+
+            {/* Live sessions are plain text on the server, so not offered for encrypted pastes */}
+            {!forkSource && (
+                <button
+                    type="button"
+                    onClick={handleStartLive}
+                    className="btn btn-secondary live-start-btn"
+                    disabled={isSubmitting || encrypt || isOverLimit}
+                >
+                    Edit Live Together
+                </button>
+            )}
         </form>
     );
 }
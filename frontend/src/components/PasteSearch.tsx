@@ -0,0 +1,178 @@
+import { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import './PasteSearch.css';
+import { searchPastes } from '../api/config';
+import type { SearchResponse } from '../api/types';
+import { useLanguages } from '../lib/languages';
+
+const PAGE_SIZE = 20;
+
+export function PasteSearch() {
+    // The query lives in the URL so searches can be shared and revisited
+    const [searchParams, setSearchParams] = useSearchParams();
+    const q = searchParams.get('q') ?? '';
+    const language = searchParams.get('language') ?? '';
+    const page = Math.max(1, Number(searchParams.get('page')) || 1);
+
+    const [query, setQuery] = useState(q);
+    const [results, setResults] = useState<SearchResponse | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const registry = useLanguages();
+
+    useEffect(() => {
+        if (!q) return;
+
+        async function fetchResults() {
+            setLoading(true);
+            setError(null);
+
+            const result = await searchPastes({ q, language: language || undefined, page, limit: PAGE_SIZE });
+
+            if (result.success) {
+                setResults(result.data);
+            } else {
+                setError(result.error);
+                setResults(null);
+            }
+
+            setLoading(false);
+        }
+
+        fetchResults();
+    }, [q, language, page]);
+
+    const updateParams = (next: { q?: string; language?: string; page?: number }) => {
+        const params = new URLSearchParams();
+        const nextQ = next.q ?? q;
+        const nextLanguage = next.language ?? language;
+        const nextPage = next.page ?? 1;
+
+        if (nextQ) params.set('q', nextQ);
+        if (nextLanguage) params.set('language', nextLanguage);
+        if (nextPage > 1) params.set('page', String(nextPage));
+
+        setSearchParams(params);
+    };
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        updateParams({ q: query.trim() });
+    };
+
+    const formatDate = (dateString: string) => {
+        return new Date(dateString).toLocaleString();
+    };
+
+    const pageCount = results ? Math.max(1, Math.ceil(results.total / results.limit)) : 1;
+
+    return (
+        <div className="search-container">
+            <div className="container">
+                {/* Header */}
+                <div className="search-header">
+                    <Link to="/" className="back-link">
+                        PASTEBIN
+                    </Link>
+                    <span className="header-divider">/</span>
+                    <span className="search-title">SEARCH</span>
+                </div>
+
+                <div className="search-panel glass">
+                    <form onSubmit={handleSearch} className="search-form">
+                        <input
+                            type="search"
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder='Search public pastes, e.g. docker "compose file" -swarm'
+                            className="form-input"
+                            maxLength={200}
+                            autoFocus
+                        />
+                        <select
+                            value={language}
+                            onChange={(e) => updateParams({ language: e.target.value })}
+                            className="form-select"
+                            aria-label="Language"
+                        >
+                            <option value="">All languages</option>
+                            {registry.languages.map((lang) => (
+                                <option key={lang.id} value={lang.id}>
+                                    {lang.name}
+                                </option>
+                            ))}
+                        </select>
+                        <button type="submit" className="btn btn-sm" disabled={!query.trim()}>
+                            SEARCH
+                        </button>
+                    </form>
+
+                    <p className="search-hint">
+                        Only pastes shared as public are searchable. Unlisted, private, encrypted,
+                        password-protected and view-limited pastes never appear here.
+                    </p>
+
+                    {error && <div className="search-error">{error}</div>}
+
+                    {!q ? null : loading && !results ? (
+                        <div className="search-message">Searching...</div>
+                    ) : results && results.items.length === 0 ? (
+                        <div className="search-message">No public pastes match "{q}".</div>
+                    ) : results && (
+                        <>
+                            <div className="search-count">
+                                {results.total} {results.total === 1 ? 'result' : 'results'}
+                            </div>
+                            <ul className="search-results">
+                                {results.items.map((item) => (
+                                    <li key={item.id} className="search-result">
+                                        <div className="search-result-header">
+                                            <Link to={`/paste/${item.id}`} className="search-result-id">
+                                                {item.id}
+                                            </Link>
+                                            <div className="search-result-meta">
+                                                {item.language && (
+                                                    <span className="badge">
+                                                        {registry.find(item.language)?.name ?? item.language}
+                                                    </span>
+                                                )}
+                                                <span>{item.viewCount} views</span>
+                                                <span>{formatDate(item.createdAt)}</span>
+                                            </div>
+                                        </div>
+                                        <pre className="search-result-preview">{item.preview}</pre>
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+
+                    {/* Pagination */}
+                    {q && results && pageCount > 1 && (
+                        <div className="search-pagination">
+                            <button
+                                onClick={() => updateParams({ page: page - 1 })}
+                                className="btn btn-secondary btn-sm"
+                                disabled={page <= 1 || loading}
+                            >
+                                PREVIOUS
+                            </button>
+                            <span>
+                                Page {page} of {pageCount}
+                            </span>
+                            <button
+                                onClick={() => updateParams({ page: page + 1 })}
+                                className="btn btn-secondary btn-sm"
+                                disabled={page >= pageCount || loading}
+                            >
+                                NEXT
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default PasteSearch;
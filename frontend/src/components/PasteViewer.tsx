@@ -1,17 +1,101 @@
-import { useState, useEffect } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useState, useEffect, useRef, Fragment, type MouseEvent } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
 import { Highlight, themes } from 'prism-react-renderer';
 import './PasteViewer.css';
-import { getPaste } from '../api/config';
-import type { GetPasteResponse } from '../api/types';
+import {
+    getPaste,
+    getPasteMeta,
+    getRevisions,
+    getRevision,
+    getRenderUrl,
+    getComments,
+    createComment,
+    createLiveSession,
+} from '../api/config';
+import type {
+    GetPasteResponse,
+    PasteMetaResponse,
+    GetRevisionResponse,
+    RevisionSummary,
+    UpdatePasteResponse,
+    PasteComment,
+    CreateCommentParams,
+} from '../api/types';
+import { decryptContent, getKeyFromHash } from '../lib/crypto';
+import { getOwnerToken } from '../lib/ownerTokens';
+import { useLanguages } from '../lib/languages';
+import { parseLineRanges, formatLineRanges, buildLineHash, isLineSelected, type LineRange } from '../lib/lineRanges';
+import { usePasteTail } from '../lib/pasteTail';
+import { PasteEditor } from './PasteEditor';
+import { MarkdownView } from './MarkdownView';
+import { CommentThread, CommentForm } from './PasteComments';
+import type { ForkSource } from './PasteForm';
+
+/**
+ * Decrypt an end-to-end encrypted paste with the key from the URL fragment
+ */
+async function revealContent<T extends { content: string; encrypted: boolean }>(paste: T): Promise<T> {
+    if (!paste.encrypted) return paste;
+
+    const key = getKeyFromHash(window.location.hash);
+    if (!key) {
+        throw new Error('This paste is encrypted and the link is missing its decryption key');
+    }
+
+    try {
+        return { ...paste, content: await decryptContent(paste.content, key) };
+    } catch {
+        throw new Error('Unable to decrypt this paste - the key in the link is invalid');
+    }
+}
 
 export function PasteViewer() {
     const { id } = useParams<{ id: string }>();
+    const navigate = useNavigate();
+    const registry = useLanguages();
     const [paste, setPaste] = useState<GetPasteResponse | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [copied, setCopied] = useState(false);
 
+    // View-limited pastes wait for the reader to confirm
+    const [meta, setMeta] = useState<PasteMetaResponse | null>(null);
+    const [awaitingReveal, setAwaitingReveal] = useState(false);
+    const [revealing, setRevealing] = useState(false);
+
+    // Password unlock state
+    const [locked, setLocked] = useState(false);
+    const [password, setPassword] = useState('');
+    const [unlocking, setUnlocking] = useState(false);
+    const [unlockError, setUnlockError] = useState<string | null>(null);
+
+    // Revision and editing state
+    const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+    const [viewedRevision, setViewedRevision] = useState<GetRevisionResponse | null>(null);
+    const [revisionError, setRevisionError] = useState<string | null>(null);
+    const [editing, setEditing] = useState(false);
+
+    // Selected lines live in the URL fragment so they can be shared
+    const [lineRanges, setLineRanges] = useState<LineRange[]>(() => parseLineRanges(window.location.hash));
+    const [selectionAnchor, setSelectionAnchor] = useState<number | null>(null);
+    const scrolledToLines = useRef(false);
+
+    // Comments - the inline form opens on the last selected range
+    const [comments, setComments] = useState<PasteComment[]>([]);
+    const [commentingOnLines, setCommentingOnLines] = useState(false);
+
+    // Markdown pastes open rendered, unless the link points at lines
+    const [markdownView, setMarkdownView] = useState<'rendered' | 'source'>(() =>
+        parseLineRanges(window.location.hash).length > 0 ? 'source' : 'rendered'
+    );
+    const ownerToken = id ? getOwnerToken(id) : null;
+    const currentRevision = paste?.revision;
+
+    // Live tails grow while open - follow mode keeps the newest line in view
+    const tail = usePasteTail(paste?.appendable && !paste.closedAt ? paste.id : null, password || undefined);
+    const streaming = !!paste?.appendable && !paste.closedAt && tail.status !== 'closed' && tail.status !== 'failed';
+    const [following, setFollowing] = useState(() => parseLineRanges(window.location.hash).length === 0);
+
     useEffect(() => {
         if (!id) return;
 
@@ -19,10 +103,40 @@ export function PasteViewer() {
             setLoading(true);
             setError(null);
 
+            // Metadata doesn't count a view, so link unfurlers and scanners can't burn the paste
+            const metaResult = await getPasteMeta(id!);
+
+            if (!metaResult.success) {
+                setError(metaResult.error);
+                setLoading(false);
+                return;
+            }
+
+            setMeta(metaResult.data);
+
+            // Both gates need a person - the password prompt doubles as the reveal step
+            if (metaResult.data.passwordProtected) {
+                setLocked(true);
+                setLoading(false);
+                return;
+            }
+
+            if (metaResult.data.maxViews !== null) {
+                setAwaitingReveal(true);
+                setLoading(false);
+                return;
+            }
+
             const result = await getPaste(id!);
 
             if (result.success) {
-                setPaste(result.data);
+                try {
+                    setPaste(await revealContent(result.data));
+                } catch (err) {
+                    setError((err as Error).message);
+                }
+            } else if (result.code === 'PASSWORD_REQUIRED') {
+                setLocked(true);
             } else {
                 setError(result.error);
             }
@@ -33,16 +147,254 @@ export function PasteViewer() {
         fetchPaste();
     }, [id]);
 
+    // Fetch a view-limited paste once the reader confirms - this is what counts the view
+    const handleReveal = async () => {
+        if (!id) return;
+
+        setRevealing(true);
+
+        const result = await getPaste(id);
+
+        if (result.success) {
+            try {
+                setPaste(await revealContent(result.data));
+            } catch (err) {
+                setError((err as Error).message);
+            }
+        } else {
+            setError(result.error);
+        }
+
+        setAwaitingReveal(false);
+        setRevealing(false);
+    };
+
+    // Submit the password - failed attempts don't consume views
+    const handleUnlock = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!id || !password) return;
+
+        setUnlocking(true);
+        setUnlockError(null);
+
+        const result = await getPaste(id, password);
+
+        if (result.success) {
+            try {
+                setPaste(await revealContent(result.data));
+            } catch (err) {
+                setError((err as Error).message);
+            }
+            setLocked(false);
+        } else if (result.code === 'INVALID_PASSWORD') {
+            setUnlockError(result.error);
+        } else {
+            setLocked(false);
+            setError(result.error);
+        }
+
+        setUnlocking(false);
+    };
+
+    // Follow fragments edited by hand or opened from another permalink
+    useEffect(() => {
+        const handleHashChange = () => {
+            scrolledToLines.current = false;
+            setLineRanges(parseLineRanges(window.location.hash));
+            setSelectionAnchor(null);
+        };
+
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
+    }, []);
+
+    // Bring the first selected line into view once the code is on screen
+    useEffect(() => {
+        if (scrolledToLines.current || lineRanges.length === 0) return;
+
+        const target = document.getElementById(`L${lineRanges[0].start}`);
+        if (!target) return;
+
+        scrolledToLines.current = true;
+        target.scrollIntoView({ block: 'center' });
+    }, [paste, lineRanges, markdownView, editing, viewedRevision]);
+
+    // Click selects a line, shift-click extends to a range, ctrl/cmd-click adds another
+    const handleLineClick = (line: number, event: MouseEvent) => {
+        let next: LineRange[];
+
+        if (event.shiftKey && selectionAnchor !== null) {
+            const range = { start: Math.min(selectionAnchor, line), end: Math.max(selectionAnchor, line) };
+            next = [...lineRanges.slice(0, -1), range];
+        } else if (event.metaKey || event.ctrlKey) {
+            next = [...lineRanges, { start: line, end: line }];
+            setSelectionAnchor(line);
+        } else {
+            const alreadySelected = lineRanges.length === 1 && lineRanges[0].start === line && lineRanges[0].end === line;
+            next = alreadySelected ? [] : [{ start: line, end: line }];
+            setSelectionAnchor(alreadySelected ? null : line);
+        }
+
+        setLineRanges(next);
+
+        // replaceState doesn't fire hashchange or jump the page
+        const { pathname, search, hash } = window.location;
+        window.history.replaceState(window.history.state, '', `${pathname}${search}${buildLineHash(hash, next)}`);
+    };
+
+    // Load comments once the paste is readable - encrypted pastes can't have any
+    const commentable = paste !== null && !paste.encrypted;
+
+    useEffect(() => {
+        if (!id || !commentable) return;
+
+        getComments(id, password || undefined).then((result) => {
+            if (result.success) {
+                setComments(result.data.comments);
+            }
+        });
+    }, [id, commentable, password]);
+
+    const submitComment = (lines: LineRange | null) =>
+        async (params: Pick<CreateCommentParams, 'body' | 'author'>): Promise<string | null> => {
+            if (!id || !paste) return null;
+
+            const result = await createComment(
+                id,
+                {
+                    ...params,
+                    revision: viewedRevision?.revision ?? paste.revision,
+                    lineStart: lines?.start,
+                    lineEnd: lines?.end,
+                },
+                password || undefined
+            );
+
+            if (!result.success) {
+                return result.error;
+            }
+
+            setComments((current) => [...current, result.data]);
+            if (lines) setCommentingOnLines(false);
+            return null;
+        };
+
+    // Load the revision list once the paste has history
+    useEffect(() => {
+        if (!id || !currentRevision || currentRevision <= 1) return;
+
+        getRevisions(id, password || undefined).then((result) => {
+            if (result.success) {
+                setRevisions(result.data.revisions);
+            }
+        });
+    }, [id, currentRevision, password]);
+
+    // Switch to an older revision - reading one counts as a view
+    const handleRevisionChange = async (revision: number) => {
+        if (!id || !paste) return;
+
+        setRevisionError(null);
+
+        if (revision === paste.revision) {
+            setViewedRevision(null);
+            return;
+        }
+
+        const result = await getRevision(id, revision, password || undefined);
+
+        if (result.success) {
+            try {
+                setViewedRevision(await revealContent(result.data));
+            } catch (err) {
+                setRevisionError((err as Error).message);
+            }
+        } else {
+            setRevisionError(result.error);
+        }
+    };
+
+    // Bring each append into view while following
+    useEffect(() => {
+        if (!following || !streaming || viewedRevision || tail.content === null) return;
+
+        const lines = document.querySelectorAll('.code-line');
+        lines[lines.length - 1]?.scrollIntoView({ block: 'end' });
+    }, [following, streaming, viewedRevision, tail.content]);
+
+    // Scrolling up to read earlier output stops following
+    useEffect(() => {
+        if (!following || !streaming) return;
+
+        const handleScroll = () => {
+            const lines = document.querySelectorAll('.code-line');
+            const last = lines[lines.length - 1];
+
+            if (last && last.getBoundingClientRect().bottom > window.innerHeight + 100) {
+                setFollowing(false);
+            }
+        };
+
+        window.addEventListener('scroll', handleScroll, { passive: true });
+        return () => window.removeEventListener('scroll', handleScroll);
+    }, [following, streaming]);
+
+    const handleSaved = (content: string, result: UpdatePasteResponse) => {
+        if (!paste) return;
+
+        setPaste({
+            ...paste,
+            content,
+            language: result.language,
+            revision: result.revision,
+            editedAt: result.editedAt,
+        });
+        setViewedRevision(null);
+        setEditing(false);
+    };
+
+    // Content of the revision being shown
+    const getDisplayedContent = () => viewedRevision?.content ?? tail.content ?? paste?.content ?? '';
+
+    // Open the create form pre-filled with what's on screen
+    const handleFork = () => {
+        if (!paste) return;
+
+        const fork: ForkSource = {
+            id: paste.id,
+            content: getDisplayedContent(),
+            language: viewedRevision ? viewedRevision.language : paste.language,
+            encrypted: paste.encrypted,
+            password: password || undefined,
+        };
+
+        navigate('/', { state: { fork } });
+    };
+
+    // Start a live session from what's on screen - the paste itself is untouched
+    const handleLiveEdit = async () => {
+        if (!paste) return;
+
+        const result = await createLiveSession({
+            content: getDisplayedContent(),
+            language: (viewedRevision ? viewedRevision.language : paste.language) ?? undefined,
+        });
+
+        if (result.success) {
+            navigate(`/live/${result.data.id}`);
+        }
+    };
+
     const copyToClipboard = async () => {
         if (!paste) return;
 
         try {
-            await navigator.clipboard.writeText(paste.content);
+            await navigator.clipboard.writeText(getDisplayedContent());
             setCopied(true);
             setTimeout(() => setCopied(false), 2000);
         } catch {
             const textArea = document.createElement('textarea');
-            textArea.value = paste.content;
+            textArea.value = getDisplayedContent();
             document.body.appendChild(textArea);
             textArea.select();
             document.execCommand('copy');
@@ -62,40 +414,17 @@ export function PasteViewer() {
         }
     };
 
-    // Get file extension from language
-    const getExtension = (lang: string): string => {
-        const extMap: Record<string, string> = {
-            javascript: 'js',
-            typescript: 'ts',
-            python: 'py',
-            java: 'java',
-            cpp: 'cpp',
-            c: 'c',
-            csharp: 'cs',
-            go: 'go',
-            rust: 'rs',
-            ruby: 'rb',
-            php: 'php',
-            html: 'html',
-            css: 'css',
-            json: 'json',
-            sql: 'sql',
-            bash: 'sh',
-            markdown: 'md',
-            text: 'txt',
-        };
-        return extMap[lang] || 'txt';
-    };
-
     // Download code as file
     const downloadCode = () => {
         if (!paste) return;
 
-        const lang = paste.language || 'text';
-        const ext = getExtension(lang);
-        const filename = `${paste.id}.${ext}`;
+        const info = registry.find(viewedRevision ? viewedRevision.language : paste.language);
+        const ext = info?.extensions[0] ?? 'txt';
+        const filename = viewedRevision
+            ? `${paste.id}-r${viewedRevision.revision}.${ext}`
+            : `${paste.id}.${ext}`;
 
-        const blob = new Blob([paste.content], { type: 'text/plain' });
+        const blob = new Blob([getDisplayedContent()], { type: info?.mimeType ?? 'text/plain' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
@@ -159,9 +488,86 @@ export function PasteViewer() {
         );
     }
 
+    // Password Prompt
+    if (locked) {
+        return (
+            <div className="paste-viewer-container">
+                <div className="container">
+                    <div className="paste-viewer glass">
+                        <form onSubmit={handleUnlock} className="unlock-state">
+                            <h2>Password Protected</h2>
+                            <p>
+                                Enter the password to view this paste.
+                                {meta?.remainingViews === 1 && ' It will be destroyed after viewing.'}
+                            </p>
+                            <div className="unlock-row">
+                                <input
+                                    type="password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    placeholder="Password"
+                                    className="form-input"
+                                    autoComplete="current-password"
+                                    autoFocus
+                                    disabled={unlocking}
+                                />
+                                <button type="submit" className="btn" disabled={unlocking || !password}>
+                                    {unlocking ? 'UNLOCKING...' : 'UNLOCK'}
+                                </button>
+                            </div>
+                            {unlockError && <p className="unlock-error">{unlockError}</p>}
+                        </form>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    // Reveal Prompt
+    if (awaitingReveal && meta) {
+        const burnsOnView = meta.remainingViews === 1;
+
+        return (
+            <div className="paste-viewer-container">
+                <div className="container">
+                    <div className="paste-viewer glass">
+                        <div className="reveal-state">
+                            <h2>{burnsOnView ? 'Burn After Reading' : 'View-Limited Paste'}</h2>
+                            <p>
+                                {burnsOnView
+                                    ? 'This paste will be destroyed after viewing. Reveal it now?'
+                                    : `Viewing this paste uses one of its ${meta.remainingViews} remaining views. Reveal it now?`}
+                            </p>
+                            <button onClick={handleReveal} className="btn" disabled={revealing}>
+                                {revealing ? 'REVEALING...' : 'REVEAL PASTE'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
     if (!paste) return null;
 
-    const language = paste.language || 'text';
+    const language = (viewedRevision ? viewedRevision.language : paste.language) || 'text';
+    const languageInfo = registry.find(language);
+    const code = getDisplayedContent();
+    const showRendered = languageInfo?.id === 'markdown' && markdownView === 'rendered';
+
+    // Line comments on the revision on screen sit under their last line; the rest are listed below
+    const displayedRevision = viewedRevision?.revision ?? paste.revision;
+    const selectedRange = lineRanges.length > 0 ? lineRanges[lineRanges.length - 1] : null;
+    const inlineComments = new Map<number, PasteComment[]>();
+    const listedComments: PasteComment[] = [];
+
+    for (const comment of comments) {
+        if (!showRendered && comment.lineEnd !== null && comment.revision === displayedRevision) {
+            inlineComments.set(comment.lineEnd, [...(inlineComments.get(comment.lineEnd) ?? []), comment]);
+        } else {
+            listedComments.push(comment);
+        }
+    }
 
     return (
         <div className="paste-viewer-container">
@@ -176,6 +582,49 @@ export function PasteViewer() {
                         <span className="paste-id">{paste.id}</span>
                     </div>
                     <div className="paste-header-right">
+                        {languageInfo?.id === 'markdown' && !editing && (
+                            <>
+                                <button
+                                    onClick={() => setMarkdownView('rendered')}
+                                    className={`btn btn-sm ${markdownView === 'rendered' ? '' : 'btn-secondary'}`}
+                                >
+                                    RENDERED
+                                </button>
+                                <button
+                                    onClick={() => setMarkdownView('source')}
+                                    className={`btn btn-sm ${markdownView === 'source' ? '' : 'btn-secondary'}`}
+                                >
+                                    SOURCE
+                                </button>
+                            </>
+                        )}
+                        {streaming && (
+                            <button
+                                onClick={() => setFollowing(!following)}
+                                className={`btn btn-sm ${following ? '' : 'btn-secondary'}`}
+                            >
+                                {following ? 'FOLLOWING' : 'FOLLOW'}
+                            </button>
+                        )}
+                        {ownerToken && !editing && !streaming && (
+                            <button
+                                onClick={() => {
+                                    setViewedRevision(null);
+                                    setEditing(true);
+                                }}
+                                className="btn btn-secondary btn-sm"
+                            >
+                                EDIT
+                            </button>
+                        )}
+                        <button onClick={handleFork} className="btn btn-secondary btn-sm">
+                            FORK
+                        </button>
+                        {!paste.encrypted && (
+                            <button onClick={handleLiveEdit} className="btn btn-secondary btn-sm">
+                                LIVE EDIT
+                            </button>
+                        )}
                         <button onClick={downloadCode} className="btn btn-secondary btn-sm">
                             DOWNLOAD
                         </button>
@@ -197,7 +646,7 @@ export function PasteViewer() {
                     <div className="meta-divider"></div>
                     <div className="meta-item">
                         <span className="meta-label">LANGUAGE</span>
-                        <span className="meta-value">{language.toUpperCase()}</span>
+                        <span className="meta-value">{(languageInfo?.name ?? language).toUpperCase()}</span>
                     </div>
                     <div className="meta-divider"></div>
                     <div className="meta-item">
@@ -207,6 +656,74 @@ export function PasteViewer() {
                             {paste.maxViews && ` / ${paste.maxViews}`}
                         </span>
                     </div>
+                    <div className="meta-divider"></div>
+                    <div className="meta-item">
+                        <span className="meta-label">VISIBILITY</span>
+                        <span className="meta-value">{paste.visibility.toUpperCase()}</span>
+                    </div>
+                    {paste.appendable && (
+                        <>
+                            <div className="meta-divider"></div>
+                            <div className={`meta-item ${tail.status === 'failed' ? 'warning' : ''}`}>
+                                <span className="meta-label">LIVE TAIL</span>
+                                <span className={`meta-value ${streaming ? 'meta-live' : ''}`}>
+                                    {tail.status === 'failed'
+                                        ? tail.error
+                                        : !streaming ? 'CLOSED' : tail.status === 'live' ? 'STREAMING' : 'CONNECTING'}
+                                </span>
+                            </div>
+                        </>
+                    )}
+                    {revisions.length > 1 && (
+                        <>
+                            <div className="meta-divider"></div>
+                            <div className="meta-item">
+                                <label htmlFor="revision-select" className="meta-label">REVISION</label>
+                                <select
+                                    id="revision-select"
+                                    value={viewedRevision?.revision ?? paste.revision}
+                                    onChange={(e) => handleRevisionChange(Number(e.target.value))}
+                                    className="revision-select"
+                                    disabled={editing}
+                                >
+                                    {[...revisions].reverse().map((rev) => (
+                                        <option key={rev.number} value={rev.number}>
+                                            {`r${rev.number} - ${getTimeAgo(rev.createdAt)}${rev.current ? ' (latest)' : ''}`}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        </>
+                    )}
+                    {paste.forkedFrom && (
+                        <>
+                            <div className="meta-divider"></div>
+                            <div className="meta-item">
+                                <span className="meta-label">FORKED FROM</span>
+                                <Link to={`/paste/${paste.forkedFrom}`} className="meta-value meta-link">
+                                    {paste.forkedFrom}
+                                </Link>
+                            </div>
+                        </>
+                    )}
+                    {paste.forkCount > 0 && (
+                        <>
+                            <div className="meta-divider"></div>
+                            <div className="meta-item">
+                                <span className="meta-label">FORKS</span>
+                                <span className="meta-value">{paste.forkCount}</span>
+                            </div>
+                        </>
+                    )}
+                    {paste.encrypted && (
+                        <>
+                            <div className="meta-divider"></div>
+                            <div className="meta-item">
+                                <span className="meta-label">ENCRYPTION</span>
+                                <span className="meta-value">END-TO-END</span>
+                            </div>
+                        </>
+                    )}
                     {paste.expiresAt && (
                         <>
                             <div className="meta-divider"></div>
@@ -227,35 +744,153 @@ export function PasteViewer() {
                     )}
                 </div>
 
+                {revisionError && (
+                    <div className="revision-error">{revisionError}</div>
+                )}
+
+                {viewedRevision && (
+                    <div className="revision-notice">
+                        Viewing revision {viewedRevision.revision} of {paste.revision}.{' '}
+                        <button onClick={() => setViewedRevision(null)} className="revision-notice-link">
+                            Back to latest
+                        </button>
+                        {!paste.encrypted && (
+                            <>
+                                {' '}
+                                <Link
+                                    to={`/diff/${paste.id}/${paste.id}?rev=${viewedRevision.revision}&otherRev=${paste.revision}`}
+                                    className="revision-notice-link"
+                                >
+                                    Compare with latest
+                                </Link>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {/* Editor */}
+                {editing && ownerToken && (
+                    <PasteEditor
+                        id={paste.id}
+                        content={paste.content}
+                        language={paste.language}
+                        revision={paste.revision}
+                        encrypted={paste.encrypted}
+                        ownerToken={ownerToken}
+                        onSaved={handleSaved}
+                        onCancel={() => setEditing(false)}
+                    />
+                )}
+
+                {/* Rendered Markdown */}
+                {!editing && showRendered && (
+                    <div className="paste-code-container glass">
+                        <MarkdownView content={code} />
+                    </div>
+                )}
+
                 {/* Code Block */}
-                <div className="paste-code-container glass">
-                    <Highlight
-                        theme={themes.vsDark}
-                        code={paste.content}
-                        language={language as any}
-                    >
-                        {({ className, style, tokens, getLineProps, getTokenProps }) => (
-                            <pre className={`${className} paste-code`} style={{ ...style, background: 'transparent' }}>
-                                {tokens.map((line, i) => (
-                                    <div key={i} {...getLineProps({ line })} className="code-line">
-                                        <span className="line-number">{i + 1}</span>
-                                        <span className="line-content">
-                                            {line.map((token, key) => (
-                                                <span key={key} {...getTokenProps({ token })} />
-                                            ))}
-                                        </span>
-                                    </div>
-                                ))}
-                            </pre>
+                {!editing && !showRendered && (
+                    <div className="paste-code-container glass">
+                        <Highlight
+                            theme={themes.vsDark}
+                            code={code}
+                            language={languageInfo?.prism ?? language}
+                        >
+                            {({ className, style, tokens, getLineProps, getTokenProps }) => (
+                                <pre className={`${className} paste-code`} style={{ ...style, background: 'transparent' }}>
+                                    {tokens.map((line, i) => (
+                                        <Fragment key={i}>
+                                            <div
+                                                {...getLineProps({ line })}
+                                                id={`L${i + 1}`}
+                                                className={`code-line ${isLineSelected(lineRanges, i + 1) ? 'code-line-selected' : ''}`}
+                                            >
+                                                <button
+                                                    type="button"
+                                                    className="line-number"
+                                                    onClick={(event) => handleLineClick(i + 1, event)}
+                                                    aria-label={`Line ${i + 1}`}
+                                                >
+                                                    {i + 1}
+                                                </button>
+                                                <span className="line-content">
+                                                    {line.map((token, key) => (
+                                                        <span key={key} {...getTokenProps({ token })} />
+                                                    ))}
+                                                </span>
+                                            </div>
+                                            {inlineComments.has(i + 1) && (
+                                                <div className="line-comments">
+                                                    <CommentThread
+                                                        comments={inlineComments.get(i + 1)!}
+                                                        currentRevision={displayedRevision}
+                                                    />
+                                                </div>
+                                            )}
+                                            {commentable && selectedRange?.end === i + 1 && (
+                                                <div className="line-comments">
+                                                    {commentingOnLines ? (
+                                                        <CommentForm
+                                                            lines={selectedRange}
+                                                            onSubmit={submitComment(selectedRange)}
+                                                            onCancel={() => setCommentingOnLines(false)}
+                                                        />
+                                                    ) : (
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => setCommentingOnLines(true)}
+                                                            className="line-comment-button"
+                                                        >
+                                                            + COMMENT ON {formatLineRanges([selectedRange])}
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            )}
+                                        </Fragment>
+                                    ))}
+                                </pre>
+                            )}
+                        </Highlight>
+                    </div>
+                )}
+
+                {/* Comments */}
+                {commentable && (
+                    <div className="paste-comments">
+                        <div className="paste-comments-header">
+                            <span className="meta-label">COMMENTS ({comments.length})</span>
+                            <span className="paste-comments-hint">Click a line number to comment on specific lines</span>
+                        </div>
+                        {listedComments.length > 0 && (
+                            <CommentThread comments={listedComments} currentRevision={displayedRevision} />
                         )}
-                    </Highlight>
-                </div>
+                        <CommentForm lines={null} onSubmit={submitComment(null)} />
+                    </div>
+                )}
 
                 {/* Footer Actions */}
                 <div className="paste-footer">
                     <Link to="/" className="btn btn-secondary">
                         CREATE NEW PASTE
                     </Link>
+                    {/* Plain links can't send a password, and each render takes a view */}
+                    {!paste.encrypted && !password && paste.maxViews === null && (
+                        <div className="paste-render-links">
+                            <span className="meta-label">RENDER</span>
+                            {(['html', 'svg', 'png'] as const).map((format) => (
+                                <a
+                                    key={format}
+                                    href={getRenderUrl(paste.id, format, showRendered && format === 'html' ? 'markdown' : 'code')}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="paste-render-link"
+                                >
+                                    {format.toUpperCase()}
+                                </a>
+                            ))}
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
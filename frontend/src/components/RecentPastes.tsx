@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import './RecentPastes.css';
+import { getRecentPastes, getRecentFeedUrl } from '../api/config';
+import type { RecentPaste } from '../api/types';
+import { useLanguages } from '../lib/languages';
+
+const PAGE_SIZE = 10;
+
+export function RecentPastes() {
+    const [language, setLanguage] = useState('');
+    const [items, setItems] = useState<RecentPaste[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const registry = useLanguages();
+
+    // First page - reloaded whenever the language filter changes
+    useEffect(() => {
+        let ignore = false;
+
+        async function fetchFirstPage() {
+            const result = await getRecentPastes({ language: language || undefined, limit: PAGE_SIZE });
+
+            if (ignore) return;
+
+            if (result.success) {
+                setItems(result.data.items);
+                setNextCursor(result.data.nextCursor);
+                setError(null);
+            } else {
+                setError(result.error);
+            }
+
+            setLoading(false);
+        }
+
+        fetchFirstPage();
+
+        return () => {
+            ignore = true;
+        };
+    }, [language]);
+
+    const handleLanguageChange = (value: string) => {
+        setLanguage(value);
+        setItems([]);
+        setNextCursor(null);
+        setLoading(true);
+    };
+
+    const handleLoadMore = async () => {
+        if (!nextCursor) return;
+
+        setLoading(true);
+
+        const result = await getRecentPastes({
+            cursor: nextCursor,
+            language: language || undefined,
+            limit: PAGE_SIZE,
+        });
+
+        if (result.success) {
+            setItems((prev) => [...prev, ...result.data.items]);
+            setNextCursor(result.data.nextCursor);
+            setError(null);
+        } else {
+            setError(result.error);
+        }
+
+        setLoading(false);
+    };
+
+    const formatDate = (dateString: string) => {
+        return new Date(dateString).toLocaleString();
+    };
+
+    return (
+        <section className="recent-section">
+            <div className="container">
+                <div className="recent-header">
+                    <h2 className="recent-title">RECENT</h2>
+                    <div className="recent-controls">
+                        <select
+                            value={language}
+                            onChange={(e) => handleLanguageChange(e.target.value)}
+                            className="form-select"
+                            aria-label="Language"
+                        >
+                            <option value="">All languages</option>
+                            {registry.languages.map((lang) => (
+                                <option key={lang.id} value={lang.id}>
+                                    {lang.name}
+                                </option>
+                            ))}
+                        </select>
+                        <a href={getRecentFeedUrl('atom', language || undefined)} className="recent-feed-link">
+                            ATOM
+                        </a>
+                        <a href={getRecentFeedUrl('rss', language || undefined)} className="recent-feed-link">
+                            RSS
+                        </a>
+                    </div>
+                </div>
+
+                {error && <div className="recent-error">{error}</div>}
+
+                {items.length === 0 ? (
+                    !error && (
+                        <div className="recent-message">
+                            {loading ? 'Loading...' : 'No public pastes yet.'}
+                        </div>
+                    )
+                ) : (
+                    <ul className="recent-list glass">
+                        {items.map((item) => (
+                            <li key={item.id} className="recent-item">
+                                <div className="recent-item-header">
+                                    <Link to={`/paste/${item.id}`} className="recent-item-id">
+                                        {item.id}
+                                    </Link>
+                                    <div className="recent-item-meta">
+                                        {item.language && (
+                                            <span className="badge">
+                                                {registry.find(item.language)?.name ?? item.language}
+                                            </span>
+                                        )}
+                                        <span>{formatDate(item.createdAt)}</span>
+                                    </div>
+                                </div>
+                                <pre className="recent-item-preview">{item.preview}</pre>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {nextCursor && (
+                    <div className="recent-more">
+                        <button onClick={handleLoadMore} className="btn btn-secondary btn-sm" disabled={loading}>
+                            {loading ? 'LOADING...' : 'LOAD MORE'}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </section>
+    );
+}
+
+export default RecentPastes;
@@ -0,0 +1,132 @@
+/**
+ * Client-side Encryption
+ * AES-GCM helpers for zero-knowledge pastes - the key lives only in the URL fragment
+ */
+
+const ALGORITHM = 'AES-GCM';
+const KEY_LENGTH = 256;
+const IV_LENGTH = 12;
+
+// ============================================
+// Encoding Helpers
+// ============================================
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+function toBase64Url(base64: string): string {
+    return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(base64Url: string): string {
+    const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
+    return base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+}
+
+// ============================================
+// Encryption
+// ============================================
+
+export interface EncryptedPayload {
+    ciphertext: string; // base64 of IV + AES-GCM output
+    key: string;        // base64url raw key, for the URL fragment
+}
+
+/**
+ * Encrypt text with a freshly generated key
+ */
+export async function encryptContent(plaintext: string): Promise<EncryptedPayload> {
+    const key = await crypto.subtle.generateKey({ name: ALGORITHM, length: KEY_LENGTH }, true, ['encrypt']);
+    const rawKey = new Uint8Array(await crypto.subtle.exportKey('raw', key));
+
+    return {
+        ciphertext: await encryptWithKey(plaintext, key),
+        key: toBase64Url(bytesToBase64(rawKey)),
+    };
+}
+
+/**
+ * Encrypt text with an existing key from a URL fragment, e.g. for a new revision
+ */
+export async function encryptContentWithKey(plaintext: string, key: string): Promise<string> {
+    const cryptoKey = await crypto.subtle.importKey(
+        'raw',
+        base64ToBytes(fromBase64Url(key)),
+        { name: ALGORITHM },
+        false,
+        ['encrypt']
+    );
+
+    return encryptWithKey(plaintext, cryptoKey);
+}
+
+async function encryptWithKey(plaintext: string, key: CryptoKey): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const encrypted = await crypto.subtle.encrypt(
+        { name: ALGORITHM, iv },
+        key,
+        new TextEncoder().encode(plaintext)
+    );
+
+    const combined = new Uint8Array(IV_LENGTH + encrypted.byteLength);
+    combined.set(iv);
+    combined.set(new Uint8Array(encrypted), IV_LENGTH);
+
+    return bytesToBase64(combined);
+}
+
+/**
+ * Decrypt content produced by encryptContent
+ * Throws if the key is wrong or the ciphertext was tampered with
+ */
+export async function decryptContent(ciphertext: string, key: string): Promise<string> {
+    const combined = base64ToBytes(ciphertext);
+    const cryptoKey = await crypto.subtle.importKey(
+        'raw',
+        base64ToBytes(fromBase64Url(key)),
+        { name: ALGORITHM },
+        false,
+        ['decrypt']
+    );
+
+    const decrypted = await crypto.subtle.decrypt(
+        { name: ALGORITHM, iv: combined.slice(0, IV_LENGTH) },
+        cryptoKey,
+        combined.slice(IV_LENGTH)
+    );
+
+    return new TextDecoder().decode(decrypted);
+}
+
+// ============================================
+// URL Fragment
+// ============================================
+
+/**
+ * Read the decryption key from a fragment like "#key=abc"
+ */
+export function getKeyFromHash(hash: string): string | null {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    return params.get('key');
+}
+
+/**
+ * Build the fragment that carries the decryption key
+ */
+export function buildKeyHash(key: string): string {
+    return `#key=${key}`;
+}
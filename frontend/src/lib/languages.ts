@@ -0,0 +1,76 @@
+/**
+ * Languages
+ * The backend's language registry, fetched once and shared by every component
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { getLanguages } from '../api/config';
+import type { Language } from '../api/types';
+
+export interface LanguageRegistry {
+    languages: Language[];
+    // By ID or alias, any case
+    find: (name: string | null | undefined) => Language | undefined;
+    // By file extension
+    fromFilename: (filename: string) => Language | undefined;
+}
+
+let loaded: Language[] | null = null;
+let loading: Promise<Language[]> | null = null;
+
+/**
+ * Fetch the registry once per page load - a failed fetch is retried next time
+ */
+function loadLanguages(): Promise<Language[]> {
+    loading ??= getLanguages().then((result) => {
+        if (result.success) {
+            loaded = result.data;
+            return result.data;
+        }
+
+        loading = null;
+        return [];
+    });
+
+    return loading;
+}
+
+function createRegistry(languages: Language[]): LanguageRegistry {
+    const byName = new Map<string, Language>();
+    const byExtension = new Map<string, Language>();
+
+    for (const language of languages) {
+        byName.set(language.id, language);
+        language.aliases.forEach((alias) => byName.set(alias, language));
+        language.extensions.forEach((ext) => byExtension.set(ext, language));
+    }
+
+    return {
+        languages,
+        find: (name) => (name ? byName.get(name.toLowerCase()) : undefined),
+        fromFilename: (filename) => byExtension.get(filename.split('.').pop()?.toLowerCase() ?? ''),
+    };
+}
+
+/**
+ * Language registry - empty until the first fetch completes
+ */
+export function useLanguages(): LanguageRegistry {
+    const [languages, setLanguages] = useState<Language[]>(loaded ?? []);
+
+    useEffect(() => {
+        if (loaded) return;
+
+        let ignore = false;
+
+        loadLanguages().then((result) => {
+            if (!ignore) setLanguages(result);
+        });
+
+        return () => {
+            ignore = true;
+        };
+    }, []);
+
+    return useMemo(() => createRegistry(languages), [languages]);
+}
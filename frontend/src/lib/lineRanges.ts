@@ -0,0 +1,61 @@
+/**
+ * Line Ranges
+ * Line permalinks in the URL fragment - #L10, #L10-L24 or #L3,L10-L24.
+ * They share the fragment with an encryption key as #key=...&L10-L24
+ */
+
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+const RANGE_PART = /^L(\d+)(?:-L?(\d+))?$/i;
+
+function isRangeList(part: string): boolean {
+    return part !== '' && part.split(',').every((range) => RANGE_PART.test(range));
+}
+
+/**
+ * Read the selected line ranges from a fragment - empty when there are none
+ */
+export function parseLineRanges(hash: string): LineRange[] {
+    const part = hash.replace(/^#/, '').split('&').find(isRangeList);
+    if (!part) return [];
+
+    return part.split(',').flatMap((range) => {
+        const [, start, end] = RANGE_PART.exec(range)!;
+        const first = Number(start);
+        const last = end ? Number(end) : first;
+
+        return first >= 1 && last >= first ? [{ start: first, end: last }] : [];
+    });
+}
+
+/**
+ * Format ranges as a fragment part, e.g. L3,L10-L24
+ */
+export function formatLineRanges(ranges: LineRange[]): string {
+    return ranges
+        .map(({ start, end }) => (start === end ? `L${start}` : `L${start}-L${end}`))
+        .join(',');
+}
+
+/**
+ * Replace the line ranges in a fragment, keeping anything else it carries
+ */
+export function buildLineHash(hash: string, ranges: LineRange[]): string {
+    const parts = hash
+        .replace(/^#/, '')
+        .split('&')
+        .filter((part) => part !== '' && !isRangeList(part));
+
+    if (ranges.length > 0) {
+        parts.push(formatLineRanges(ranges));
+    }
+
+    return parts.length > 0 ? `#${parts.join('&')}` : '';
+}
+
+export function isLineSelected(ranges: LineRange[], line: number): boolean {
+    return ranges.some(({ start, end }) => line >= start && line <= end);
+}
@@ -0,0 +1,321 @@
+/**
+ * Live Sessions
+ * Keeps a local copy of a live session's text in step with the server over a
+ * WebSocket. Like ot.js, at most one operation is in flight: edits made while
+ * waiting for its acknowledgement are composed into a buffer and sent next,
+ * and incoming operations are transformed past both
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getLiveSession, getLiveSocketUrl } from '../api/config';
+import type { LiveParticipant } from '../api/types';
+import {
+    applyOperation,
+    compose,
+    isNoop,
+    operationFromChange,
+    transform,
+    transformSelection,
+    type TextOperation,
+    type TextSelection,
+} from './ot';
+
+export type LiveStatus = 'connecting' | 'connected' | 'reconnecting' | 'ended';
+
+export interface LiveSnapshot {
+    by: string;
+    pasteId: string;
+}
+
+export interface LiveSessionState {
+    status: LiveStatus;
+    clientId: string | null;
+    content: string;
+    selection: TextSelection | null; // the local caret, moved by remote edits
+    language: string | null;
+    participants: LiveParticipant[]; // everyone else, cursors in local positions
+    snapshots: LiveSnapshot[]; // announced by other participants
+}
+
+type ServerMessage =
+    | {
+        type: 'welcome';
+        clientId: string;
+        revision: number;
+        content: string;
+        language: string | null;
+        participants: LiveParticipant[];
+    }
+    | { type: 'ack'; revision: number }
+    | { type: 'operation'; clientId: string; revision: number; operation: TextOperation; selection: TextSelection | null }
+    | { type: 'selection'; clientId: string; selection: TextSelection | null }
+    | { type: 'language'; clientId: string; language: string | null }
+    | { type: 'snapshot'; clientId: string; pasteId: string }
+    | { type: 'join'; participant: LiveParticipant }
+    | { type: 'leave'; clientId: string };
+
+interface ClientState {
+    revision: number;
+    outstanding: TextOperation | null; // sent, not yet acknowledged
+    buffer: TextOperation | null;      // not yet sent
+    selectionDirty: boolean;           // caret moved while an operation was in flight
+}
+
+const RECONNECT_DELAYS_MS = [500, 1000, 2000, 5000, 10000];
+
+const INITIAL_STATE: LiveSessionState = {
+    status: 'connecting',
+    clientId: null,
+    content: '',
+    selection: null,
+    language: null,
+    participants: [],
+    snapshots: [],
+};
+
+/**
+ * Join a live session - pass a null name to stay disconnected
+ * Edits that weren't acknowledged when the connection drops are discarded
+ */
+export function useLiveSession(id: string, name: string | null) {
+    const [state, setState] = useState<LiveSessionState>(INITIAL_STATE);
+    const stateRef = useRef(state);
+    const clientRef = useRef<ClientState>({ revision: 0, outstanding: null, buffer: null, selectionDirty: false });
+    const socketRef = useRef<WebSocket | null>(null);
+
+    const update = useCallback((changes: Partial<LiveSessionState>) => {
+        stateRef.current = { ...stateRef.current, ...changes };
+        setState(stateRef.current);
+    }, []);
+
+    const send = useCallback((message: object) => {
+        if (socketRef.current?.readyState === WebSocket.OPEN) {
+            socketRef.current.send(JSON.stringify(message));
+        }
+    }, []);
+
+    useEffect(() => {
+        if (name === null) return;
+
+        let attempt = 0;
+        let closed = false;
+        let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+        const handleMessage = (message: ServerMessage) => {
+            const client = clientRef.current;
+            const current = stateRef.current;
+
+            switch (message.type) {
+                case 'welcome':
+                    attempt = 0;
+                    clientRef.current = { revision: message.revision, outstanding: null, buffer: null, selectionDirty: false };
+                    update({
+                        status: 'connected',
+                        clientId: message.clientId,
+                        content: message.content,
+                        selection: null,
+                        language: message.language,
+                        participants: message.participants,
+                    });
+                    return;
+
+                case 'ack':
+                    client.revision = message.revision;
+                    client.outstanding = client.buffer;
+                    client.buffer = null;
+
+                    if (client.outstanding) {
+                        send({
+                            type: 'operation',
+                            revision: client.revision,
+                            operation: client.outstanding,
+                            selection: current.selection,
+                        });
+                        client.selectionDirty = false;
+                    } else if (client.selectionDirty) {
+                        send({ type: 'selection', revision: client.revision, selection: current.selection });
+                        client.selectionDirty = false;
+                    }
+                    return;
+
+                case 'operation': {
+                    // Move the incoming operation past our unacknowledged edits (and vice versa)
+                    let operation = message.operation;
+                    if (client.outstanding) {
+                        [client.outstanding, operation] = transform(client.outstanding, operation);
+                    }
+                    if (client.buffer) {
+                        [client.buffer, operation] = transform(client.buffer, operation);
+                    }
+                    client.revision = message.revision;
+
+                    const toLocal = (selection: TextSelection | null) =>
+                        [client.outstanding, client.buffer].reduce(
+                            (moved, pending) => (moved && pending ? transformSelection(moved, pending) : moved),
+                            selection
+                        );
+
+                    update({
+                        content: applyOperation(current.content, operation),
+                        selection: current.selection && transformSelection(current.selection, operation),
+                        participants: current.participants.map((participant) =>
+                            participant.id === message.clientId
+                                ? { ...participant, selection: toLocal(message.selection) }
+                                : { ...participant, selection: participant.selection && transformSelection(participant.selection, operation) }
+                        ),
+                    });
+                    return;
+                }
+
+                case 'selection': {
+                    const selection = [client.outstanding, client.buffer].reduce(
+                        (moved, pending) => (moved && pending ? transformSelection(moved, pending) : moved),
+                        message.selection
+                    );
+
+                    update({
+                        participants: current.participants.map((participant) =>
+                            participant.id === message.clientId ? { ...participant, selection } : participant
+                        ),
+                    });
+                    return;
+                }
+
+                case 'language':
+                    update({ language: message.language });
+                    return;
+
+                case 'snapshot': {
+                    const by = current.participants.find((participant) => participant.id === message.clientId)?.name;
+                    update({ snapshots: [...current.snapshots, { by: by ?? 'Someone', pasteId: message.pasteId }] });
+                    return;
+                }
+
+                case 'join':
+                    update({ participants: [...current.participants, message.participant] });
+                    return;
+
+                case 'leave':
+                    update({ participants: current.participants.filter((participant) => participant.id !== message.clientId) });
+                    return;
+            }
+        };
+
+        const connect = () => {
+            const socket = new WebSocket(getLiveSocketUrl(id, name));
+            socketRef.current = socket;
+
+            socket.onmessage = (event) => {
+                try {
+                    handleMessage(JSON.parse(event.data));
+                } catch (error) {
+                    // Our copy no longer matches - start again from the server's
+                    console.error('Live session out of sync:', error);
+                    socket.close();
+                }
+            };
+
+            socket.onclose = async () => {
+                if (closed) return;
+                socketRef.current = null;
+
+                // A session that's gone won't come back - anything else is worth retrying
+                const session = await getLiveSession(id);
+                if (closed) return;
+
+                if (!session.success && session.code === 'NOT_FOUND') {
+                    update({ status: 'ended' });
+                    return;
+                }
+
+                update({ status: 'reconnecting' });
+                retryTimer = setTimeout(connect, RECONNECT_DELAYS_MS[Math.min(attempt++, RECONNECT_DELAYS_MS.length - 1)]);
+            };
+        };
+
+        connect();
+
+        return () => {
+            closed = true;
+            clearTimeout(retryTimer);
+            socketRef.current?.close();
+            socketRef.current = null;
+        };
+    }, [id, name, send, update]);
+
+    /**
+     * The local text changed to content, leaving the caret at selection
+     */
+    const edit = useCallback(
+        (content: string, selection: TextSelection) => {
+            const current = stateRef.current;
+            if (current.status !== 'connected') return;
+
+            const client = clientRef.current;
+            const operation = operationFromChange(current.content, content);
+
+            if (isNoop(operation)) {
+                return;
+            }
+
+            update({
+                content,
+                selection,
+                participants: current.participants.map((participant) => ({
+                    ...participant,
+                    selection: participant.selection && transformSelection(participant.selection, operation),
+                })),
+            });
+
+            if (client.outstanding) {
+                client.buffer = client.buffer ? compose(client.buffer, operation) : operation;
+                client.selectionDirty = true;
+                return;
+            }
+
+            client.outstanding = operation;
+            send({ type: 'operation', revision: client.revision, operation, selection });
+        },
+        [send, update]
+    );
+
+    /**
+     * The local caret or selection moved without an edit
+     */
+    const select = useCallback(
+        (selection: TextSelection) => {
+            const current = stateRef.current;
+            if (
+                current.status !== 'connected' ||
+                (current.selection?.anchor === selection.anchor && current.selection?.head === selection.head)
+            ) {
+                return;
+            }
+
+            update({ selection });
+
+            const client = clientRef.current;
+            if (client.outstanding) {
+                client.selectionDirty = true;
+            } else {
+                send({ type: 'selection', revision: client.revision, selection });
+            }
+        },
+        [send, update]
+    );
+
+    const setLanguage = useCallback(
+        (language: string | null) => {
+            update({ language });
+            send({ type: 'language', language: language ?? '' });
+        },
+        [send, update]
+    );
+
+    const announceSnapshot = useCallback(
+        (pasteId: string, ownerToken: string) => send({ type: 'snapshot', pasteId, ownerToken }),
+        [send]
+    );
+
+    return { ...state, edit, select, setLanguage, announceSnapshot };
+}
@@ -0,0 +1,45 @@
+/**
+ * Owner Tokens
+ * Remembers the owner tokens of pastes created in this browser
+ */
+
+const STORAGE_KEY = 'pastebin:ownerTokens';
+
+function readTokens(): Record<string, string> {
+    try {
+        return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+}
+
+function writeTokens(tokens: Record<string, string>): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+    } catch {
+        // Storage full or disabled - the delete link still works
+    }
+}
+
+/**
+ * Remember the owner token of a paste
+ */
+export function saveOwnerToken(id: string, token: string): void {
+    writeTokens({ ...readTokens(), [id]: token });
+}
+
+/**
+ * Get the owner token of a paste, if it was created here
+ */
+export function getOwnerToken(id: string): string | null {
+    return readTokens()[id] ?? null;
+}
+
+/**
+ * Forget the owner token of a deleted paste
+ */
+export function removeOwnerToken(id: string): void {
+    const tokens = readTokens();
+    delete tokens[id];
+    writeTokens(tokens);
+}
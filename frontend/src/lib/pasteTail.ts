@@ -0,0 +1,100 @@
+/**
+ * Live Tails
+ * Follows an appendable paste's stream, keeping the latest content in step
+ * with the appends - the connection is reopened when it drops, but not when
+ * the server refuses it
+ */
+
+import { useEffect, useState } from 'react';
+import { streamPaste, StreamError } from '../api/config';
+
+export type PasteTailStatus = 'connecting' | 'live' | 'closed' | 'failed';
+
+export interface PasteTail {
+    status: PasteTailStatus;
+    content: string | null; // null until the stream delivers it
+    error: string | null; // why the stream was refused, once status is failed
+}
+
+const RECONNECT_DELAY_MS = 3000;
+
+const INITIAL_TAIL: PasteTail = { status: 'connecting', content: null, error: null };
+
+/**
+ * Follow the paste while id is set - pass null once there's nothing to follow
+ */
+export function usePasteTail(id: string | null, password?: string): PasteTail {
+    // Tagged with what it follows, so switching paste or password starts afresh
+    const source = `${id}\0${password ?? ''}`;
+    const [state, setState] = useState<{ source: string; tail: PasteTail }>({ source, tail: INITIAL_TAIL });
+
+    useEffect(() => {
+        if (!id) return;
+
+        const setTail = (update: PasteTail | ((current: PasteTail) => PasteTail)) => {
+            setState((state) => {
+                const current = state.source === source ? state.tail : INITIAL_TAIL;
+                return { source, tail: typeof update === 'function' ? update(current) : update };
+            });
+        };
+
+        const controller = new AbortController();
+        let closed = false;
+        let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+        const follow = () => {
+            streamPaste(
+                id,
+                (event) => {
+                    switch (event.type) {
+                        case 'content':
+                            setTail({ status: 'live', content: event.content, error: null });
+                            return;
+
+                        case 'append':
+                            setTail((current) => ({
+                                ...current,
+                                status: 'live',
+                                content: (current.content ?? '').slice(event.dropped) + event.chunk,
+                            }));
+                            return;
+
+                        case 'end':
+                            closed = true;
+                            setTail((current) => ({ ...current, status: 'closed' }));
+                            return;
+                    }
+                },
+                { password, signal: controller.signal }
+            )
+                .catch((error) => {
+                    if (controller.signal.aborted) return;
+
+                    // Gone, locked or not appendable - retrying won't change that, but a rate limit will pass
+                    if (error instanceof StreamError && error.status >= 400 && error.status < 500 && error.status !== 429) {
+                        closed = true;
+                        setTail((current) => ({ ...current, status: 'failed', error: error.message }));
+                        return;
+                    }
+
+                    console.error('Live tail stream failed:', error);
+                })
+                .finally(() => {
+                    // Each connection starts with the full content, so nothing is lost in between
+                    if (!closed && !controller.signal.aborted) {
+                        setTail((current) => ({ ...current, status: 'connecting' }));
+                        retryTimer = setTimeout(follow, RECONNECT_DELAY_MS);
+                    }
+                });
+        };
+
+        follow();
+
+        return () => {
+            controller.abort();
+            clearTimeout(retryTimer);
+        };
+    }, [id, password, source]);
+
+    return state.source === source ? state.tail : INITIAL_TAIL;
+}
@@ -0,0 +1,52 @@
+/**
+ * Session
+ * Keeps the signed-in account's session token in this browser
+ */
+
+const STORAGE_KEY = 'pastebin:session';
+
+export interface Session {
+    token: string;
+    email: string;
+    expiresAt: string;
+}
+
+/**
+ * Get the current session, dropping it once it has expired
+ */
+export function getSession(): Session | null {
+    try {
+        const session: Session | null = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+
+        if (session && new Date(session.expiresAt) <= new Date()) {
+            clearSession();
+            return null;
+        }
+
+        return session;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Remember the session after signing in
+ */
+export function saveSession(session: Session): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    } catch {
+        // Storage full or disabled - the user stays signed out
+    }
+}
+
+/**
+ * Forget the session when signing out
+ */
+export function clearSession(): void {
+    try {
+        localStorage.removeItem(STORAGE_KEY);
+    } catch {
+        // Nothing to clear
+    }
+}
@@ -0,0 +1,14 @@
+import './DashboardPage.css';
+import { Dashboard } from '../components/Dashboard';
+import { Footer } from '../components/Footer';
+
+export function DashboardPage() {
+    return (
+        <div className="dashboard-page">
+            <Dashboard />
+            <Footer />
+        </div>
+    );
+}
+
+export default DashboardPage;
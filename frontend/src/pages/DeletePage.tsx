@@ -0,0 +1,14 @@
+import './DeletePage.css';
+import { PasteDelete } from '../components/PasteDelete';
+import { Footer } from '../components/Footer';
+
+export function DeletePage() {
+    return (
+        <div className="delete-page">
+            <PasteDelete />
+            <Footer />
+        </div>
+    );
+}
+
+export default DeletePage;
@@ -0,0 +1,14 @@
+import './DiffPage.css';
+import { DiffViewer } from '../components/DiffViewer';
+import { Footer } from '../components/Footer';
+
+export function DiffPage() {
+    return (
+        <div className="diff-page">
+            <DiffViewer />
+            <Footer />
+        </div>
+    );
+}
+
+export default DiffPage;
@@ -1,15 +1,20 @@
 import '../App.css';
 import { Hero } from '../components/Hero';
-import { PasteForm } from '../components/PasteForm';
+import { PasteForm, type ForkSource } from '../components/PasteForm';
 import { FileUploadForm } from '../components/FileUploadForm';
+import { RecentPastes } from '../components/RecentPastes';
 import { Footer } from '../components/Footer';
 import { useState } from 'react';
+import { useLocation } from 'react-router-dom';
 
 type TabType = 'paste' | 'files';
 
 export function HomePage() {
     const [activeTab, setActiveTab] = useState<TabType>('paste');
 
+    // Set by the viewer's FORK button
+    const fork = (useLocation().state as { fork?: ForkSource } | null)?.fork;
+
     return (
         <div className="app">
             {/* Hero Section */}
@@ -35,9 +40,12 @@ export function HomePage() {
                     </div>
 
                     {/* Tab Content */}
-                    {activeTab === 'paste' ? <PasteForm /> : <FileUploadForm />}
+                    {activeTab === 'paste' ? <PasteForm key={fork?.id} fork={fork} /> : <FileUploadForm />}
                 </div>
 
+                {/* Recent Public Pastes */}
+                <RecentPastes />
+
                 {/* Features Section */}
                 <section className="features-section">
                     <div className="container">
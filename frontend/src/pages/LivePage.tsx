@@ -0,0 +1,17 @@
+import './LivePage.css';
+import { useParams } from 'react-router-dom';
+import { LiveEditor } from '../components/LiveEditor';
+import { Footer } from '../components/Footer';
+
+export function LivePage() {
+    const { id } = useParams<{ id: string }>();
+
+    return (
+        <div className="live-page">
+            <LiveEditor key={id} />
+            <Footer />
+        </div>
+    );
+}
+
+export default LivePage;
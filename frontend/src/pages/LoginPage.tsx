@@ -0,0 +1,14 @@
+import './LoginPage.css';
+import { AuthForm } from '../components/AuthForm';
+import { Footer } from '../components/Footer';
+
+export function LoginPage() {
+    return (
+        <div className="login-page">
+            <AuthForm />
+            <Footer />
+        </div>
+    );
+}
+
+export default LoginPage;
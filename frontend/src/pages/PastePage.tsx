@@ -1,11 +1,15 @@
 import './PastePage.css';
+import { useParams } from 'react-router-dom';
 import { PasteViewer } from '../components/PasteViewer';
 import { Footer } from '../components/Footer';
 
 export function PastePage() {
+    // Remount per paste so following a fork link starts from a clean state
+    const { id } = useParams<{ id: string }>();
+
     return (
         <div className="paste-page">
-            <PasteViewer />
+            <PasteViewer key={id} />
             <Footer />
         </div>
     );
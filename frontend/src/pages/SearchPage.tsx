@@ -0,0 +1,14 @@
+import './SearchPage.css';
+import { PasteSearch } from '../components/PasteSearch';
+import { Footer } from '../components/Footer';
+
+export function SearchPage() {
+    return (
+        <div className="search-page">
+            <PasteSearch />
+            <Footer />
+        </div>
+    );
+}
+
+export default SearchPage;
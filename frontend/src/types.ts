@@ -11,6 +11,7 @@ export type {
     CreatePasteParams,
     PasteResponse,
     GetPasteResponse,
+    DeletePasteResponse,
     ApiResponse
 } from './api/types';
 